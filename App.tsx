@@ -1,28 +1,55 @@
 
-import React, { useState, useEffect, useMemo, useCallback, memo } from 'react';
+import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
 import { 
   Shield, 
   Lock, 
-  Key, 
   Fingerprint, 
   Plus, 
-  Trash2, 
-  Eye, 
-  EyeOff, 
   LogOut,
   ShieldCheck,
   AlertCircle,
   Info,
   X,
-  RefreshCw,
-  Copy,
-  Check,
   LifeBuoy,
   RotateCcw,
-  ChevronDown,
-  Loader2
+  Loader2,
+  Settings,
+  Download,
+  Upload,
+  ArrowLeftRight,
+  Trash2,
+  ShieldAlert,
+  Database,
+  Activity,
+  RefreshCw,
+  GitMerge,
+  Cloud,
+  Share2
 } from 'lucide-react';
-import { VaultService, VaultItem } from './services/VaultService';
+import { VaultService, VaultItem, VaultInfo, BackupError, VaultIntegrityError, VaultConflictError, DuressError, SyncStatus, SyncError, ConflictChoice } from './services/VaultService';
+import { BiometricUnavailableError } from './services/BiometricService';
+import { SettingsScreen } from './components/SettingsScreen';
+import { InputGroup } from './components/InputGroup';
+import { TransferScreen } from './components/TransferScreen';
+import { ItemForm } from './components/ItemForm';
+import { ItemDraft, createItem, updateItem, moveToRecycleBin, restoreItem, toDraft, isActive, markUsed, toggleFavorite } from './services/VaultItems';
+import { collectFolders, collectTags } from './services/VaultSearch';
+import { ImportPreviewRow, DuplicateStrategy, applyImport } from './services/interop';
+import { RecycleBin } from './components/RecycleBin';
+import { HealthDashboard } from './components/HealthDashboard';
+import { PasswordStrengthMeter } from './components/PasswordStrengthMeter';
+import { estimateStrength, MIN_MASTER_PASSWORD_SCORE } from './services/PasswordStrength';
+import { VaultBrowser } from './components/VaultBrowser';
+import { SessionPolicy, DEFAULT_SESSION_POLICY } from './services/SessionPolicy';
+import { SessionMonitor } from './services/SessionMonitor';
+import { TabCoordinator } from './services/TabCoordinator';
+import { ClipboardService } from './services/ClipboardService';
+import { ThrottleStatus, FailedAttempt, ThrottledError, VaultWipedError } from './services/ThrottleService';
+import { RecoveryPhraseError } from './services/RecoveryPhrase';
+import { RecoveryKeyInput, TrusteeSharesInput } from './components/RecoveryKeyInput';
+import { RecoveryKeyDisplay } from './components/RecoveryKeyDisplay';
+import { SyncConflicts } from './components/SyncConflicts';
+import { ShareScreen } from './components/ShareScreen';
 
 enum AppState {
   LOADING = 'LOADING',
@@ -32,57 +59,265 @@ enum AppState {
   UNLOCKED = 'UNLOCKED'
 }
 
-const SOCIAL_MEDIA_OPTIONS = [
-  "Google", "Facebook", "Instagram", "X (Twitter)", "TikTok", 
-  "LinkedIn", "Discord", "WhatsApp", "Telegram", "Snapchat", 
-  "Reddit", "Pinterest", "Netflix", "Spotify", "Amazon", "Binance"
-];
-
 // Helper to allow UI to update before heavy crypto
 const yieldToUI = () => new Promise(resolve => setTimeout(resolve, 100));
 
+const NO_THROTTLE: ThrottleStatus = { failures: 0, lockedUntil: 0, wipeAfter: null };
+
+// Pull interval while unlocked, and how long edits settle before they are pushed
+const SYNC_INTERVAL_MS = 60_000;
+const SYNC_DEBOUNCE_MS = 1500;
+// Reveals and copies only move lastUsedAt; they are saved together at most this often
+const USE_SAVE_DELAY_MS = 30_000;
+
+const syncErrorMessage = (e: unknown) => e instanceof SyncError || e instanceof VaultIntegrityError ? e.message : "Sync failed.";
+
+// Usage times not saved yet, by item id
+type PendingUse = Map<string, number>;
+
+const withUse = (items: VaultItem[], uses: PendingUse) => uses.size ? items.map(i => uses.has(i.id) ? markUsed(i, uses.get(i.id)) : i) : items;
+
 const App: React.FC = () => {
   const [appState, setAppState] = useState<AppState>(AppState.LOADING);
   const [items, setItems] = useState<VaultItem[]>([]);
   const [recoveryKey, setRecoveryKey] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [showPassword, setShowPassword] = useState<Record<string, boolean>>({});
+  const [biometricEnrolled, setBiometricEnrolled] = useState(false);
+  const [sessionPolicy, setSessionPolicy] = useState<SessionPolicy | null>(null);
+  const [throttle, setThrottle] = useState<ThrottleStatus>(NO_THROTTLE);
+  const [vaults, setVaults] = useState<VaultInfo[]>([]);
+  const [activeVaultId, setActiveVaultId] = useState<string | null>(null);
+  const [failedAttempts, setFailedAttempts] = useState<FailedAttempt[]>([]);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus | null>(null);
+  const [syncing, setSyncing] = useState(false);
+  const [syncError, setSyncError] = useState<string | null>(null);
+  const sessionStartedAt = useRef(0);
+  const [notice, setNotice] = useState<string | null>(null);
+  const syncTimer = useRef<ReturnType<typeof setTimeout>>(undefined);
+  const tabs = useRef<TabCoordinator | null>(null);
+  const pendingUse = useRef<PendingUse>(new Map());
+  const useTimer = useRef<ReturnType<typeof setTimeout>>(undefined);
+
+  // Hands over the usage times collected so far, for a save to include
+  const takePendingUse = useCallback(() => {
+    clearTimeout(useTimer.current);
+    useTimer.current = undefined;
+    const uses = pendingUse.current;
+    pendingUse.current = new Map();
+    return uses;
+  }, []);
 
-  const handleLock = useCallback(() => {
+  // Usage only orders the "recently used" list; losing it to a failed save is not worth an error
+  const savePendingUse = useCallback(async () => {
+    const uses = takePendingUse();
+    if (!uses.size || !VaultService.isUnlocked()) return;
+    try {
+      setItems(await VaultService.updateItems(current => withUse(current, uses)));
+    } catch (e) {}
+  }, [takePendingUse]);
+
+  // Ends the session in this tab only; handleLock also locks the other tabs
+  const lockHere = useCallback(async () => {
+    await savePendingUse();
+    VaultService.lock();
+    ClipboardService.clearNow();
+    clearTimeout(syncTimer.current);
     setItems([]);
+    setShowPassword({});
+    setSessionPolicy(null);
+    setSyncStatus(null);
+    setSyncError(null);
+    setNotice(null);
     setAppState(AppState.LOCKED);
     setError(null);
-  }, []);
+  }, [savePendingUse]);
 
+  // Only the Lock button locks every tab; an idle or hidden tab says nothing about the others
+  const handleLock = useCallback(() => {
+    tabs.current?.announceLock();
+    lockHere();
+  }, [lockHere]);
+
+  // Tabs that are not unlocked ignore the announcements; they have nothing to lock or reload
   useEffect(() => {
-    const handleVisibilityChange = () => {
-      if (document.visibilityState === 'hidden' && appState === AppState.UNLOCKED) {
-        handleLock();
+    const coordinator = new TabCoordinator(
+      () => { if (VaultService.isUnlocked()) lockHere(); },
+      vaultId => {
+        if (!VaultService.isUnlocked() || VaultService.getActiveVaultId() !== vaultId) return;
+        VaultService.reloadVault()
+          .then(({ items, changed }) => { if (changed) setItems(withUse(items, pendingUse.current)); })
+          .catch(e => setNotice(e instanceof VaultIntegrityError ? e.message : "Changes from another tab could not be loaded."));
       }
+    );
+    coordinator.start();
+    tabs.current = coordinator;
+    VaultService.onCommit = vaultId => coordinator.announceChange(vaultId);
+    return () => {
+      VaultService.onCommit = null;
+      tabs.current = null;
+      coordinator.stop();
     };
-    window.addEventListener('visibilitychange', handleVisibilityChange);
-    return () => window.removeEventListener('visibilitychange', handleVisibilityChange);
-  }, [appState, handleLock]);
+  }, [lockHere]);
+
+  // Failures only show up as a notice; the vault keeps working offline and the next sync catches up
+  const handleSync = useCallback(async () => {
+    setSyncing(true);
+    try {
+      const result = await VaultService.syncVault();
+      if (result.changed) setItems(withUse(result.items, pendingUse.current));
+      setSyncStatus(result.status);
+      setSyncError(null);
+    } catch (e) {
+      setSyncError(syncErrorMessage(e));
+    } finally {
+      setSyncing(false);
+    }
+  }, []);
 
+  // The policy and sync settings are encrypted, so they can only be read once the vault is open
   useEffect(() => {
-    const checkState = async () => {
-      const hasVault = await VaultService.hasExistingVault();
-      setAppState(hasVault ? AppState.LOCKED : AppState.SETUP);
-    };
-    checkState();
+    if (appState !== AppState.UNLOCKED) return;
+    sessionStartedAt.current = Date.now();
+    setSyncError(null);
+    VaultService.getSyncStatus().then(status => {
+      setSyncStatus(status);
+      if (status) handleSync();
+    });
+    VaultService.takeFailedAttempts().then(setFailedAttempts);
+    VaultService.getSessionPolicy()
+      .catch(() => ({ ...DEFAULT_SESSION_POLICY }))
+      .then(policy => {
+        ClipboardService.clearAfterSeconds = policy.clipboardClearSeconds;
+        setSessionPolicy(policy);
+      });
+  }, [appState, handleSync]);
+
+  // Picks up changes from other devices while the vault stays open
+  const syncId = syncStatus?.syncId;
+  useEffect(() => {
+    if (appState !== AppState.UNLOCKED || !syncId) return;
+    const timer = setInterval(handleSync, SYNC_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [appState, syncId, handleSync]);
+
+  // Re-armed whenever the policy changes; the maximum session still counts from unlock
+  useEffect(() => {
+    if (appState !== AppState.UNLOCKED || !sessionPolicy) return;
+    const monitor = new SessionMonitor(sessionPolicy, lockHere, sessionStartedAt.current);
+    monitor.start();
+    return () => monitor.stop();
+  }, [appState, sessionPolicy, lockHere]);
+
+  // Re-reads the registry and falls back to setup once no vault is left
+  const refreshVaults = useCallback(async () => {
+    setVaults(await VaultService.listVaults());
+    setActiveVaultId(VaultService.getActiveVaultId());
+    const hasVault = await VaultService.hasExistingVault();
+    setAppState(hasVault ? AppState.LOCKED : AppState.SETUP);
   }, []);
 
-  const handleSetup = async (pwd: string) => {
+  useEffect(() => {
+    VaultService.initStorage().then(refreshVaults).catch(() => setError("The vault storage could not be opened. Reload the page to try again."));
+  }, [refreshVaults]);
+
+  // Enrollment and the failure counter change elsewhere, so re-read both every time we land on the lock screen
+  useEffect(() => {
+    if (appState !== AppState.LOCKED || !activeVaultId) return;
+    VaultService.hasBiometricSlot().then(setBiometricEnrolled);
+    VaultService.getThrottleStatus().then(setThrottle);
+  }, [appState, activeVaultId]);
+
+  // Shared by the master-password and recovery-key paths, which share one failure counter
+  // Never rejects, and always ends in setError, which is what releases the busy unlock screen
+  const handleUnlockFailure = async (e: unknown, invalidMessage: string) => {
+    if (e instanceof VaultWipedError) {
+      try {
+        // The other vaults on this device survive; land on the next one, or on setup if none is left
+        const remaining = await VaultService.listVaults();
+        if (remaining.length) await VaultService.selectVault(remaining[0].id);
+        await refreshVaults();
+      } catch (reloadError) {
+        // The vault is gone either way; the picker catches up on the next reload
+      }
+      setError(`Vault erased after ${e.failures} failed unlock attempts.`);
+      return;
+    }
+    try {
+      setThrottle(await VaultService.getThrottleStatus());
+    } catch (statusError) {
+      // The countdown keeps its last state; the next attempt reads the status again
+    }
+    if (e instanceof ThrottledError) {
+      setError("Too many failed attempts.");
+    } else if (e instanceof RecoveryPhraseError || e instanceof VaultIntegrityError) {
+      // A mistyped phrase is rejected before any attempt is made, and a failed integrity
+      // check comes after the secret was accepted, so neither counted as a failure
+      setError(e.message);
+    } else {
+      setError(invalidMessage);
+    }
+  };
+
+  const handleSetup = async (name: string, pwd: string) => {
     setError(null);
     await yieldToUI();
     try {
-      const rKey = await VaultService.initializeVault(pwd);
+      const rKey = await VaultService.initializeVault(name, pwd);
       setRecoveryKey(rKey);
       setItems([]);
+      setVaults(await VaultService.listVaults());
+      setActiveVaultId(VaultService.getActiveVaultId());
       setAppState(AppState.UNLOCKED);
     } catch (e) { setError("Failed to initialize vault."); }
   };
 
+  const handleRestoreBackup = async (name: string, backup: string, pwd: string) => {
+    setError(null);
+    await yieldToUI();
+    try {
+      const restoredItems = await VaultService.importBackup(name, backup, pwd);
+      setItems(restoredItems);
+      setVaults(await VaultService.listVaults());
+      setActiveVaultId(VaultService.getActiveVaultId());
+      setAppState(AppState.UNLOCKED);
+    } catch (e) {
+      if (e instanceof BackupError && e.reason === 'wrong-password') setError("Wrong master password for this backup.");
+      else if (e instanceof BackupError && e.reason === 'unsupported-version') setError("Unsupported backup version.");
+      else setError("Backup file is corrupt or was modified.");
+    }
+  };
+
+  const handleJoinSync = async (name: string, server: string, syncId: string, pwd: string) => {
+    setError(null);
+    await yieldToUI();
+    try {
+      const result = await VaultService.joinSyncedVault(name, server, syncId, pwd);
+      setItems(result.items);
+      setSyncStatus(result.status);
+      setVaults(await VaultService.listVaults());
+      setActiveVaultId(VaultService.getActiveVaultId());
+      setAppState(AppState.UNLOCKED);
+    } catch (e) {
+      if (e instanceof SyncError && e.reason === 'wrong-password') setError("Wrong master password for this vault.");
+      else if (e instanceof SyncError && e.reason === 'not-found') setError("No vault with this sync ID on the server.");
+      else setError(syncErrorMessage(e));
+    }
+  };
+
+  const handleSelectVault = async (id: string) => {
+    setError(null);
+    await VaultService.selectVault(id);
+    setThrottle(NO_THROTTLE);
+    setBiometricEnrolled(false);
+    setActiveVaultId(id);
+  };
+
+  const handleNewVault = () => {
+    setError(null);
+    setAppState(AppState.SETUP);
+  };
+
   const handleUnlock = async (pwd: string) => {
     setError(null);
     await yieldToUI();
@@ -90,7 +325,18 @@ const App: React.FC = () => {
       const decryptedItems = await VaultService.unlockVault(pwd);
       setItems(decryptedItems);
       setAppState(AppState.UNLOCKED);
-    } catch (e) { setError("Invalid master password."); }
+    } catch (e) { await handleUnlockFailure(e, "Invalid master password."); }
+  };
+
+  const handleBiometricUnlock = async () => {
+    setError(null);
+    try {
+      const decryptedItems = await VaultService.unlockWithBiometric();
+      setItems(decryptedItems);
+      setAppState(AppState.UNLOCKED);
+    } catch (e) {
+      setError(e instanceof BiometricUnavailableError ? "Biometric unavailable. Use master password." : e instanceof VaultIntegrityError ? e.message : "Biometric unlock failed.");
+    }
   };
 
   const handleRecover = async (rKey: string) => {
@@ -100,7 +346,7 @@ const App: React.FC = () => {
       const decryptedItems = await VaultService.recoverVault(rKey);
       setItems(decryptedItems);
       setAppState(AppState.RECOVERY_SUCCESS);
-    } catch (e) { setError("Invalid recovery key."); }
+    } catch (e) { await handleUnlockFailure(e, "Invalid recovery key."); }
   };
 
   const handlePasswordReset = async (newPwd: string) => {
@@ -110,22 +356,114 @@ const App: React.FC = () => {
       await VaultService.resetMasterPassword(newPwd);
       setAppState(AppState.UNLOCKED);
     } catch (e) { 
-      setError("Failed to update master password. Hardware key error."); 
+      setError(e instanceof DuressError ? e.message : "Failed to update master password. Hardware key error."); 
       throw e;
     }
   };
 
-  const handleAdd = async (title: string, user: string, pass: string) => {
-    const newItem: VaultItem = { id: crypto.randomUUID(), title, username: user, password: pass };
-    const updated = [...items, newItem];
-    setItems(updated);
-    await VaultService.saveVault(updated);
+  // Updates apply to the items as last saved, which may include changes a sync just merged in.
+  // Usage times collected since the last save go along with them.
+  const persist = async (update: (current: VaultItem[]) => VaultItem[]) => {
+    const uses = takePendingUse();
+    try {
+      setItems(await VaultService.updateItems(current => withUse(update(current), uses)));
+    } catch (e) {
+      if (!(e instanceof VaultConflictError)) throw e;
+      // Nothing was written; show what is stored now and let the user redo the change on top of it
+      setItems((await VaultService.reloadVault()).items);
+      setNotice(`${e.message}. Your last change was not saved; the latest version is shown.`);
+      return;
+    }
+    if (syncStatus) {
+      clearTimeout(syncTimer.current);
+      syncTimer.current = setTimeout(handleSync, SYNC_DEBOUNCE_MS);
+    }
   };
 
+  // For list actions nobody awaits: a failed save ends up in the notice instead of an unhandled rejection
+  const persistQuietly = async (update: (current: VaultItem[]) => VaultItem[]) => {
+    try {
+      await persist(update);
+    } catch (e) {
+      setNotice("Your last change could not be saved. Please try again.");
+    }
+  };
+
+  const handleAdd = async (draft: ItemDraft) => {
+    await persist(current => [...current, createItem(draft)]);
+  };
+
+  // `editedSince` is the version the form started from; saving over a newer one would silently undo that edit
+  const handleUpdate = async (id: string, draft: ItemDraft, editedSince: number) => {
+    await persist(current => current.map(i => {
+      if (i.id !== id) return i;
+      if (i.updatedAt !== editedSince) throw new VaultConflictError(`"${i.title}" was changed elsewhere while you edited it`);
+      return updateItem(i, draft);
+    }));
+  };
+
+  // Deleting only moves the item to the recycle bin; it is purged after RECYCLE_BIN_DAYS
   const handleDelete = async (id: string) => {
-    const updated = items.filter(i => i.id !== id);
-    setItems(updated);
-    await VaultService.saveVault(updated);
+    await persistQuietly(current => current.map(i => i.id === id ? moveToRecycleBin(i) : i));
+  };
+
+  const handlePolicyChange = async (policy: SessionPolicy) => {
+    await VaultService.saveSessionPolicy(policy);
+    ClipboardService.clearAfterSeconds = policy.clipboardClearSeconds;
+    setSessionPolicy(policy);
+  };
+
+  const handleToggleFavorite = async (id: string) => {
+    await persistQuietly(current => current.map(i => i.id === id ? toggleFavorite(i) : i));
+  };
+
+  // Revealing a secret counts as use for the "recently used" sort. The list reorders at once;
+  // the time is saved with the next change or after USE_SAVE_DELAY_MS, so reveals do not each re-encrypt and sync.
+  const handleUse = (id: string) => {
+    const at = Date.now();
+    pendingUse.current.set(id, at);
+    setItems(current => current.map(i => i.id === id ? markUsed(i, at) : i));
+    if (!useTimer.current) useTimer.current = setTimeout(savePendingUse, USE_SAVE_DELAY_MS);
+  };
+
+  const handleRestoreItem = async (id: string) => {
+    await persistQuietly(current => current.map(i => i.id === id ? restoreItem(i) : i));
+  };
+
+  const handlePurge = async (ids: string[]) => {
+    await persistQuietly(current => current.filter(i => !ids.includes(i.id)));
+  };
+
+  const handleImport = async (rows: ImportPreviewRow[], strategy: DuplicateStrategy) => {
+    await persist(current => applyImport(current, rows, strategy));
+  };
+
+  const handleReceiveShared = async (received: VaultItem[]) => {
+    await persist(current => [...current, ...received]);
+  };
+
+  const handleResolveConflict = async (id: string, choice: ConflictChoice) => {
+    const result = await VaultService.resolveSyncConflict(id, choice);
+    setItems(result.items);
+    setSyncStatus(result.status);
+    handleSync();
+  };
+
+  const handleEnableSync = async (server: string) => {
+    try {
+      await VaultService.enableSync(server);
+      setSyncError(null);
+    } finally {
+      // Registration may succeed even if the first upload fails; the next sync retries the upload
+      setSyncStatus(await VaultService.getSyncStatus());
+    }
+  };
+
+  const handleDisableSync = async () => {
+    clearTimeout(syncTimer.current);
+    await VaultService.disableSync();
+    setSyncStatus(null);
+    setSyncError(null);
   };
 
   const toggleVisibility = useCallback((id: string) => {
@@ -134,8 +472,9 @@ const App: React.FC = () => {
 
   if (appState === AppState.LOADING) {
     return (
-      <div className="h-screen bg-slate-950 flex items-center justify-center">
-        <Loader2 className="w-12 h-12 text-emerald-500 animate-spin" />
+      <div className="h-screen bg-slate-950 flex flex-col items-center justify-center gap-6 p-8 text-center">
+        {error ? <AlertCircle className="w-12 h-12 text-red-400" /> : <Loader2 className="w-12 h-12 text-emerald-500 animate-spin" />}
+        {error && <p className="text-red-400 text-xs font-black uppercase tracking-widest">{error}</p>}
       </div>
     );
   }
@@ -154,13 +493,19 @@ const App: React.FC = () => {
 
       <div className="w-full max-w-5xl bg-slate-900 border border-slate-800 rounded-[2rem] shadow-2xl flex flex-col relative overflow-hidden min-h-[550px] transition-all duration-300">
         <div className="flex-1 flex flex-col p-5 md:p-10">
-          {appState === AppState.SETUP && <SetupScreen onComplete={handleSetup} />}
+          {appState === AppState.SETUP && <SetupScreen onComplete={handleSetup} onRestore={handleRestoreBackup} onJoin={handleJoinSync} onCancel={vaults.length ? () => { setError(null); setAppState(AppState.LOCKED); } : undefined} error={error} onClearError={() => setError(null)} />}
           {/* Fix: Pass onClearError to LoginScreen */}
-          {appState === AppState.LOCKED && <LoginScreen onUnlock={handleUnlock} onRecover={handleRecover} error={error} onClearError={() => setError(null)} />}
+          {appState === AppState.LOCKED && <LoginScreen key={activeVaultId} vaults={vaults} activeVaultId={activeVaultId} onSelectVault={handleSelectVault} onNewVault={handleNewVault} onUnlock={handleUnlock} onRecover={handleRecover} onBiometric={handleBiometricUnlock} biometricEnrolled={biometricEnrolled} throttle={throttle} error={error} onClearError={() => setError(null)} />}
           {appState === AppState.RECOVERY_SUCCESS && <ResetPasswordScreen onComplete={handlePasswordReset} error={error} />}
           {appState === AppState.UNLOCKED && (
             <VaultScreen 
-              items={items} onAdd={handleAdd} onDelete={handleDelete} onLock={handleLock}
+              vaultName={vaults.find(v => v.id === activeVaultId)?.name ?? ''}
+              items={items} onAdd={handleAdd} onUpdate={handleUpdate} onDelete={handleDelete} onRestore={handleRestoreItem} onPurge={handlePurge} onImport={handleImport} onReceiveShared={handleReceiveShared} onLock={handleLock}
+              onToggleFavorite={handleToggleFavorite} onUse={handleUse}
+              sessionPolicy={sessionPolicy} onPolicyChange={handlePolicyChange}
+              failedAttempts={failedAttempts} onDismissFailedAttempts={() => setFailedAttempts([])}
+              notice={notice} onDismissNotice={() => setNotice(null)}
+              syncStatus={syncStatus} syncing={syncing} syncError={syncError} onSync={handleSync} onResolveConflict={handleResolveConflict} onEnableSync={handleEnableSync} onDisableSync={handleDisableSync}
               toggleVisibility={toggleVisibility}
               showPassword={showPassword} recoveryKey={recoveryKey} onCloseRecovery={() => setRecoveryKey(null)}
             />
@@ -177,60 +522,103 @@ const App: React.FC = () => {
   );
 };
 
-// Memoized individual item for maximum list performance
-const VaultItemCard = memo(({ item, isVisible, toggle, onDelete }: { 
-  item: VaultItem, 
-  isVisible: boolean, 
-  toggle: () => void, 
-  onDelete: () => void 
-}) => {
-  return (
-    <div className="bg-slate-800/20 border border-slate-800/50 p-6 rounded-3xl hover:border-emerald-500/30 group relative transition-all duration-300 transform hover:-translate-y-1">
-      <button onClick={onDelete} className="absolute top-4 right-4 p-2 text-slate-600 hover:text-red-400 bg-slate-900/50 rounded-xl border border-slate-800/50 transition-colors">
-        <Trash2 size={16} />
-      </button>
-      <div className="flex items-start gap-4 mb-6">
-        <div className="w-12 h-12 bg-slate-950 rounded-2xl flex items-center justify-center shrink-0 border border-slate-800"><Key size={24} className="text-emerald-500" /></div>
-        <div className="min-w-0 pr-8">
-          <h3 className="font-bold text-lg text-slate-100 truncate">{item.title}</h3>
-          <p className="text-xs text-slate-500 mt-0.5 truncate">{item.username || "Vault Entry"}</p>
-        </div>
-      </div>
-      <div className="bg-slate-950/80 rounded-2xl px-5 py-4 border border-slate-800/30 flex justify-between items-center group-hover:bg-slate-950 transition-colors">
-        <span className="text-base mono text-slate-300 tracking-[0.25em] font-bold truncate pr-2">
-          {isVisible ? item.password : '••••••••'}
-        </span>
-        <button onClick={toggle} className="text-slate-500 hover:text-emerald-400 p-2 bg-slate-900/50 rounded-xl transition-colors shrink-0">
-          {isVisible ? <EyeOff size={18} /> : <Eye size={18} />}
-        </button>
-      </div>
-    </div>
-  );
-});
-
-const SetupScreen: React.FC<{ onComplete: (pwd: string) => Promise<void> }> = ({ onComplete }) => {
+const SetupScreen: React.FC<{ onComplete: (name: string, pwd: string) => Promise<void>; onRestore: (name: string, backup: string, pwd: string) => Promise<void>; onJoin: (name: string, server: string, syncId: string, pwd: string) => Promise<void>; onCancel?: () => void; error: string | null; onClearError: () => void }> = ({ onComplete, onRestore, onJoin, onCancel, error, onClearError }) => {
+  const [name, setName] = useState('Personal');
   const [pwd, setPwd] = useState('');
   const [confirm, setConfirm] = useState('');
   const [loading, setLoading] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [backupFile, setBackupFile] = useState<File | null>(null);
+  const [isJoining, setIsJoining] = useState(false);
+  const [server, setServer] = useState('');
+  const [syncId, setSyncId] = useState('');
   
-  const strength = useMemo(() => {
-    if (!pwd) return 0;
-    let s = 0;
-    if (pwd.length >= 12) s += 25;
-    if (/[A-Z]/.test(pwd)) s += 25;
-    if (/[0-9]/.test(pwd)) s += 25;
-    if (/[^A-Za-z0-9]/.test(pwd)) s += 25;
-    return s;
-  }, [pwd]);
-
-  const isValid = strength >= 75 && pwd === confirm;
+  const strength = useMemo(() => pwd ? estimateStrength(pwd, [name]) : null, [pwd, name]);
+
+  const isValid = !!strength && strength.score >= MIN_MASTER_PASSWORD_SCORE && pwd === confirm && !!name.trim();
 
   const handleSubmit = async () => {
     setLoading(true);
-    await onComplete(pwd);
+    await onComplete(name, pwd);
     setLoading(false);
   };
 
+  const handleRestoreClick = async () => {
+    if (!backupFile) return;
+    setLoading(true);
+    await onRestore(name, await backupFile.text(), pwd);
+    setLoading(false);
+  };
+
+  const handleJoinClick = async () => {
+    setLoading(true);
+    await onJoin(name, server.trim(), syncId, pwd);
+    setLoading(false);
+  };
+
+  const toggleRestore = (restoring: boolean) => {
+    setIsRestoring(restoring);
+    setPwd('');
+    setConfirm('');
+    setBackupFile(null);
+    onClearError();
+  };
+
+  const toggleJoin = (joining: boolean) => {
+    setIsJoining(joining);
+    setPwd('');
+    setConfirm('');
+    onClearError();
+  };
+
+  if (isJoining) {
+    return (
+      <div className="flex flex-col gap-8 max-w-lg mx-auto w-full animate-in fade-in duration-500 py-6 text-center">
+        <div className="bg-blue-500/10 w-20 h-20 rounded-3xl flex items-center justify-center mx-auto mb-6 border border-blue-500/20"><Cloud className="w-10 h-10 text-blue-400" /></div>
+        <h2 className="text-3xl font-black text-white tracking-tight">Join Synced Vault</h2>
+        <p className="text-slate-500">Enter the sync server and sync ID shown in the settings of a device that already syncs, and the vault's master password.</p>
+        <div className="space-y-4 text-left">
+          <InputGroup label="Sync Server" val={server} set={setServer} placeholder="https://sync.example.com" />
+          <InputGroup label="Sync ID" val={syncId} set={setSyncId} placeholder="xxxxxxxx-xxxx-xxxx-xxxx-xxxxxxxxxxxx" />
+          <InputGroup label="Vault Name" val={name} set={setName} placeholder="Name on this device" />
+          <InputGroup label="Master Password" val={pwd} set={setPwd} type="password" placeholder="Password of the synced vault" />
+          {error && <p className="text-center text-red-400 text-xs font-black uppercase">{error}</p>}
+          <div className="flex gap-4">
+            <button disabled={loading} onClick={() => toggleJoin(false)} className="flex-1 py-4 text-slate-500 font-bold hover:text-slate-300 transition-colors">Cancel</button>
+            <button disabled={!server.trim() || !syncId.trim() || !pwd || !name.trim() || loading} onClick={handleJoinClick} className="flex-[2] bg-blue-600 disabled:opacity-20 text-white font-black py-4 rounded-2xl flex items-center justify-center gap-3">
+              {loading ? <Loader2 className="animate-spin w-4 h-4" /> : 'Join Vault'}
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (isRestoring) {
+    return (
+      <div className="flex flex-col gap-8 max-w-lg mx-auto w-full animate-in fade-in duration-500 py-6 text-center">
+        <div className="bg-blue-500/10 w-20 h-20 rounded-3xl flex items-center justify-center mx-auto mb-6 border border-blue-500/20"><Upload className="w-10 h-10 text-blue-400" /></div>
+        <h2 className="text-3xl font-black text-white tracking-tight">Restore Backup</h2>
+        <p className="text-slate-500">Select a vault backup file and enter the master password it was created with.</p>
+        <div className="space-y-4 text-left">
+          <label className="block w-full bg-slate-950 border-2 border-dashed border-slate-800 hover:border-blue-500/50 rounded-2xl px-5 py-6 text-center cursor-pointer transition-all">
+            <span className="text-sm font-bold text-slate-400 truncate block">{backupFile ? backupFile.name : 'Choose backup file (.json)'}</span>
+            <input type="file" accept=".json,application/json" className="hidden" onChange={(e) => { setBackupFile(e.target.files?.[0] ?? null); onClearError(); }} />
+          </label>
+          <InputGroup label="Vault Name" val={name} set={setName} placeholder="e.g. Personal" />
+          <InputGroup label="Master Password" val={pwd} set={setPwd} type="password" placeholder="Password of the backed up vault" />
+          {error && <p className="text-center text-red-400 text-xs font-black uppercase">{error}</p>}
+          <div className="flex gap-4">
+            <button disabled={loading} onClick={() => toggleRestore(false)} className="flex-1 py-4 text-slate-500 font-bold hover:text-slate-300 transition-colors">Cancel</button>
+            <button disabled={!backupFile || !pwd || !name.trim() || loading} onClick={handleRestoreClick} className="flex-[2] bg-blue-600 disabled:opacity-20 text-white font-black py-4 rounded-2xl flex items-center justify-center gap-3">
+              {loading ? <Loader2 className="animate-spin w-4 h-4" /> : 'Restore Vault'}
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="flex flex-col gap-8 max-w-2xl mx-auto w-full animate-in fade-in slide-in-from-bottom-4 duration-700">
       <div className="text-center">
@@ -242,10 +630,9 @@ const SetupScreen: React.FC<{ onComplete: (pwd: string) => Promise<void> }> = ({
       </div>
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
         <div className="space-y-4">
-          <InputGroup label="Master Password" val={pwd} set={setPwd} type="password" placeholder="Min 12 characters" />
-          <div className="h-1.5 w-full bg-slate-950 rounded-full overflow-hidden border border-slate-800">
-            <div className={`h-full transition-all duration-700 ${strength < 50 ? 'bg-red-500' : strength < 100 ? 'bg-amber-500' : 'bg-emerald-500'}`} style={{ width: `${strength}%` }} />
-          </div>
+          <InputGroup label="Vault Name" val={name} set={setName} placeholder="e.g. Personal, Work" />
+          <InputGroup label="Master Password" val={pwd} set={setPwd} type="password" placeholder="A long passphrase works best" />
+          <PasswordStrengthMeter estimate={strength} />
           <InputGroup label="Confirm Password" val={confirm} set={setConfirm} type="password" placeholder="Repeat password" />
         </div>
         <div className="bg-blue-500/5 border border-blue-500/10 p-6 rounded-3xl flex flex-col gap-3 justify-center">
@@ -265,6 +652,10 @@ const SetupScreen: React.FC<{ onComplete: (pwd: string) => Promise<void> }> = ({
       >
         {loading ? <Loader2 className="animate-spin w-5 h-5" /> : 'Create Hardware Vault'}
       </button>
+      {error && <p className="text-center text-red-400 text-xs font-black uppercase tracking-widest">{error}</p>}
+      <button onClick={() => toggleRestore(true)} className="w-full text-slate-600 hover:text-slate-400 transition-colors text-xs font-black uppercase tracking-widest">Restore From Backup File</button>
+      <button onClick={() => toggleJoin(true)} className="w-full text-slate-600 hover:text-slate-400 transition-colors text-xs font-black uppercase tracking-widest">Join A Synced Vault</button>
+      {onCancel && <button disabled={loading} onClick={onCancel} className="w-full text-slate-600 hover:text-slate-400 transition-colors text-xs font-black uppercase tracking-widest">Back To Existing Vaults</button>}
     </div>
   );
 };
@@ -273,9 +664,11 @@ const ResetPasswordScreen: React.FC<{ onComplete: (pwd: string) => Promise<void>
   const [pwd, setPwd] = useState('');
   const [confirm, setConfirm] = useState('');
   const [loading, setLoading] = useState(false);
+  const strength = useMemo(() => pwd ? estimateStrength(pwd) : null, [pwd]);
+  const isValid = !!strength && strength.score >= MIN_MASTER_PASSWORD_SCORE && pwd === confirm;
 
   const handleSubmit = async () => {
-    if (pwd !== confirm) return;
+    if (!isValid) return;
     setLoading(true);
     try { await onComplete(pwd); } finally { setLoading(false); }
   };
@@ -289,10 +682,11 @@ const ResetPasswordScreen: React.FC<{ onComplete: (pwd: string) => Promise<void>
       <p className="text-slate-500">Recovery key accepted. Secure your vault with a new master key.</p>
       <div className="space-y-4 text-left">
         <InputGroup label="New Master Password" val={pwd} set={setPwd} type="password" placeholder="New master key" />
+        <PasswordStrengthMeter estimate={strength} />
         <InputGroup label="Confirm Password" val={confirm} set={setConfirm} type="password" placeholder="Repeat key" />
         {error && <p className="text-center text-red-400 text-xs font-black uppercase tracking-widest pt-2 animate-pulse">{error}</p>}
         <button 
-          disabled={!pwd || pwd !== confirm || loading} 
+          disabled={!isValid || loading} 
           onClick={handleSubmit} 
           className="w-full bg-emerald-600 disabled:opacity-20 text-white font-black py-5 rounded-3xl mt-4 flex items-center justify-center gap-3 transition-all"
         >
@@ -304,12 +698,32 @@ const ResetPasswordScreen: React.FC<{ onComplete: (pwd: string) => Promise<void>
 };
 
 // Fix: Added onClearError to LoginScreen props to fix setError reference error
-const LoginScreen: React.FC<{ onUnlock: (pwd: string) => void; onRecover: (key: string) => void; error: string | null; onClearError: () => void }> = ({ onUnlock, onRecover, error, onClearError }) => {
+const LoginScreen: React.FC<{ vaults: VaultInfo[]; activeVaultId: string | null; onSelectVault: (id: string) => Promise<void>; onNewVault: () => void; onUnlock: (pwd: string) => void; onRecover: (key: string) => void; onBiometric: () => Promise<void>; biometricEnrolled: boolean; throttle: ThrottleStatus; error: string | null; onClearError: () => void }> = ({ vaults, activeVaultId, onSelectVault, onNewVault, onUnlock, onRecover, onBiometric, biometricEnrolled, throttle, error, onClearError }) => {
   const [pwd, setPwd] = useState('');
   const [isRecovering, setIsRecovering] = useState(false);
+  const [withShares, setWithShares] = useState(false);
   const [loading, setLoading] = useState(false);
+  const [biometricLoading, setBiometricLoading] = useState(false);
+  const [now, setNow] = useState(Date.now());
+
+  const waitSeconds = Math.max(0, Math.ceil((throttle.lockedUntil - now) / 1000));
+  useEffect(() => {
+    setNow(Date.now());
+    if (throttle.lockedUntil <= Date.now()) return;
+    const timer = setInterval(() => {
+      setNow(Date.now());
+      if (Date.now() >= throttle.lockedUntil) clearInterval(timer);
+    }, 250);
+    return () => clearInterval(timer);
+  }, [throttle.lockedUntil]);
+
+  // A failed attempt keeps this screen mounted, so release the buttons again
+  useEffect(() => {
+    if (error) setLoading(false);
+  }, [error]);
 
   const handleUnlockClick = async () => {
+    if (waitSeconds > 0) return;
     setLoading(true);
     onUnlock(pwd);
   };
@@ -319,19 +733,32 @@ const LoginScreen: React.FC<{ onUnlock: (pwd: string) => void; onRecover: (key:
     onRecover(pwd);
   };
 
+  const handleBiometricClick = async () => {
+    setBiometricLoading(true);
+    try { await onBiometric(); } finally { setBiometricLoading(false); }
+  };
+
   if (isRecovering) {
     return (
       <div className="flex flex-col gap-8 max-w-lg mx-auto w-full animate-in fade-in duration-500 h-full justify-center py-6 text-center">
         <div className="bg-blue-500/10 w-20 h-20 rounded-3xl flex items-center justify-center mx-auto mb-6 border border-blue-500/20"><LifeBuoy className="w-10 h-10 text-blue-400" /></div>
         <h2 className="text-3xl font-black text-white tracking-tight">Recovery</h2>
-        <p className="text-slate-500">Enter your 48-character emergency key.</p>
+        <p className="text-slate-500">{withShares ? 'Combine the shares held by your trustees.' : 'Enter your recovery phrase or 48-character emergency key.'}</p>
         <div className="space-y-4 text-left">
-          <InputGroup label="Recovery Key" val={pwd} set={setPwd} placeholder="HEX KEY" />
+          <div className="grid grid-cols-2 gap-2">
+            {[false, true].map(shares => (
+              <button key={String(shares)} disabled={loading} onClick={() => { setWithShares(shares); setPwd(''); onClearError(); }} className={`py-2 rounded-xl border text-xs font-black uppercase tracking-widest transition-colors ${withShares === shares ? 'border-blue-500/50 bg-blue-500/5 text-blue-300' : 'border-slate-800 text-slate-500 hover:border-slate-700'}`}>
+                {shares ? 'Trustee shares' : 'Recovery phrase'}
+              </button>
+            ))}
+          </div>
+          {withShares ? <TrusteeSharesInput onChange={setPwd} /> : <RecoveryKeyInput value={pwd} onChange={setPwd} />}
           {error && <p className="text-center text-red-400 text-xs font-black uppercase">{error}</p>}
+          <ThrottleNotice throttle={throttle} waitSeconds={waitSeconds} />
           <div className="flex gap-4">
             {/* Fix: Call onClearError when canceling recovery */}
-            <button disabled={loading} onClick={() => { setIsRecovering(false); setPwd(''); onClearError(); }} className="flex-1 py-4 text-slate-500 font-bold hover:text-slate-300 transition-colors">Cancel</button>
-            <button disabled={!pwd || loading} onClick={handleRecoverClick} className="flex-[2] bg-blue-600 text-white font-black py-4 rounded-2xl flex items-center justify-center gap-3">
+            <button disabled={loading} onClick={() => { setIsRecovering(false); setWithShares(false); setPwd(''); onClearError(); }} className="flex-1 py-4 text-slate-500 font-bold hover:text-slate-300 transition-colors">Cancel</button>
+            <button disabled={!pwd || loading || waitSeconds > 0} onClick={handleRecoverClick} className="flex-[2] bg-blue-600 text-white font-black py-4 rounded-2xl flex items-center justify-center gap-3">
               {loading ? <Loader2 className="animate-spin w-4 h-4" /> : 'Restore Access'}
             </button>
           </div>
@@ -345,16 +772,18 @@ const LoginScreen: React.FC<{ onUnlock: (pwd: string) => void; onRecover: (key:
       <h2 className="text-4xl font-black text-white tracking-tight text-emerald-500 leading-tight">CYBER DT VAULT</h2>
       <p className="text-slate-500">Encrypted with hardware-backed master key.</p>
       <div className="space-y-6 text-left">
+        <VaultPicker vaults={vaults} activeVaultId={activeVaultId} disabled={loading || biometricLoading} onSelect={onSelectVault} onNew={onNewVault} />
         <div className="relative group">
           <input type="password" autoFocus className={`w-full bg-slate-950 border-2 ${error ? 'border-red-500/50' : 'border-slate-800'} rounded-3xl px-8 py-6 text-center text-3xl tracking-[0.3em] outline-none focus:border-emerald-500/50 transition-all font-bold placeholder:tracking-normal placeholder:text-slate-800 shadow-inner`} placeholder="MASTER KEY" value={pwd} onChange={(e) => setPwd(e.target.value)} onKeyDown={(e) => e.key === 'Enter' && handleUnlockClick()} />
           {error && <p className="text-center text-red-400 text-xs mt-4 font-black uppercase animate-pulse">{error}</p>}
+          <ThrottleNotice throttle={throttle} waitSeconds={waitSeconds} />
         </div>
         <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-          <button disabled={loading} onClick={handleUnlockClick} className="bg-white hover:bg-slate-200 text-slate-950 font-black text-lg py-5 rounded-3xl transition-all flex items-center justify-center gap-3 active:scale-[0.98] shadow-lg">
+          <button disabled={loading || waitSeconds > 0} onClick={handleUnlockClick} className="bg-white disabled:opacity-40 hover:bg-slate-200 text-slate-950 font-black text-lg py-5 rounded-3xl transition-all flex items-center justify-center gap-3 active:scale-[0.98] shadow-lg">
             {loading ? <Loader2 className="animate-spin text-emerald-600" /> : 'Unlock Vault'} 
           </button>
-          <button className="bg-slate-800 hover:bg-slate-700 text-slate-300 font-black text-lg py-5 rounded-3xl transition-all flex items-center justify-center gap-3 border border-slate-700">
-            <Fingerprint className="w-6 h-6 text-emerald-500" /> Biometric
+          <button disabled={loading || biometricLoading || !biometricEnrolled} onClick={handleBiometricClick} title={biometricEnrolled ? 'Unlock with passkey' : 'Enable biometric unlock in vault settings'} className="bg-slate-800 hover:bg-slate-700 disabled:opacity-40 text-slate-300 font-black text-lg py-5 rounded-3xl transition-all flex items-center justify-center gap-3 border border-slate-700">
+            {biometricLoading ? <Loader2 className="animate-spin text-emerald-500" /> : <><Fingerprint className="w-6 h-6 text-emerald-500" /> Biometric</>}
           </button>
         </div>
         {/* Fix: Replaced setError(null) with onClearError() call */}
@@ -364,79 +793,166 @@ const LoginScreen: React.FC<{ onUnlock: (pwd: string) => void; onRecover: (key:
   );
 };
 
-const VaultScreen: React.FC<{ items: VaultItem[]; onAdd: (t: string, u: string, p: string) => void; onDelete: (id: string) => void; onLock: () => void; toggleVisibility: (id: string) => void; showPassword: Record<string, boolean>; recoveryKey: string | null; onCloseRecovery: () => void; }> = ({ items, onAdd, onDelete, onLock, toggleVisibility, showPassword, recoveryKey, onCloseRecovery }) => {
+const VaultPicker: React.FC<{ vaults: VaultInfo[]; activeVaultId: string | null; disabled: boolean; onSelect: (id: string) => Promise<void>; onNew: () => void }> = ({ vaults, activeVaultId, disabled, onSelect, onNew }) => (
+  <div className="flex gap-3">
+    <div className="relative flex-1">
+      <Database size={16} className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-600 pointer-events-none" />
+      <select disabled={disabled} value={activeVaultId ?? ''} onChange={e => onSelect(e.target.value)} className="w-full bg-slate-950 border-2 border-slate-800 rounded-2xl pl-11 pr-4 py-3 text-sm font-bold text-slate-300 outline-none focus:border-emerald-500/50 disabled:opacity-40">
+        {vaults.map(v => <option key={v.id} value={v.id}>{v.name}</option>)}
+      </select>
+    </div>
+    <button disabled={disabled} onClick={onNew} title="Create or restore another vault" className="w-12 bg-slate-800 rounded-2xl flex items-center justify-center text-slate-400 hover:text-emerald-400 border border-slate-700 transition-colors disabled:opacity-40"><Plus size={18} /></button>
+  </div>
+);
+
+const ThrottleNotice: React.FC<{ throttle: ThrottleStatus; waitSeconds: number }> = ({ throttle, waitSeconds }) => {
+  if (!throttle.failures) return null;
+  const remaining = throttle.wipeAfter !== null ? throttle.wipeAfter - throttle.failures : null;
+  return (
+    <div className="text-center space-y-1 mt-3">
+      {waitSeconds > 0 && <p className="text-amber-400 text-xs font-black uppercase tracking-widest">Try again in {waitSeconds}s</p>}
+      {remaining !== null && (
+        <p className="text-red-400/80 text-[10px] font-black uppercase tracking-widest">
+          {remaining === 1 ? 'Next failure erases this vault' : `${remaining} attempts left before this vault is erased`}
+        </p>
+      )}
+    </div>
+  );
+};
+
+const FailedAttemptsBanner: React.FC<{ attempts: FailedAttempt[]; onDismiss: () => void }> = ({ attempts, onDismiss }) => (
+  <div className="bg-red-500/5 border border-red-500/20 rounded-[2rem] px-6 py-4 flex items-start gap-4">
+    <ShieldAlert className="w-5 h-5 text-red-400 shrink-0 mt-0.5" />
+    <div className="flex-1 min-w-0">
+      <p className="text-sm font-black text-red-300">{attempts.length} failed unlock attempt{attempts.length === 1 ? '' : 's'} since your last visit</p>
+      <p className="text-xs text-slate-500 mt-1 truncate">
+        Most recent: {new Date(attempts[0].at).toLocaleString()} ({attempts[0].method === 'recovery' ? 'recovery key' : 'master password'})
+      </p>
+    </div>
+    <button onClick={onDismiss} className="p-1 text-slate-500 hover:text-white transition-colors"><X size={16} /></button>
+  </div>
+);
+
+const NoticeBanner: React.FC<{ message: string; onDismiss: () => void }> = ({ message, onDismiss }) => (
+  <div className="bg-amber-500/5 border border-amber-500/20 rounded-[2rem] px-6 py-4 flex items-start gap-4">
+    <AlertCircle className="w-5 h-5 text-amber-400 shrink-0 mt-0.5" />
+    <p className="flex-1 min-w-0 text-sm font-bold text-amber-300">{message}</p>
+    <button onClick={onDismiss} className="p-1 text-slate-500 hover:text-white transition-colors"><X size={16} /></button>
+  </div>
+);
+
+const SyncConflictsBanner: React.FC<{ count: number; onOpen: () => void }> = ({ count, onOpen }) => (
+  <button onClick={onOpen} className="bg-amber-500/5 border border-amber-500/20 rounded-[2rem] px-6 py-4 flex items-center gap-4 text-left hover:border-amber-500/40 transition-colors">
+    <GitMerge className="w-5 h-5 text-amber-400 shrink-0" />
+    <div className="flex-1 min-w-0">
+      <p className="text-sm font-black text-amber-300">{count} item{count === 1 ? '' : 's'} changed on this and another device</p>
+      <p className="text-xs text-slate-500 mt-1">They stay as they are here and are not synced until you choose which version to keep.</p>
+    </div>
+  </button>
+);
+
+const VaultScreen: React.FC<{ vaultName: string; items: VaultItem[]; onAdd: (draft: ItemDraft) => Promise<void>; onUpdate: (id: string, draft: ItemDraft, editedSince: number) => Promise<void>; onDelete: (id: string) => void; onRestore: (id: string) => void; onPurge: (ids: string[]) => void; onImport: (rows: ImportPreviewRow[], strategy: DuplicateStrategy) => Promise<void>; onReceiveShared: (items: VaultItem[]) => Promise<void>; onLock: () => void; onToggleFavorite: (id: string) => void; onUse: (id: string) => void; sessionPolicy: SessionPolicy | null; onPolicyChange: (policy: SessionPolicy) => Promise<void>; failedAttempts: FailedAttempt[]; onDismissFailedAttempts: () => void; notice: string | null; onDismissNotice: () => void; syncStatus: SyncStatus | null; syncing: boolean; syncError: string | null; onSync: () => void; onResolveConflict: (id: string, choice: ConflictChoice) => Promise<void>; onEnableSync: (server: string) => Promise<void>; onDisableSync: () => Promise<void>; toggleVisibility: (id: string) => void; showPassword: Record<string, boolean>; recoveryKey: string | null; onCloseRecovery: () => void; }> = ({ vaultName, items, onAdd, onUpdate, onDelete, onRestore, onPurge, onImport, onReceiveShared, onLock, onToggleFavorite, onUse, sessionPolicy, onPolicyChange, failedAttempts, onDismissFailedAttempts, notice, onDismissNotice, syncStatus, syncing, syncError, onSync, onResolveConflict, onEnableSync, onDisableSync, toggleVisibility, showPassword, recoveryKey, onCloseRecovery }) => {
   const [isAdding, setIsAdding] = useState(false);
-  const [newTitle, setNewTitle] = useState('');
-  const [newUser, setNewUser] = useState('');
-  const [newPass, setNewPass] = useState('');
-  const [copiedRecovery, setCopiedRecovery] = useState(false);
-
-  // Smooth item list rendering
-  const renderedItems = useMemo(() => items.map(item => (
-    <VaultItemCard 
-      key={item.id} 
-      item={item} 
-      isVisible={!!showPassword[item.id]} 
-      toggle={() => toggleVisibility(item.id)} 
-      onDelete={() => onDelete(item.id)}
-    />
-  )), [items, showPassword, toggleVisibility, onDelete]);
+  const [isSettings, setIsSettings] = useState(false);
+  const [isTransfer, setIsTransfer] = useState(false);
+  const [isRecycleBin, setIsRecycleBin] = useState(false);
+  const [isHealth, setIsHealth] = useState(false);
+  const [isConflicts, setIsConflicts] = useState(false);
+  const [isShare, setIsShare] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editedSince, setEditedSince] = useState(0);
+  const [focusId, setFocusId] = useState<string | null>(null);
+
+  // The highlight only needs to catch the eye after navigating from the health report
+  useEffect(() => {
+    if (!focusId) return;
+    const timer = setTimeout(() => setFocusId(null), 4000);
+    return () => clearTimeout(timer);
+  }, [focusId]);
+
+  const activeItems = useMemo(() => items.filter(isActive), [items]);
+  const deletedItems = useMemo(() => items.filter(i => !isActive(i)), [items]);
+  const editingItem = editingId ? activeItems.find(i => i.id === editingId) : undefined;
+  const folders = useMemo(() => collectFolders(activeItems), [activeItems]);
+  const knownTags = useMemo(() => collectTags(activeItems).map(t => t.tag), [activeItems]);
+
+  const handleExportBackup = async () => {
+    const backup = await VaultService.exportBackup();
+    const url = URL.createObjectURL(new Blob([backup], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `cyber-dt-vault-backup-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleToggleVisibility = (id: string) => {
+    if (!showPassword[id]) onUse(id);
+    toggleVisibility(id);
+  };
 
   if (recoveryKey) {
     return (
       <div className="flex flex-col gap-8 max-w-2xl mx-auto w-full animate-in slide-in-from-bottom-8 duration-700 text-center">
         <div className="bg-amber-500/10 w-20 h-20 rounded-3xl flex items-center justify-center mx-auto border border-amber-500/20"><LifeBuoy className="w-10 h-10 text-amber-400" /></div>
         <h2 className="text-2xl font-black text-white uppercase">Emergency Key Created</h2>
-        <p className="text-slate-400 text-sm">Save this key <span className="text-amber-400 font-bold">OFFLINE</span>. Without it, your data cannot be recovered if you forget your password.</p>
-        <div className="bg-slate-950 border-2 border-slate-800 p-6 rounded-3xl relative break-all mono text-emerald-400 font-bold text-sm tracking-widest transition-all">
-          {recoveryKey}
-          <button onClick={() => { navigator.clipboard.writeText(recoveryKey); setCopiedRecovery(true); setTimeout(() => setCopiedRecovery(false), 2000); }} className="absolute top-2 right-2 p-2 text-slate-600 hover:text-white transition-colors">
-            {copiedRecovery ? <Check size={14} className="text-emerald-500" /> : <Copy size={14} />}
-          </button>
-        </div>
+        <p className="text-slate-400 text-sm">Write these words down and keep them <span className="text-amber-400 font-bold">OFFLINE</span>. Without them, your data cannot be recovered if you forget your password.</p>
+        <RecoveryKeyDisplay recoveryKey={recoveryKey} label="Recovery phrase" />
         <button onClick={onCloseRecovery} className="bg-emerald-600 text-white font-black py-4 rounded-3xl hover:bg-emerald-500 shadow-xl shadow-emerald-600/20 transition-all">I HAVE SECURED THIS KEY</button>
       </div>
     );
   }
 
+  if (isSettings) {
+    return <SettingsScreen policy={sessionPolicy} onPolicyChange={onPolicyChange} sync={{ status: syncStatus, syncing, error: syncError, onSync, onEnable: onEnableSync, onDisable: onDisableSync }} onClose={() => setIsSettings(false)} />;
+  }
+
+  if (isConflicts) {
+    return <SyncConflicts conflicts={syncStatus?.conflicts ?? []} onResolve={onResolveConflict} onClose={() => setIsConflicts(false)} />;
+  }
+
+  if (isTransfer) {
+    return <TransferScreen items={items} onImport={onImport} onClose={() => setIsTransfer(false)} />;
+  }
+
+  if (isShare) {
+    return <ShareScreen items={activeItems} onReceive={onReceiveShared} onClose={() => setIsShare(false)} />;
+  }
+
+  if (isHealth) {
+    return <HealthDashboard items={activeItems} onOpenItem={id => { setIsHealth(false); setFocusId(id); }} onClose={() => setIsHealth(false)} />;
+  }
+
+  if (isRecycleBin) {
+    return <RecycleBin items={deletedItems} onRestore={onRestore} onPurge={onPurge} onClose={() => setIsRecycleBin(false)} />;
+  }
+
+  if (editingItem) {
+    return (
+      <ItemForm
+        key={editingItem.id}
+        heading="Edit Vault Entry"
+        submitLabel="Save Changes"
+        initial={toDraft(editingItem)}
+        passwordHistory={editingItem.kind === 'login' ? editingItem.passwordHistory : undefined}
+        folders={folders}
+        knownTags={knownTags}
+        onSubmit={async (draft) => { await onUpdate(editingItem.id, draft, editedSince); setEditingId(null); }}
+        onCancel={() => setEditingId(null)}
+      />
+    );
+  }
+
   if (isAdding) {
     return (
-      <div className="flex flex-col gap-8 max-w-3xl mx-auto w-full animate-in slide-in-from-right-8 duration-400">
-        <div className="flex items-center justify-between border-b border-slate-800 pb-6">
-          <h2 className="text-2xl font-black text-white">New Vault Entry</h2>
-          <button onClick={() => setIsAdding(false)} className="w-10 h-10 bg-slate-800 rounded-xl flex items-center justify-center text-slate-400 hover:text-white transition-colors"><X size={20}/></button>
-        </div>
-        <div className="space-y-6">
-          <div className="space-y-3 relative">
-            <label className="text-[10px] font-black text-slate-500 uppercase tracking-[0.3em] px-2">Provider</label>
-            <div className="relative group">
-              <input 
-                type="text" 
-                list="social-media-list"
-                className="w-full bg-slate-950 border-2 border-slate-800 rounded-2xl px-6 py-4 outline-none focus:border-emerald-500/50 transition-all text-slate-100 placeholder:text-slate-800 text-lg font-bold shadow-inner" 
-                placeholder="Select service..." 
-                value={newTitle} 
-                onChange={(e) => setNewTitle(e.target.value)} 
-              />
-              <datalist id="social-media-list">
-                {SOCIAL_MEDIA_OPTIONS.map(opt => <option key={opt} value={opt} />)}
-              </datalist>
-              <div className="absolute right-6 top-1/2 -translate-y-1/2 pointer-events-none text-slate-600">
-                <ChevronDown size={18} />
-              </div>
-            </div>
-          </div>
-          
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-            <InputGroup label="Username" val={newUser} set={setNewUser} placeholder="your@email.com" />
-            <div className="relative">
-              <InputGroup label="Secure Password" val={newPass} set={setNewPass} type="password" placeholder="••••••••" />
-              <button onClick={() => setNewPass(VaultService.generateSecurePassword())} className="absolute right-2 bottom-2 p-3 bg-slate-800 hover:bg-slate-700 rounded-xl text-emerald-500 border border-slate-700 transition-all active:scale-95" title="Generate Secure"><RefreshCw size={16} /></button>
-            </div>
-          </div>
-        </div>
-        <button disabled={!newTitle || !newPass} onClick={() => { onAdd(newTitle, newUser, newPass); setIsAdding(false); setNewTitle(''); setNewUser(''); setNewPass(''); }} className="bg-emerald-600 py-5 rounded-3xl font-black text-lg text-white shadow-xl shadow-emerald-500/20 mt-4 transition-all hover:bg-emerald-500 active:scale-[0.99]">Save to Hardware Vault</button>
-      </div>
+      <ItemForm
+        heading="New Vault Entry"
+        submitLabel="Save to Hardware Vault"
+        folders={folders}
+        knownTags={knownTags}
+        onSubmit={async (draft) => { await onAdd(draft); setIsAdding(false); }}
+        onCancel={() => setIsAdding(false)}
+      />
     );
   }
 
@@ -448,36 +964,43 @@ const VaultScreen: React.FC<{ items: VaultItem[]; onAdd: (t: string, u: string,
           <div className="flex items-center gap-2 mt-1">
             <div className="w-1.5 h-1.5 rounded-full bg-emerald-500 animate-pulse" />
             <p className="text-[9px] text-emerald-500 font-black uppercase tracking-[0.2em]">Hardware Root-of-Trust Active</p>
+            {vaultName && <p className="text-[9px] text-slate-500 font-black uppercase tracking-[0.2em] truncate">· {vaultName}</p>}
           </div>
         </div>
         <div className="flex gap-3 w-full sm:w-auto">
           <button onClick={() => setIsAdding(true)} className="flex-1 bg-emerald-600 text-white px-6 py-3 rounded-2xl font-black flex items-center justify-center gap-2 active:scale-[0.98] shadow-lg shadow-emerald-600/10 transition-all hover:bg-emerald-500"><Plus size={18} /> New</button>
+          {syncStatus && (
+            <button disabled={syncing} onClick={onSync} title={syncError ?? (syncStatus.lastSyncAt ? `Last synced ${new Date(syncStatus.lastSyncAt).toLocaleString()}` : 'Sync now')} className={`w-12 h-12 bg-slate-800 rounded-2xl flex items-center justify-center border border-slate-700 transition-colors hover:text-emerald-400 ${syncError ? 'text-amber-400' : 'text-slate-400'}`}>
+              <RefreshCw size={20} className={syncing ? 'animate-spin' : ''} />
+            </button>
+          )}
+          <button onClick={() => setIsHealth(true)} title="Password health" className="w-12 h-12 bg-slate-800 rounded-2xl flex items-center justify-center text-slate-400 hover:text-emerald-400 border border-slate-700 transition-colors"><Activity size={20} /></button>
+          <button onClick={() => setIsRecycleBin(true)} title="Recycle bin" className="relative w-12 h-12 bg-slate-800 rounded-2xl flex items-center justify-center text-slate-400 hover:text-emerald-400 border border-slate-700 transition-colors">
+            <Trash2 size={20} />
+            {deletedItems.length > 0 && <span className="absolute -top-1 -right-1 min-w-[18px] h-[18px] px-1 bg-red-500 rounded-full text-[10px] font-black text-white flex items-center justify-center">{deletedItems.length}</span>}
+          </button>
+          <button onClick={() => setIsShare(true)} title="Share items" className="w-12 h-12 bg-slate-800 rounded-2xl flex items-center justify-center text-slate-400 hover:text-emerald-400 border border-slate-700 transition-colors"><Share2 size={20} /></button>
+          <button onClick={() => setIsTransfer(true)} title="Import / export" className="w-12 h-12 bg-slate-800 rounded-2xl flex items-center justify-center text-slate-400 hover:text-emerald-400 border border-slate-700 transition-colors"><ArrowLeftRight size={20} /></button>
+          <button onClick={handleExportBackup} title="Download encrypted backup" className="w-12 h-12 bg-slate-800 rounded-2xl flex items-center justify-center text-slate-400 hover:text-emerald-400 border border-slate-700 transition-colors"><Download size={20} /></button>
+          <button onClick={() => setIsSettings(true)} title="Settings" className="w-12 h-12 bg-slate-800 rounded-2xl flex items-center justify-center text-slate-400 hover:text-emerald-400 border border-slate-700 transition-colors"><Settings size={20} /></button>
           <button onClick={onLock} className="w-12 h-12 bg-slate-800 rounded-2xl flex items-center justify-center text-slate-400 hover:text-red-400 border border-slate-700 transition-colors"><LogOut size={20} /></button>
         </div>
       </div>
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 pb-6 overflow-y-auto max-h-[calc(100vh-400px)] custom-scrollbar">
-        {items.length === 0 ? (
-          <div className="col-span-full h-72 border-2 border-dashed border-slate-800 rounded-[2rem] flex flex-col items-center justify-center opacity-40">
-            <Shield size={40} className="text-slate-600 mb-4" />
-            <p className="text-slate-400 font-black uppercase tracking-widest text-[10px]">No records found</p>
-          </div>
-        ) : renderedItems}
-      </div>
+      {notice && <NoticeBanner message={notice} onDismiss={onDismissNotice} />}
+      {failedAttempts.length > 0 && <FailedAttemptsBanner attempts={failedAttempts} onDismiss={onDismissFailedAttempts} />}
+      {!!syncStatus?.conflicts.length && <SyncConflictsBanner count={syncStatus.conflicts.length} onOpen={() => setIsConflicts(true)} />}
+      <VaultBrowser
+        items={activeItems}
+        showPassword={showPassword}
+        onToggleVisibility={handleToggleVisibility}
+        onCopy={onUse}
+        onEdit={id => { setEditingId(id); setEditedSince(activeItems.find(i => i.id === id)?.updatedAt ?? 0); }}
+        onToggleFavorite={onToggleFavorite}
+        onDelete={onDelete}
+        focusId={focusId}
+      />
     </div>
   );
 };
 
-const InputGroup: React.FC<{ label: string; val: string; set: (v: string) => void; placeholder: string; type?: string }> = ({ label, val, set, placeholder, type = 'text' }) => (
-  <div className="space-y-2">
-    <label className="text-[10px] font-black text-slate-500 uppercase tracking-[0.25em] px-2">{label}</label>
-    <input 
-      type={type} 
-      className="w-full bg-slate-950 border-2 border-slate-800 rounded-2xl px-5 py-3.5 outline-none focus:border-emerald-500/50 transition-all text-slate-100 placeholder:text-slate-800 text-base font-bold shadow-inner" 
-      placeholder={placeholder} 
-      value={val} 
-      onChange={(e) => set(e.target.value)} 
-    />
-  </div>
-);
-
 export default App;
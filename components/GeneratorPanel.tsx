@@ -0,0 +1,102 @@
+import React from 'react';
+import { RefreshCw } from 'lucide-react';
+import {
+  GeneratorSettings, GeneratorMode, PasswordOptions, PassphraseOptions, Separator, Capitalization,
+  CHAR_CLASSES, CHAR_CLASS_LABELS, SEPARATOR_LABELS, CAPITALIZATION_LABELS, SITE_PRESETS, MIN_PER_CLASS_OPTIONS,
+  PASSWORD_LENGTH_RANGE, PASSPHRASE_WORDS_RANGE, entropyBits, validatePasswordOptions
+} from '../services/PasswordGenerator';
+
+const MODE_LABELS: Record<GeneratorMode, string> = { password: 'Password', passphrase: 'Passphrase' };
+
+export const GeneratorPanel: React.FC<{ settings: GeneratorSettings; onChange: (settings: GeneratorSettings) => void; onGenerate: () => void }> = ({ settings, onChange, onGenerate }) => {
+  const setPassword = (patch: Partial<PasswordOptions>) => onChange({ ...settings, password: { ...settings.password, ...patch } });
+  const setPassphrase = (patch: Partial<PassphraseOptions>) => onChange({ ...settings, passphrase: { ...settings.passphrase, ...patch } });
+
+  const invalid = settings.mode === 'password' ? validatePasswordOptions(settings.password) : null;
+  const bits = Math.floor(entropyBits(settings));
+  const preset = SITE_PRESETS.find(p => JSON.stringify(p.options) === JSON.stringify(settings.password));
+
+  return (
+    <div className="bg-slate-950/60 border border-slate-800 rounded-3xl p-5 space-y-5">
+      <div className="flex flex-wrap items-center gap-2">
+        {(Object.keys(MODE_LABELS) as GeneratorMode[]).map(mode => (
+          <button key={mode} onClick={() => onChange({ ...settings, mode })} className={`px-4 py-2 rounded-xl border text-xs font-black uppercase tracking-widest transition-colors ${settings.mode === mode ? 'border-emerald-500/50 bg-emerald-500/5 text-emerald-400' : 'border-slate-800 text-slate-500 hover:border-slate-700'}`}>
+            {MODE_LABELS[mode]}
+          </button>
+        ))}
+        <span className={`ml-auto text-[10px] font-black uppercase tracking-widest ${invalid ? 'text-red-400' : bits >= 80 ? 'text-emerald-500' : bits >= 60 ? 'text-amber-500' : 'text-red-400'}`}>
+          {invalid ?? `≈ ${bits} bits of entropy`}
+        </span>
+        <button disabled={!!invalid} onClick={onGenerate} title="Generate again" className="p-2.5 bg-slate-800 hover:bg-slate-700 disabled:opacity-30 rounded-xl text-emerald-500 border border-slate-700 transition-all active:scale-95"><RefreshCw size={14} /></button>
+      </div>
+
+      {settings.mode === 'password' ? (
+        <>
+          <GeneratorRow label="Site rules">
+            <select value={preset?.id ?? ''} onChange={e => { const p = SITE_PRESETS.find(p => p.id === e.target.value); if (p) onChange({ ...settings, password: p.options }); }} className={SELECT_CLASS}>
+              {!preset && <option value="">Custom</option>}
+              {SITE_PRESETS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+            </select>
+          </GeneratorRow>
+          <RangeRow label="Length" value={settings.password.length} range={PASSWORD_LENGTH_RANGE} onChange={length => setPassword({ length })} />
+          <GeneratorRow label="Characters">
+            <div className="flex flex-wrap gap-2">
+              {CHAR_CLASSES.map(c => (
+                <button key={c} onClick={() => setPassword({ classes: { ...settings.password.classes, [c]: !settings.password.classes[c] } })} className={`px-3 py-1.5 rounded-lg border text-xs font-black mono transition-colors ${settings.password.classes[c] ? 'border-emerald-500/50 bg-emerald-500/5 text-emerald-400' : 'border-slate-800 text-slate-600 hover:border-slate-700'}`}>
+                  {CHAR_CLASS_LABELS[c]}
+                </button>
+              ))}
+            </div>
+          </GeneratorRow>
+          {settings.password.classes.symbols && (
+            <GeneratorRow label="Allowed symbols">
+              <input value={settings.password.symbols} onChange={e => setPassword({ symbols: e.target.value })} className={`${SELECT_CLASS} mono w-full`} />
+            </GeneratorRow>
+          )}
+          <GeneratorRow label="At least per class">
+            <select value={settings.password.minPerClass} onChange={e => setPassword({ minPerClass: Number(e.target.value) })} className={SELECT_CLASS}>
+              {MIN_PER_CLASS_OPTIONS.map(n => <option key={n} value={n}>{n === 0 ? 'No minimum' : n}</option>)}
+            </select>
+          </GeneratorRow>
+          <label className="flex items-center gap-3 text-xs font-bold text-slate-400 cursor-pointer">
+            <input type="checkbox" checked={settings.password.excludeAmbiguous} onChange={e => setPassword({ excludeAmbiguous: e.target.checked })} className="accent-emerald-500" />
+            Exclude look-alike characters (I, l, 1, O, 0 ...)
+          </label>
+        </>
+      ) : (
+        <>
+          <RangeRow label="Words" value={settings.passphrase.words} range={PASSPHRASE_WORDS_RANGE} onChange={words => setPassphrase({ words })} />
+          <GeneratorRow label="Separator">
+            <select value={settings.passphrase.separator} onChange={e => setPassphrase({ separator: e.target.value as Separator })} className={SELECT_CLASS}>
+              {(Object.keys(SEPARATOR_LABELS) as Separator[]).map(s => <option key={s} value={s}>{SEPARATOR_LABELS[s]}</option>)}
+            </select>
+          </GeneratorRow>
+          <GeneratorRow label="Capitalization">
+            <select value={settings.passphrase.capitalization} onChange={e => setPassphrase({ capitalization: e.target.value as Capitalization })} className={SELECT_CLASS}>
+              {(Object.keys(CAPITALIZATION_LABELS) as Capitalization[]).map(c => <option key={c} value={c}>{CAPITALIZATION_LABELS[c]}</option>)}
+            </select>
+          </GeneratorRow>
+          <p className="text-[10px] text-slate-600 font-bold">Words are drawn from the EFF diceware list of 7776 words.</p>
+        </>
+      )}
+    </div>
+  );
+};
+
+const SELECT_CLASS = 'bg-slate-950 border-2 border-slate-800 rounded-xl px-3 py-2 text-xs font-bold text-slate-300 outline-none focus:border-emerald-500/50';
+
+const GeneratorRow: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <div className="flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-4">
+    <span className="sm:w-36 shrink-0 text-[10px] font-black text-slate-500 uppercase tracking-[0.25em]">{label}</span>
+    <div className="flex-1 min-w-0">{children}</div>
+  </div>
+);
+
+const RangeRow: React.FC<{ label: string; value: number; range: { min: number; max: number }; onChange: (value: number) => void }> = ({ label, value, range, onChange }) => (
+  <GeneratorRow label={label}>
+    <div className="flex items-center gap-4">
+      <input type="range" min={range.min} max={range.max} value={value} onChange={e => onChange(Number(e.target.value))} className="flex-1 accent-emerald-500" />
+      <span className="w-10 text-right text-sm font-black text-slate-200 mono">{value}</span>
+    </div>
+  </GeneratorRow>
+);
@@ -0,0 +1,147 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { X, Activity, ShieldCheck, ShieldAlert, Loader2, Upload, Trash2, ChevronRight, AlertCircle } from 'lucide-react';
+import { VaultItem, itemSubtitle } from '../services/VaultItems';
+import { VaultService } from '../services/VaultService';
+import { HealthReport, HealthIssue, HEALTH_ISSUE_LABELS, OLD_PASSWORD_DAYS, buildHealthReport } from '../services/PasswordHealth';
+import { BreachRanges, BreachListFormatError, parseBreachRanges, mergeBreachRanges, countBreachHashes } from '../services/BreachList';
+
+const ISSUE_STYLES: Record<HealthIssue, string> = {
+  breached: 'text-red-400 bg-red-500/10 border-red-500/20',
+  weak: 'text-amber-400 bg-amber-500/10 border-amber-500/20',
+  reused: 'text-orange-400 bg-orange-500/10 border-orange-500/20',
+  old: 'text-blue-400 bg-blue-500/10 border-blue-500/20'
+};
+
+export const HealthDashboard: React.FC<{ items: VaultItem[]; onOpenItem: (id: string) => void; onClose: () => void }> = ({ items, onOpenItem, onClose }) => {
+  const [breaches, setBreaches] = useState<BreachRanges | null>(null);
+  const [report, setReport] = useState<HealthReport | null>(null);
+  const [issueFilter, setIssueFilter] = useState<HealthIssue | null>(null);
+
+  useEffect(() => {
+    VaultService.getBreachRanges().catch(() => ({})).then(setBreaches);
+  }, []);
+
+  useEffect(() => {
+    if (!breaches) return;
+    let cancelled = false;
+    buildHealthReport(items, breaches).then(r => { if (!cancelled) setReport(r); });
+    return () => { cancelled = true; };
+  }, [items, breaches]);
+
+  const byId = useMemo(() => new Map(items.map(i => [i.id, i])), [items]);
+  const visible = report?.findings.filter(f => !issueFilter || f.issue === issueFilter) ?? [];
+
+  return (
+    <div className="flex flex-col gap-8 max-w-3xl mx-auto w-full animate-in slide-in-from-right-8 duration-400">
+      <div className="flex items-center justify-between border-b border-slate-800 pb-6">
+        <div>
+          <h2 className="text-2xl font-black text-white">Password Health</h2>
+          <p className="text-xs text-slate-500 mt-1">Computed on this device from your logins. Nothing leaves the vault.</p>
+        </div>
+        <button onClick={onClose} className="w-10 h-10 bg-slate-800 rounded-xl flex items-center justify-center text-slate-400 hover:text-white transition-colors"><X size={20}/></button>
+      </div>
+
+      {!report ? (
+        <div className="h-48 flex items-center justify-center"><Loader2 className="w-8 h-8 text-emerald-500 animate-spin" /></div>
+      ) : (
+        <>
+          <div className={`border p-6 rounded-[2rem] flex items-center justify-between gap-6 ${report.findings.length ? 'bg-amber-500/5 border-amber-500/20' : 'bg-emerald-500/10 border-emerald-500/20'}`}>
+            <div className="flex items-center gap-5">
+              <div className="w-14 h-14 bg-slate-950 rounded-2xl flex items-center justify-center border border-slate-800">
+                {report.findings.length ? <ShieldAlert className="w-7 h-7 text-amber-400" /> : <ShieldCheck className="w-7 h-7 text-emerald-400" />}
+              </div>
+              <div>
+                <h3 className="text-lg font-black text-white">Health Score</h3>
+                <p className="text-xs text-slate-500">{report.checked} login{report.checked === 1 ? '' : 's'} checked · old means unchanged for {OLD_PASSWORD_DAYS} days</p>
+              </div>
+            </div>
+            <div className={`text-5xl font-black ${report.score >= 80 ? 'text-emerald-400' : report.score >= 50 ? 'text-amber-400' : 'text-red-400'}`}>{report.score}%</div>
+          </div>
+
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+            {(Object.keys(HEALTH_ISSUE_LABELS) as HealthIssue[]).map(issue => (
+              <button key={issue} onClick={() => setIssueFilter(issueFilter === issue ? null : issue)} className={`p-4 rounded-2xl border text-left transition-colors ${issueFilter === issue ? ISSUE_STYLES[issue] : 'border-slate-800 hover:border-slate-700'}`}>
+                <p className="text-2xl font-black text-white">{report.counts[issue]}</p>
+                <p className="text-[10px] font-black uppercase tracking-widest text-slate-500">{HEALTH_ISSUE_LABELS[issue]}</p>
+              </button>
+            ))}
+          </div>
+
+          {visible.length === 0 ? (
+            <div className="h-32 border-2 border-dashed border-slate-800 rounded-[2rem] flex flex-col items-center justify-center opacity-40">
+              <Activity size={28} className="text-slate-600 mb-3" />
+              <p className="text-slate-400 font-black uppercase tracking-widest text-[10px]">No issues found</p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {visible.map(finding => {
+                const item = byId.get(finding.itemId);
+                if (!item) return null;
+                return (
+                  <button key={`${finding.issue}:${finding.itemId}`} onClick={() => onOpenItem(item.id)} className="w-full bg-slate-800/20 border border-slate-800/50 hover:border-slate-700 rounded-2xl px-5 py-4 flex items-center gap-4 text-left transition-colors">
+                    <span className={`shrink-0 px-2.5 py-1 rounded-lg border text-[10px] font-black uppercase tracking-widest ${ISSUE_STYLES[finding.issue]}`}>{HEALTH_ISSUE_LABELS[finding.issue]}</span>
+                    <div className="min-w-0 flex-1">
+                      <p className="font-bold text-slate-200 truncate">{item.title}</p>
+                      <p className="text-[10px] text-slate-600 font-bold truncate">{itemSubtitle(item)} · {finding.detail}</p>
+                    </div>
+                    <ChevronRight size={16} className="text-slate-600 shrink-0" />
+                  </button>
+                );
+              })}
+            </div>
+          )}
+        </>
+      )}
+
+      {breaches && <BreachListCard ranges={breaches} onChange={setBreaches} />}
+    </div>
+  );
+};
+
+const BreachListCard: React.FC<{ ranges: BreachRanges; onChange: (ranges: BreachRanges) => void }> = ({ ranges, onChange }) => {
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const hashes = useMemo(() => countBreachHashes(ranges), [ranges]);
+
+  const save = async (updated: BreachRanges) => {
+    await VaultService.saveBreachRanges(updated);
+    onChange(updated);
+  };
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files?.length) return;
+    setError(null);
+    setBusy(true);
+    try {
+      let merged = ranges;
+      for (const file of Array.from(files)) merged = mergeBreachRanges(merged, parseBreachRanges(await file.text(), file.name));
+      await save(merged);
+    } catch (e) {
+      setError(e instanceof BreachListFormatError ? e.message : "Could not import the breach list.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="bg-slate-800/20 border border-slate-800/50 p-6 rounded-[2rem] space-y-4">
+      <div>
+        <h3 className="font-black text-white">Offline Breach Check</h3>
+        <p className="text-xs text-slate-500 leading-relaxed mt-1">
+          Import Pwned Passwords range files (SHA-1 prefix files such as <span className="mono text-slate-400">1E4C9.txt</span>). Passwords are hashed and matched locally; the list is stored encrypted in this vault.
+        </p>
+      </div>
+      <p className="text-[10px] font-black uppercase tracking-widest text-slate-500">
+        {hashes ? `${hashes.toLocaleString()} hashes in ${Object.keys(ranges).length} ranges` : 'No breach data imported'}
+      </p>
+      {error && <p className="flex items-center gap-2 text-red-400 text-xs font-bold"><AlertCircle size={14} /> {error}</p>}
+      <div className="flex gap-3">
+        <label className={`flex-1 bg-slate-800 border border-slate-700 py-3 rounded-2xl font-black text-sm text-slate-300 hover:bg-slate-700 transition-colors flex items-center justify-center gap-2 cursor-pointer ${busy ? 'opacity-40 pointer-events-none' : ''}`}>
+          {busy ? <Loader2 size={16} className="animate-spin" /> : <Upload size={16} />} Import Range Files
+          <input type="file" multiple accept=".txt,text/plain" className="hidden" onChange={e => { handleFiles(e.target.files); e.target.value = ''; }} />
+        </label>
+        {hashes > 0 && <button disabled={busy} onClick={() => save({})} title="Remove breach data" className="w-12 bg-slate-800 border border-slate-700 rounded-2xl flex items-center justify-center text-slate-400 hover:text-red-400 transition-colors"><Trash2 size={16} /></button>}
+      </div>
+    </div>
+  );
+};
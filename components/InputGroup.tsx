@@ -0,0 +1,14 @@
+import React from 'react';
+
+export const InputGroup: React.FC<{ label: string; val: string; set: (v: string) => void; placeholder: string; type?: string }> = ({ label, val, set, placeholder, type = 'text' }) => (
+  <div className="space-y-2">
+    <label className="text-[10px] font-black text-slate-500 uppercase tracking-[0.25em] px-2">{label}</label>
+    <input 
+      type={type} 
+      className="w-full bg-slate-950 border-2 border-slate-800 rounded-2xl px-5 py-3.5 outline-none focus:border-emerald-500/50 transition-all text-slate-100 placeholder:text-slate-800 text-base font-bold shadow-inner" 
+      placeholder={placeholder} 
+      value={val} 
+      onChange={(e) => set(e.target.value)} 
+    />
+  </div>
+);
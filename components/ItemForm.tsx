@@ -0,0 +1,316 @@
+import React, { useState, useMemo } from 'react';
+import { X, RefreshCw, ChevronDown, Plus, Trash2, History, Eye, EyeOff, RotateCcw, Tag, SlidersHorizontal, ScanLine, AlertCircle, Loader2 } from 'lucide-react';
+import { TotpService } from '../services/TotpService';
+import {
+  ItemDraft, VaultItemKind, CustomField, CustomFieldType, LoginItem, NoteItem, CardItem, IdentityItem, PasswordHistoryEntry,
+  ITEM_KIND_LABELS, emptyDraft, isDraftComplete, normalizeFolder, normalizeTags
+} from '../services/VaultItems';
+import { GeneratorSettings, DEFAULT_GENERATOR_SETTINGS, generate, validatePasswordOptions } from '../services/PasswordGenerator';
+import { InputGroup } from './InputGroup';
+import { GeneratorPanel } from './GeneratorPanel';
+import { TotpScanner } from './TotpScanner';
+import { ScannedOtp } from '../services/OtpImport';
+
+const SOCIAL_MEDIA_OPTIONS = [
+  "Google", "Facebook", "Instagram", "X (Twitter)", "TikTok",
+  "LinkedIn", "Discord", "WhatsApp", "Telegram", "Snapchat",
+  "Reddit", "Pinterest", "Netflix", "Spotify", "Amazon", "Binance"
+];
+
+const CUSTOM_FIELD_TYPES: CustomFieldType[] = ['text', 'hidden', 'url'];
+
+// Omit the discriminant first: intersecting the item types directly collapses to never
+type DraftOf<K extends VaultItemKind> = Extract<ItemDraft, { kind: K }>;
+
+type DraftPatch = Partial<Omit<LoginItem, 'id' | 'kind'> & Omit<NoteItem, 'id' | 'kind'> & Omit<CardItem, 'id' | 'kind'> & Omit<IdentityItem, 'id' | 'kind'>>;
+
+export const ItemForm: React.FC<{
+  heading: string;
+  submitLabel: string;
+  initial?: ItemDraft;
+  passwordHistory?: PasswordHistoryEntry[];
+  /** Existing folders and tags, offered as suggestions. */
+  folders?: string[];
+  knownTags?: string[];
+  /** Rejects when the item could not be saved; the form then stays open with the draft. */
+  onSubmit: (draft: ItemDraft) => Promise<void>;
+  onCancel: () => void;
+}> = ({ heading, submitLabel, initial, passwordHistory, folders = [], knownTags = [], onSubmit, onCancel }) => {
+  const [draft, setDraft] = useState<ItemDraft>(initial ?? emptyDraft('login'));
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = (patch: DraftPatch) => setDraft(d => ({ ...d, ...patch }) as ItemDraft);
+  const totpValid = useMemo(() => draft.kind !== 'login' || !draft.totp?.trim() || TotpService.isValid(draft.totp), [draft]);
+  const canSave = isDraftComplete(draft) && totpValid;
+
+  // Switching kind keeps the title, custom fields and organisation; everything else is kind specific
+  const switchKind = (kind: VaultItemKind) => setDraft(d => ({ ...emptyDraft(kind), title: d.title, customFields: d.customFields, folder: d.folder, tags: d.tags, favorite: d.favorite }));
+
+  const submit = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      await onSubmit({ ...draft, folder: normalizeFolder(draft.folder), tags: normalizeTags(draft.tags) });
+    } catch (e) {
+      setError("The item could not be saved. Try again.");
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-8 max-w-3xl mx-auto w-full animate-in slide-in-from-right-8 duration-400">
+      <div className="flex items-center justify-between border-b border-slate-800 pb-6">
+        <h2 className="text-2xl font-black text-white">{heading}</h2>
+        <button onClick={onCancel} className="w-10 h-10 bg-slate-800 rounded-xl flex items-center justify-center text-slate-400 hover:text-white transition-colors"><X size={20}/></button>
+      </div>
+      {!initial && (
+        <div className="flex flex-wrap gap-2">
+          {(Object.keys(ITEM_KIND_LABELS) as VaultItemKind[]).map(kind => (
+            <button key={kind} onClick={() => switchKind(kind)} className={`px-4 py-2 rounded-xl border text-xs font-black uppercase tracking-widest transition-colors ${draft.kind === kind ? 'border-emerald-500/50 bg-emerald-500/5 text-emerald-400' : 'border-slate-800 text-slate-500 hover:border-slate-700'}`}>
+              {ITEM_KIND_LABELS[kind]}
+            </button>
+          ))}
+        </div>
+      )}
+      <div className="space-y-6">
+        {draft.kind === 'login' && <LoginFields draft={draft} update={update} totpValid={totpValid} />}
+        {draft.kind === 'login' && !!passwordHistory?.length && (
+          <PasswordHistoryPanel history={passwordHistory} current={draft.password} onRestore={password => update({ password })} />
+        )}
+        {draft.kind === 'note' && <NoteFields draft={draft} update={update} />}
+        {draft.kind === 'card' && <CardFields draft={draft} update={update} />}
+        {draft.kind === 'identity' && <IdentityFields draft={draft} update={update} />}
+        <CustomFieldsEditor fields={draft.customFields} onChange={customFields => update({ customFields })} />
+        <OrganizeFields draft={draft} update={update} folders={folders} knownTags={knownTags} />
+      </div>
+      {error && <p className="flex items-center justify-center gap-2 text-red-400 text-xs font-bold"><AlertCircle size={14} /> {error}</p>}
+      <button disabled={!canSave || saving} onClick={submit} className="bg-emerald-600 disabled:opacity-20 py-5 rounded-3xl font-black text-lg text-white shadow-xl shadow-emerald-500/20 mt-4 transition-all hover:bg-emerald-500 active:scale-[0.99] flex items-center justify-center">{saving ? <Loader2 className="animate-spin w-5 h-5" /> : submitLabel}</button>
+    </div>
+  );
+};
+
+const LoginFields: React.FC<{ draft: DraftOf<'login'>; update: (patch: DraftPatch) => void; totpValid: boolean }> = ({ draft, update, totpValid }) => {
+  const [generator, setGenerator] = useState<GeneratorSettings>(DEFAULT_GENERATOR_SETTINGS);
+  const [showGenerator, setShowGenerator] = useState(false);
+  const [showScanner, setShowScanner] = useState(false);
+
+  const regenerate = (settings: GeneratorSettings = generator) => {
+    if (settings.mode === 'password' && validatePasswordOptions(settings.password)) return;
+    update({ password: generate(settings) });
+  };
+
+  // Every change to the rules produces a fresh value, so what is shown always matches them
+  const changeGenerator = (settings: GeneratorSettings) => {
+    setGenerator(settings);
+    regenerate(settings);
+  };
+
+  // A scanned code also names the service and account, used where the form is still empty
+  const applyScanned = (otp: ScannedOtp) => {
+    setShowScanner(false);
+    update({
+      totp: otp.uri,
+      ...(!draft.title.trim() && otp.issuer ? { title: otp.issuer } : {}),
+      ...(!draft.username.trim() && otp.account ? { username: otp.account } : {})
+    });
+  };
+
+  return (
+    <>
+      <div className="space-y-3 relative">
+        <label className="text-[10px] font-black text-slate-500 uppercase tracking-[0.3em] px-2">Provider</label>
+        <div className="relative group">
+          <input
+            type="text"
+            list="social-media-list"
+            className="w-full bg-slate-950 border-2 border-slate-800 rounded-2xl px-6 py-4 outline-none focus:border-emerald-500/50 transition-all text-slate-100 placeholder:text-slate-800 text-lg font-bold shadow-inner"
+            placeholder="Select service..."
+            value={draft.title}
+            onChange={(e) => update({ title: e.target.value })}
+          />
+          <datalist id="social-media-list">
+            {SOCIAL_MEDIA_OPTIONS.map(opt => <option key={opt} value={opt} />)}
+          </datalist>
+          <div className="absolute right-6 top-1/2 -translate-y-1/2 pointer-events-none text-slate-600">
+            <ChevronDown size={18} />
+          </div>
+        </div>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <InputGroup label="Username" val={draft.username} set={username => update({ username })} placeholder="your@email.com" />
+        <div className="relative">
+          <InputGroup label="Secure Password" val={draft.password} set={password => update({ password })} type="password" placeholder="••••••••" />
+          <div className="absolute right-2 bottom-2 flex gap-2">
+            <button onClick={() => setShowGenerator(s => !s)} className={`p-3 bg-slate-800 hover:bg-slate-700 rounded-xl border transition-all active:scale-95 ${showGenerator ? 'text-emerald-400 border-emerald-500/50' : 'text-slate-400 border-slate-700'}`} title="Generator options"><SlidersHorizontal size={16} /></button>
+            <button onClick={() => regenerate()} className="p-3 bg-slate-800 hover:bg-slate-700 rounded-xl text-emerald-500 border border-slate-700 transition-all active:scale-95" title="Generate Secure"><RefreshCw size={16} /></button>
+          </div>
+        </div>
+      </div>
+      {showGenerator && <GeneratorPanel settings={generator} onChange={changeGenerator} onGenerate={() => regenerate()} />}
+      <InputGroup label="Website (Optional)" val={draft.url ?? ''} set={url => update({ url })} placeholder="https://" />
+      <div className="space-y-2">
+        <div className="relative">
+          <InputGroup label="2FA Secret (Optional)" val={draft.totp ?? ''} set={totp => update({ totp })} placeholder="Base32 secret or otpauth:// URI" />
+          <div className="absolute right-2 bottom-2">
+            <button onClick={() => setShowScanner(s => !s)} className={`p-3 bg-slate-800 hover:bg-slate-700 rounded-xl border transition-all active:scale-95 ${showScanner ? 'text-emerald-400 border-emerald-500/50' : 'text-slate-400 border-slate-700'}`} title="Scan QR code"><ScanLine size={16} /></button>
+          </div>
+        </div>
+        {!totpValid && <p className="text-amber-400 text-[10px] font-black uppercase tracking-widest px-2">Not a valid TOTP secret</p>}
+        {showScanner && <TotpScanner onPick={applyScanned} />}
+      </div>
+      <TextAreaGroup label="Notes (Optional)" val={draft.notes ?? ''} set={notes => update({ notes })} placeholder="Security questions, recovery codes..." />
+    </>
+  );
+};
+
+const NoteFields: React.FC<{ draft: DraftOf<'note'>; update: (patch: DraftPatch) => void }> = ({ draft, update }) => (
+  <>
+    <InputGroup label="Title" val={draft.title} set={title => update({ title })} placeholder="Wi-Fi, server access, ..." />
+    <TextAreaGroup label="Note" val={draft.notes} set={notes => update({ notes })} placeholder="Encrypted with your vault key" rows={8} />
+  </>
+);
+
+const CardFields: React.FC<{ draft: DraftOf<'card'>; update: (patch: DraftPatch) => void }> = ({ draft, update }) => (
+  <>
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+      <InputGroup label="Title" val={draft.title} set={title => update({ title })} placeholder="Personal Visa" />
+      <InputGroup label="Cardholder" val={draft.cardholder} set={cardholder => update({ cardholder })} placeholder="Name on card" />
+    </div>
+    <InputGroup label="Card Number" val={draft.number} set={number => update({ number })} type="password" placeholder="•••• •••• •••• ••••" />
+    <div className="grid grid-cols-2 gap-6">
+      <InputGroup label="Expiry" val={draft.expiry} set={expiry => update({ expiry })} placeholder="MM/YY" />
+      <InputGroup label="CVV" val={draft.cvv} set={cvv => update({ cvv })} type="password" placeholder="•••" />
+    </div>
+    <TextAreaGroup label="Notes (Optional)" val={draft.notes ?? ''} set={notes => update({ notes })} placeholder="PIN hint, issuer hotline..." />
+  </>
+);
+
+const IdentityFields: React.FC<{ draft: DraftOf<'identity'>; update: (patch: DraftPatch) => void }> = ({ draft, update }) => (
+  <>
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+      <InputGroup label="Title" val={draft.title} set={title => update({ title })} placeholder="Personal" />
+      <InputGroup label="Full Name" val={draft.fullName} set={fullName => update({ fullName })} placeholder="Jane Doe" />
+      <InputGroup label="Email" val={draft.email} set={email => update({ email })} placeholder="jane@example.com" />
+      <InputGroup label="Phone" val={draft.phone} set={phone => update({ phone })} placeholder="+1 555 0100" />
+    </div>
+    <TextAreaGroup label="Address" val={draft.address} set={address => update({ address })} placeholder="Street, city, postal code, country" rows={3} />
+    <TextAreaGroup label="Notes (Optional)" val={draft.notes ?? ''} set={notes => update({ notes })} placeholder="Passport number, date of birth..." />
+  </>
+);
+
+const OrganizeFields: React.FC<{ draft: ItemDraft; update: (patch: DraftPatch) => void; folders: string[]; knownTags: string[] }> = ({ draft, update, folders, knownTags }) => {
+  const [tagInput, setTagInput] = useState('');
+  const addTag = () => {
+    update({ tags: normalizeTags([...draft.tags, ...tagInput.split(',')]) });
+    setTagInput('');
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+      <div className="space-y-2">
+        <label className="text-[10px] font-black text-slate-500 uppercase tracking-[0.25em] px-2">Folder (Optional)</label>
+        <input
+          list="vault-folder-list"
+          className="w-full bg-slate-950 border-2 border-slate-800 rounded-2xl px-5 py-3.5 outline-none focus:border-emerald-500/50 transition-all text-slate-100 placeholder:text-slate-800 text-base font-bold shadow-inner"
+          placeholder="Work/Servers"
+          value={draft.folder ?? ''}
+          onChange={e => update({ folder: e.target.value })}
+        />
+        <datalist id="vault-folder-list">
+          {folders.map(f => <option key={f} value={f} />)}
+        </datalist>
+      </div>
+      <div className="space-y-2">
+        <label className="text-[10px] font-black text-slate-500 uppercase tracking-[0.25em] px-2">Tags</label>
+        <div className="w-full bg-slate-950 border-2 border-slate-800 rounded-2xl px-3 py-2 flex flex-wrap gap-1.5 items-center focus-within:border-emerald-500/50 transition-all">
+          {draft.tags.map(tag => (
+            <span key={tag} className="flex items-center gap-1 pl-2 pr-1 py-1 rounded-lg bg-emerald-500/10 text-emerald-400 text-xs font-bold">
+              <Tag size={10} /> {tag}
+              <button onClick={() => update({ tags: draft.tags.filter(t => t !== tag) })} className="p-0.5 hover:text-white"><X size={12} /></button>
+            </span>
+          ))}
+          <input
+            list="vault-tag-list"
+            className="flex-1 min-w-[6rem] bg-transparent outline-none text-sm font-bold text-slate-100 placeholder:text-slate-800 py-1.5 px-1"
+            placeholder={draft.tags.length ? '' : 'Add tag...'}
+            value={tagInput}
+            onChange={e => setTagInput(e.target.value)}
+            onKeyDown={e => {
+              if ((e.key === 'Enter' || e.key === ',') && tagInput.trim()) { e.preventDefault(); addTag(); }
+              else if (e.key === 'Backspace' && !tagInput && draft.tags.length) update({ tags: draft.tags.slice(0, -1) });
+            }}
+            onBlur={() => { if (tagInput.trim()) addTag(); }}
+          />
+          <datalist id="vault-tag-list">
+            {knownTags.filter(t => !draft.tags.includes(t)).map(t => <option key={t} value={t} />)}
+          </datalist>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const PasswordHistoryPanel: React.FC<{ history: PasswordHistoryEntry[]; current: string; onRestore: (password: string) => void }> = ({ history, current, onRestore }) => {
+  const [revealed, setRevealed] = useState<number | null>(null);
+
+  return (
+    <div className="space-y-3">
+      <label className="flex items-center gap-2 text-[10px] font-black text-slate-500 uppercase tracking-[0.25em] px-2"><History size={12} /> Password History</label>
+      <div className="bg-slate-950/50 border border-slate-800/50 rounded-2xl divide-y divide-slate-800/50">
+        {history.map((entry, i) => (
+          <div key={entry.changedAt + ':' + i} className="flex items-center justify-between gap-3 px-4 py-3">
+            <div className="min-w-0">
+              <p className="mono text-sm text-slate-300 font-bold truncate">{revealed === i ? entry.password : '••••••••'}</p>
+              <p className="text-[10px] text-slate-600 font-bold">Replaced {new Date(entry.changedAt).toLocaleString()}</p>
+            </div>
+            <div className="flex items-center gap-1 shrink-0">
+              <button onClick={() => setRevealed(revealed === i ? null : i)} className="p-2 text-slate-500 hover:text-emerald-400 transition-colors">
+                {revealed === i ? <EyeOff size={16} /> : <Eye size={16} />}
+              </button>
+              <button disabled={entry.password === current} onClick={() => onRestore(entry.password)} title="Use this password" className="p-2 text-slate-500 hover:text-emerald-400 disabled:opacity-20 transition-colors">
+                <RotateCcw size={16} />
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const CustomFieldsEditor: React.FC<{ fields: CustomField[]; onChange: (fields: CustomField[]) => void }> = ({ fields, onChange }) => {
+  const patch = (id: string, changes: Partial<CustomField>) => onChange(fields.map(f => f.id === id ? { ...f, ...changes } : f));
+
+  return (
+    <div className="space-y-3">
+      <label className="text-[10px] font-black text-slate-500 uppercase tracking-[0.25em] px-2">Custom Fields</label>
+      {fields.map(field => (
+        <div key={field.id} className="grid grid-cols-[1fr_1.5fr_auto_auto] gap-2 items-center">
+          <input className="bg-slate-950 border-2 border-slate-800 rounded-xl px-3 py-2.5 outline-none focus:border-emerald-500/50 text-sm font-bold text-slate-100 placeholder:text-slate-800" placeholder="Label" value={field.label} onChange={e => patch(field.id, { label: e.target.value })} />
+          <input type={field.type === 'hidden' ? 'password' : 'text'} className="bg-slate-950 border-2 border-slate-800 rounded-xl px-3 py-2.5 outline-none focus:border-emerald-500/50 text-sm font-bold text-slate-100 placeholder:text-slate-800" placeholder={field.type === 'url' ? 'https://' : 'Value'} value={field.value} onChange={e => patch(field.id, { value: e.target.value })} />
+          <select className="bg-slate-950 border-2 border-slate-800 rounded-xl px-2 py-2.5 text-xs font-black uppercase text-slate-400 outline-none" value={field.type} onChange={e => patch(field.id, { type: e.target.value as CustomFieldType })}>
+            {CUSTOM_FIELD_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+          </select>
+          <button onClick={() => onChange(fields.filter(f => f.id !== field.id))} className="p-2.5 text-slate-600 hover:text-red-400 transition-colors"><Trash2 size={16} /></button>
+        </div>
+      ))}
+      <button onClick={() => onChange([...fields, { id: crypto.randomUUID(), label: '', value: '', type: 'text' }])} className="flex items-center gap-2 px-4 py-2 rounded-xl border border-dashed border-slate-700 text-slate-500 hover:text-emerald-400 hover:border-emerald-500/50 text-xs font-black uppercase tracking-widest transition-colors">
+        <Plus size={14} /> Add Field
+      </button>
+    </div>
+  );
+};
+
+const TextAreaGroup: React.FC<{ label: string; val: string; set: (v: string) => void; placeholder: string; rows?: number }> = ({ label, val, set, placeholder, rows = 3 }) => (
+  <div className="space-y-2">
+    <label className="text-[10px] font-black text-slate-500 uppercase tracking-[0.25em] px-2">{label}</label>
+    <textarea
+      rows={rows}
+      className="w-full bg-slate-950 border-2 border-slate-800 rounded-2xl px-5 py-3.5 outline-none focus:border-emerald-500/50 transition-all text-slate-100 placeholder:text-slate-800 text-sm font-bold shadow-inner resize-y custom-scrollbar"
+      placeholder={placeholder}
+      value={val}
+      onChange={(e) => set(e.target.value)}
+    />
+  </div>
+);
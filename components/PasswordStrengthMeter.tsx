@@ -0,0 +1,23 @@
+import React from 'react';
+import { StrengthEstimate, STRENGTH_LABELS } from '../services/PasswordStrength';
+
+const SEGMENT_COLORS = ['bg-red-500', 'bg-red-500', 'bg-amber-500', 'bg-emerald-500', 'bg-emerald-400'];
+
+export const PasswordStrengthMeter: React.FC<{ estimate: StrengthEstimate | null }> = ({ estimate }) => (
+  <div className="space-y-2 px-1">
+    <div className="grid grid-cols-4 gap-1.5">
+      {[1, 2, 3, 4].map(segment => (
+        <div key={segment} className="h-1.5 bg-slate-950 rounded-full overflow-hidden border border-slate-800">
+          <div className={`h-full transition-all duration-500 ${estimate && estimate.score >= segment ? SEGMENT_COLORS[estimate.score] : 'w-0'}`} />
+        </div>
+      ))}
+    </div>
+    {estimate && (
+      <div className="flex justify-between gap-4 text-[10px] font-black uppercase tracking-widest">
+        <span className={estimate.score >= 3 ? 'text-emerald-500' : estimate.score === 2 ? 'text-amber-500' : 'text-red-400'}>{STRENGTH_LABELS[estimate.score]}</span>
+        <span className="text-slate-600">Cracked {estimate.crackTime}</span>
+      </div>
+    )}
+    {estimate?.warning && <p className="text-[11px] text-amber-400/80 font-bold">{estimate.warning}</p>}
+  </div>
+);
@@ -0,0 +1,15 @@
+import React, { useMemo } from 'react';
+import { qrMatrix } from '../services/QrCodes';
+
+/** Dark-on-white QR code as SVG, which stays sharp at any size and on paper. */
+export const QrCode: React.FC<{ text: string; className?: string }> = ({ text, className }) => {
+  const matrix = useMemo(() => qrMatrix(text), [text]);
+  const path = useMemo(() => matrix.map((row, y) => row.map((dark, x) => dark ? `M${x} ${y}h1v1h-1z` : '').join('')).join(''), [matrix]);
+
+  return (
+    <svg viewBox={`0 0 ${matrix.length} ${matrix.length}`} shapeRendering="crispEdges" role="img" aria-label="QR code" className={className}>
+      <rect width={matrix.length} height={matrix.length} fill="#fff" />
+      <path d={path} fill="#000" />
+    </svg>
+  );
+};
@@ -0,0 +1,82 @@
+import React, { useState, useEffect } from 'react';
+import { Copy, Check, Printer } from 'lucide-react';
+import { recoveryKeyToPhrase } from '../services/RecoveryPhrase';
+import { ClipboardService } from '../services/ClipboardService';
+import { QrCode } from './QrCode';
+
+/**
+ * Numbered word grid for writing a phrase down, with a copy button, an
+ * optional hex view and a QR code. Printing lays out the label, QR code and
+ * words on a plain sheet; the print stylesheet in index.html hides the rest of the app.
+ */
+export const RecoveryKeyDisplay: React.FC<{ recoveryKey?: string; phrase?: string; label?: string }> = ({ recoveryKey, phrase, label }) => {
+  const [showHex, setShowHex] = useState(false);
+  const [showQr, setShowQr] = useState(false);
+  const [printing, setPrinting] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const words = (phrase ?? recoveryKeyToPhrase(recoveryKey!)).split(' ');
+  const text = showHex && recoveryKey ? recoveryKey : words.join(' ');
+
+  // The sheet only exists while the print dialog is open, so it never sits in the page otherwise
+  useEffect(() => {
+    if (!printing) return;
+    const done = () => setPrinting(false);
+    window.addEventListener('afterprint', done, { once: true });
+    window.print();
+    return () => window.removeEventListener('afterprint', done);
+  }, [printing]);
+
+  const handleCopy = async () => {
+    await ClipboardService.copy(text);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="bg-slate-950 border-2 border-slate-800 p-6 rounded-3xl relative text-left space-y-4">
+      <div className="flex items-center gap-4 pr-16">
+        {label && <span className="text-[10px] font-black text-slate-500 uppercase tracking-[0.25em]">{label}</span>}
+        {recoveryKey && (
+          <button onClick={() => setShowHex(!showHex)} className="text-[10px] font-black uppercase tracking-widest text-slate-600 hover:text-slate-300 transition-colors">
+            {showHex ? 'Show words' : 'Show hex'}
+          </button>
+        )}
+        <button onClick={() => setShowQr(!showQr)} className="text-[10px] font-black uppercase tracking-widest text-slate-600 hover:text-slate-300 transition-colors">
+          {showQr ? 'Hide QR' : 'Show QR'}
+        </button>
+      </div>
+      {showQr && <QrCode text={text} className="w-56 h-56 mx-auto rounded-xl" />}
+      {showHex && recoveryKey ? (
+        <p className="break-all mono text-emerald-400 font-bold text-sm tracking-widest">{recoveryKey}</p>
+      ) : (
+        <ol className="grid grid-cols-2 sm:grid-cols-3 gap-x-6 gap-y-2">
+          {words.map((word, i) => (
+            <li key={i} className="flex items-baseline gap-2 mono text-sm">
+              <span className="w-6 text-right text-[10px] text-slate-600 font-bold">{i + 1}.</span>
+              <span className="text-emerald-400 font-bold">{word}</span>
+            </li>
+          ))}
+        </ol>
+      )}
+      <div className="absolute top-2 right-2 flex">
+        <button onClick={() => setPrinting(true)} title="Print" className="p-2 text-slate-600 hover:text-white transition-colors"><Printer size={14} /></button>
+        <button onClick={handleCopy} title="Copy" className="p-2 text-slate-600 hover:text-white transition-colors">
+          {copied ? <Check size={14} className="text-emerald-500" /> : <Copy size={14} />}
+        </button>
+      </div>
+      {printing && (
+        <div className="print-sheet hidden print:block">
+          {label && <h1 className="text-xl font-bold mb-6">{label}</h1>}
+          <QrCode text={text} className="w-64 h-64 mb-6" />
+          {showHex && recoveryKey ? (
+            <p className="break-all mono text-lg">{recoveryKey}</p>
+          ) : (
+            <ol className="grid grid-cols-3 gap-x-8 gap-y-2 mono text-lg">
+              {words.map((word, i) => <li key={i}>{i + 1}. {word}</li>)}
+            </ol>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,83 @@
+import React, { useState, useEffect } from 'react';
+import { Plus, X, Check, AlertCircle } from 'lucide-react';
+import { checkPhrase, isHexRecoveryKey, bytesToHex, RecoveryPhraseError, RECOVERY_PHRASE_WORDS } from '../services/RecoveryPhrase';
+import { phraseToShare, combineShares, SHARE_PHRASE_WORDS, MAX_SHARES } from '../services/Shamir';
+
+const TEXTAREA_CLASS = 'w-full bg-slate-950 border-2 border-slate-800 rounded-2xl px-5 py-3.5 outline-none focus:border-emerald-500/50 transition-all text-slate-100 placeholder:text-slate-800 text-sm font-bold mono shadow-inner resize-none';
+
+/** Recovery key as its word phrase or legacy hex, with word-by-word hints while typing. */
+export const RecoveryKeyInput: React.FC<{ value: string; onChange: (value: string) => void }> = ({ value, onChange }) => (
+  <div className="space-y-2">
+    <label className="text-[10px] font-black text-slate-500 uppercase tracking-[0.25em] px-2">Recovery Phrase or Key</label>
+    <textarea rows={3} autoFocus spellCheck={false} autoCapitalize="off" className={TEXTAREA_CLASS} placeholder={`${RECOVERY_PHRASE_WORDS} WORDS OR HEX KEY`} value={value} onChange={e => onChange(e.target.value)} />
+    {!isHexRecoveryKey(value) && <PhraseHints input={value} expectedWords={RECOVERY_PHRASE_WORDS} />}
+  </div>
+);
+
+/**
+ * Collects trustee share phrases and reports the combined recovery key as hex
+ * once enough valid shares are in, or an empty string until then.
+ */
+export const TrusteeSharesInput: React.FC<{ onChange: (recoveryKey: string) => void }> = ({ onChange }) => {
+  const [shares, setShares] = useState(['', '']);
+
+  const parsed = shares.filter(s => s.trim()).map(s => {
+    try { return phraseToShare(s); } catch (e) { return null; }
+  });
+  let combined = '';
+  let problem: string | null = null;
+  if (parsed.length && parsed.every(Boolean)) {
+    try {
+      combined = bytesToHex(combineShares(parsed.map(s => s!)));
+    } catch (e) {
+      problem = e instanceof RecoveryPhraseError ? e.message : "These shares cannot be combined";
+    }
+  }
+  const threshold = parsed.find(Boolean)?.threshold;
+
+  useEffect(() => { onChange(combined); }, [combined]);
+
+  const setShare = (index: number, value: string) => setShares(shares.map((s, i) => i === index ? value : s));
+
+  return (
+    <div className="space-y-4">
+      {shares.map((share, index) => (
+        <div key={index} className="space-y-2">
+          <div className="flex items-center justify-between px-2">
+            <label className="text-[10px] font-black text-slate-500 uppercase tracking-[0.25em]">Share {index + 1}</label>
+            {shares.length > 2 && <button onClick={() => setShares(shares.filter((_, i) => i !== index))} title="Remove share" className="text-slate-600 hover:text-red-400 transition-colors"><X size={14} /></button>}
+          </div>
+          <textarea rows={3} spellCheck={false} autoCapitalize="off" className={TEXTAREA_CLASS} placeholder={`${SHARE_PHRASE_WORDS} WORDS`} value={share} onChange={e => setShare(index, e.target.value)} />
+          <PhraseHints input={share} expectedWords={SHARE_PHRASE_WORDS} />
+        </div>
+      ))}
+      <div className="flex items-center justify-between gap-4 px-2">
+        <span className="text-[10px] font-black uppercase tracking-widest text-slate-500">
+          {threshold ? `${threshold} shares needed` : 'Enter the shares from your trustees'}
+        </span>
+        {shares.length < MAX_SHARES && (
+          <button onClick={() => setShares([...shares, ''])} className="flex items-center gap-1 text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-emerald-400 transition-colors"><Plus size={12} /> Add share</button>
+        )}
+      </div>
+      {problem && <p className="flex items-center gap-2 text-red-400 text-xs font-bold px-2"><AlertCircle size={14} /> {problem}</p>}
+      {combined && <p className="flex items-center gap-2 text-emerald-500 text-xs font-bold px-2"><Check size={14} /> Shares combined</p>}
+    </div>
+  );
+};
+
+const PhraseHints: React.FC<{ input: string; expectedWords: number }> = ({ input, expectedWords }) => {
+  const { words, hints, checksumValid } = checkPhrase(input, expectedWords);
+  if (!words.length) return null;
+  return (
+    <div className="px-2 space-y-1 text-xs font-bold">
+      {hints.map(({ index, word, suggestions }) => (
+        <p key={index} className="text-amber-400">
+          Word {index + 1} "{word}" is not in the word list{suggestions.length ? <> · did you mean <span className="mono">{suggestions.join(', ')}</span>?</> : null}
+        </p>
+      ))}
+      {checksumValid === true && <p className="flex items-center gap-2 text-emerald-500"><Check size={14} /> Checksum valid</p>}
+      {checksumValid === false && <p className="text-red-400">Checksum mismatch: a word is wrong or two words are swapped</p>}
+      {!hints.length && words.length !== expectedWords && <p className="text-slate-500">{words.length} of {expectedWords} words</p>}
+    </div>
+  );
+};
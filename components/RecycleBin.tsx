@@ -0,0 +1,64 @@
+import React, { useState } from 'react';
+import { X, RotateCcw, Trash2, Key, StickyNote, CreditCard, IdCard } from 'lucide-react';
+import { VaultItem, VaultItemKind, RECYCLE_BIN_DAYS, itemSubtitle, recycleBinExpiry } from '../services/VaultItems';
+import { formatRelativeTime } from './VaultItemCard';
+
+const KIND_ICONS: Record<VaultItemKind, React.FC<{ size?: number; className?: string }>> = {
+  login: Key,
+  note: StickyNote,
+  card: CreditCard,
+  identity: IdCard
+};
+
+export const RecycleBin: React.FC<{ items: VaultItem[]; onRestore: (id: string) => void; onPurge: (ids: string[]) => void; onClose: () => void }> = ({ items, onRestore, onPurge, onClose }) => {
+  const [confirmEmpty, setConfirmEmpty] = useState(false);
+  const sorted = [...items].sort((a, b) => (b.deletedAt ?? 0) - (a.deletedAt ?? 0));
+
+  return (
+    <div className="flex flex-col gap-8 max-w-3xl mx-auto w-full animate-in slide-in-from-right-8 duration-400">
+      <div className="flex items-center justify-between border-b border-slate-800 pb-6">
+        <div>
+          <h2 className="text-2xl font-black text-white">Recycle Bin</h2>
+          <p className="text-xs text-slate-500 mt-1">Deleted items are purged permanently after {RECYCLE_BIN_DAYS} days.</p>
+        </div>
+        <button onClick={onClose} className="w-10 h-10 bg-slate-800 rounded-xl flex items-center justify-center text-slate-400 hover:text-white transition-colors"><X size={20}/></button>
+      </div>
+
+      {sorted.length === 0 ? (
+        <div className="h-48 border-2 border-dashed border-slate-800 rounded-[2rem] flex flex-col items-center justify-center opacity-40">
+          <Trash2 size={32} className="text-slate-600 mb-3" />
+          <p className="text-slate-400 font-black uppercase tracking-widest text-[10px]">Recycle bin is empty</p>
+        </div>
+      ) : (
+        <>
+          <div className="space-y-3">
+            {sorted.map(item => {
+              const Icon = KIND_ICONS[item.kind];
+              return (
+                <div key={item.id} className="bg-slate-800/20 border border-slate-800/50 rounded-2xl px-5 py-4 flex items-center gap-4">
+                  <div className="w-10 h-10 bg-slate-950 rounded-xl flex items-center justify-center shrink-0 border border-slate-800"><Icon size={18} className="text-slate-500" /></div>
+                  <div className="min-w-0 flex-1">
+                    <p className="font-bold text-slate-200 truncate">{item.title}</p>
+                    <p className="text-[10px] text-slate-600 font-bold truncate">
+                      {itemSubtitle(item)} · purged {formatRelativeTime(recycleBinExpiry(item))}
+                    </p>
+                  </div>
+                  <button onClick={() => onRestore(item.id)} title="Restore" className="p-2.5 text-slate-500 hover:text-emerald-400 bg-slate-900/50 rounded-xl border border-slate-800/50 transition-colors"><RotateCcw size={16} /></button>
+                  <button onClick={() => onPurge([item.id])} title="Delete forever" className="p-2.5 text-slate-500 hover:text-red-400 bg-slate-900/50 rounded-xl border border-slate-800/50 transition-colors"><Trash2 size={16} /></button>
+                </div>
+              );
+            })}
+          </div>
+          {confirmEmpty ? (
+            <div className="flex gap-4">
+              <button onClick={() => setConfirmEmpty(false)} className="flex-1 py-4 text-slate-500 font-bold hover:text-slate-300 transition-colors">Cancel</button>
+              <button onClick={() => { onPurge(sorted.map(i => i.id)); setConfirmEmpty(false); }} className="flex-[2] bg-red-600 text-white font-black py-4 rounded-2xl hover:bg-red-500 transition-colors">Delete {sorted.length} Items Forever</button>
+            </div>
+          ) : (
+            <button onClick={() => setConfirmEmpty(true)} className="bg-slate-800 border border-slate-700 py-4 rounded-2xl font-black text-red-400 hover:bg-slate-700 transition-colors">Empty Recycle Bin</button>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,547 @@
+import React, { useState, useEffect } from 'react';
+import { X, Fingerprint, Loader2, ShieldCheck, AlertCircle, Cpu, Gauge, Check, Timer, Bomb, LifeBuoy, Cloud, Copy, VenetianMask, ScrollText, Download } from 'lucide-react';
+import { VaultService, KdfStatus, SyncStatus, SyncError, VaultIntegrityError, DuressError } from '../services/VaultService';
+import { BiometricService, BiometricUnavailableError } from '../services/BiometricService';
+import { KdfService, KdfParams, KDF_PRESETS } from '../services/KdfService';
+import { SessionPolicy, IDLE_TIMEOUT_OPTIONS, MAX_SESSION_OPTIONS, CLIPBOARD_CLEAR_OPTIONS } from '../services/SessionPolicy';
+import { WIPE_THRESHOLD_OPTIONS } from '../services/ThrottleService';
+import { hexToBytes } from '../services/RecoveryPhrase';
+import { splitSecret, shareToPhrase, MAX_SHARES } from '../services/Shamir';
+import { RecoveryKeyDisplay } from './RecoveryKeyDisplay';
+import { ClipboardService } from '../services/ClipboardService';
+import { AuditEntry, describeAuditEntry, serializeAuditLog } from '../services/AuditLog';
+import { formatRelativeTime } from './VaultItemCard';
+import { InputGroup } from './InputGroup';
+
+// Unlock latency we steer users towards when picking KDF parameters
+const KDF_TARGET_MS = 1000;
+
+/** Sync state and actions owned by App, which also syncs in the background. */
+export interface SyncControls {
+  status: SyncStatus | null;
+  syncing: boolean;
+  error: string | null;
+  onSync: () => void;
+  onEnable: (server: string) => Promise<void>;
+  onDisable: () => Promise<void>;
+}
+
+export const SettingsScreen: React.FC<{ policy: SessionPolicy | null; onPolicyChange: (policy: SessionPolicy) => Promise<void>; sync: SyncControls; onClose: () => void }> = ({ policy, onPolicyChange, sync, onClose }) => {
+  return (
+    <div className="flex flex-col gap-8 max-w-3xl mx-auto w-full animate-in slide-in-from-right-8 duration-400">
+      <div className="flex items-center justify-between border-b border-slate-800 pb-6">
+        <h2 className="text-2xl font-black text-white">Vault Settings</h2>
+        <button onClick={onClose} className="w-10 h-10 bg-slate-800 rounded-xl flex items-center justify-center text-slate-400 hover:text-white transition-colors"><X size={20}/></button>
+      </div>
+      {policy && <SessionSection policy={policy} onChange={onPolicyChange} />}
+      <SyncSection sync={sync} />
+      <WipeSection />
+      <DuressSection />
+      <RecoverySection />
+      <BiometricSection />
+      <KdfSection />
+      <AuditSection />
+    </div>
+  );
+};
+
+const formatMinutes = (m: number) => m === 0 ? 'Never' : m < 60 ? `${m} min` : `${m / 60} h`;
+const formatSeconds = (s: number) => s === 0 ? 'Never' : s < 60 ? `${s} s` : `${s / 60} min`;
+
+const SessionSection: React.FC<{ policy: SessionPolicy; onChange: (policy: SessionPolicy) => Promise<void> }> = ({ policy, onChange }) => {
+  const set = <K extends keyof SessionPolicy>(key: K, value: SessionPolicy[K]) => onChange({ ...policy, [key]: value });
+
+  return (
+    <SettingsCard icon={<Timer size={20} className="text-emerald-500" />} title="Session &amp; Clipboard">
+      <p className="text-xs text-slate-500 leading-relaxed">
+        Stored encrypted with your vault key. Changes take effect immediately.
+      </p>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <PolicySelect label="Lock when idle for" value={policy.idleTimeoutMinutes} options={IDLE_TIMEOUT_OPTIONS} format={formatMinutes} onChange={v => set('idleTimeoutMinutes', v)} />
+        <PolicySelect label="Maximum session" value={policy.maxSessionMinutes} options={MAX_SESSION_OPTIONS} format={formatMinutes} onChange={v => set('maxSessionMinutes', v)} />
+        <PolicySelect label="Clear clipboard after" value={policy.clipboardClearSeconds} options={CLIPBOARD_CLEAR_OPTIONS} format={formatSeconds} onChange={v => set('clipboardClearSeconds', v)} />
+      </div>
+      <PolicyToggle label="Lock when the tab is hidden" checked={policy.lockOnHidden} onChange={v => set('lockOnHidden', v)} />
+      <PolicyToggle label="Lock when the window loses focus" checked={policy.lockOnBlur} onChange={v => set('lockOnBlur', v)} />
+    </SettingsCard>
+  );
+};
+
+const PolicySelect: React.FC<{ label: string; value: number; options: number[]; format: (v: number) => string; onChange: (v: number) => void }> = ({ label, value, options, format, onChange }) => (
+  <label className="bg-slate-950/80 rounded-2xl px-4 py-3 border border-slate-800/30 flex flex-col gap-1">
+    <span className="text-[10px] font-black text-slate-500 uppercase tracking-[0.25em]">{label}</span>
+    <select value={value} onChange={e => onChange(Number(e.target.value))} className="bg-transparent text-sm font-bold text-slate-200 outline-none">
+      {(options.includes(value) ? options : [...options, value].sort((a, b) => a - b)).map(o => <option key={o} value={o} className="bg-slate-900">{format(o)}</option>)}
+    </select>
+  </label>
+);
+
+const PolicyToggle: React.FC<{ label: string; checked: boolean; onChange: (v: boolean) => void }> = ({ label, checked, onChange }) => (
+  <button onClick={() => onChange(!checked)} className="flex items-center justify-between gap-4 px-4 py-3 rounded-2xl border border-slate-800 hover:border-slate-700 text-left transition-colors">
+    <span className="text-sm font-bold text-slate-300">{label}</span>
+    <span className={`w-10 h-6 rounded-full p-1 transition-colors ${checked ? 'bg-emerald-600' : 'bg-slate-800'}`}>
+      <span className={`block w-4 h-4 rounded-full bg-white transition-transform ${checked ? 'translate-x-4' : ''}`} />
+    </span>
+  </button>
+);
+
+const SyncSection: React.FC<{ sync: SyncControls }> = ({ sync }) => {
+  const [server, setServer] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [confirming, setConfirming] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { status } = sync;
+
+  const handleEnable = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      await sync.onEnable(server.trim());
+    } catch (e) {
+      setError(e instanceof SyncError ? e.message : "Sync could not be set up.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDisable = async () => {
+    setBusy(true);
+    await sync.onDisable();
+    setConfirming(false);
+    setBusy(false);
+  };
+
+  const handleCopy = async () => {
+    if (!status) return;
+    await ClipboardService.copy(status.syncId);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const shownError = error ?? sync.error;
+
+  return (
+    <SettingsCard icon={<Cloud size={20} className="text-emerald-500" />} title="Sync">
+      <p className="text-xs text-slate-500 leading-relaxed">
+        Keeps this vault in step across devices through a sync server you run yourself (see server/syncServer.ts). Items are encrypted before they leave the device; the server only stores ciphertext and your password-wrapped key slots.
+      </p>
+      {status ? (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div className="bg-slate-950/80 rounded-2xl px-4 py-3 border border-slate-800/30 min-w-0">
+              <p className="text-[10px] font-black text-slate-500 uppercase tracking-[0.25em]">Server</p>
+              <p className="mono text-xs text-slate-300 mt-1 truncate">{status.server}</p>
+            </div>
+            <div className="bg-slate-950/80 rounded-2xl px-4 py-3 border border-slate-800/30">
+              <p className="text-[10px] font-black text-slate-500 uppercase tracking-[0.25em]">Last synced</p>
+              <p className="text-xs font-bold text-slate-300 mt-1">{status.lastSyncAt ? formatRelativeTime(status.lastSyncAt) : 'Never'}</p>
+            </div>
+          </div>
+          <div className="bg-slate-950/80 rounded-2xl px-4 py-3 border border-slate-800/30 flex items-center gap-3">
+            <div className="flex-1 min-w-0">
+              <p className="text-[10px] font-black text-slate-500 uppercase tracking-[0.25em]">Sync ID</p>
+              <p className="mono text-xs text-slate-300 mt-1 truncate">{status.syncId}</p>
+            </div>
+            <button onClick={handleCopy} title="Copy" className="p-2 text-slate-600 hover:text-white transition-colors">
+              {copied ? <Check size={14} className="text-emerald-500" /> : <Copy size={14} />}
+            </button>
+          </div>
+          <p className="text-xs text-slate-500 leading-relaxed">To add another device, choose "Join a synced vault" there and enter the server, this sync ID and the master password.</p>
+          {shownError && <p className="flex items-center gap-2 text-red-400 text-xs font-bold"><AlertCircle size={14} /> {shownError}</p>}
+          <div className="flex items-center justify-end gap-3">
+            {confirming && <span className="text-xs text-amber-400 font-bold mr-auto">This device stops syncing; the server copy is kept.</span>}
+            {confirming && <button disabled={busy} onClick={() => setConfirming(false)} className="px-5 py-3 text-slate-500 font-bold text-sm hover:text-slate-300 transition-colors">Cancel</button>}
+            <button disabled={busy} onClick={confirming ? handleDisable : () => setConfirming(true)} className="px-5 py-3 rounded-2xl bg-slate-800 border border-slate-700 text-red-400 font-black text-sm hover:bg-slate-700 transition-colors flex items-center gap-2">
+              {busy ? <Loader2 className="animate-spin w-4 h-4" /> : confirming ? 'Confirm' : 'Disconnect'}
+            </button>
+            {!confirming && (
+              <button disabled={sync.syncing} onClick={sync.onSync} className="px-5 py-3 rounded-2xl bg-emerald-600 disabled:opacity-20 text-white font-black text-sm hover:bg-emerald-500 transition-colors flex items-center gap-2">
+                {sync.syncing ? <Loader2 className="animate-spin w-4 h-4" /> : 'Sync Now'}
+              </button>
+            )}
+          </div>
+        </>
+      ) : (
+        <>
+          <input value={server} onChange={e => setServer(e.target.value)} placeholder="https://sync.example.com" className="w-full bg-slate-950 border-2 border-slate-800 rounded-2xl px-4 py-3 text-sm font-bold text-slate-300 outline-none focus:border-emerald-500/50 transition-colors" />
+          {shownError && <p className="flex items-center gap-2 text-red-400 text-xs font-bold"><AlertCircle size={14} /> {shownError}</p>}
+          <button disabled={busy || !/^https?:\/\/\S+$/.test(server.trim())} onClick={handleEnable} className="self-end px-5 py-3 rounded-2xl bg-emerald-600 disabled:opacity-20 text-white font-black text-sm hover:bg-emerald-500 transition-colors flex items-center gap-2">
+            {busy ? <Loader2 className="animate-spin w-4 h-4" /> : 'Enable Sync'}
+          </button>
+        </>
+      )}
+    </SettingsCard>
+  );
+};
+
+const WipeSection: React.FC = () => {
+  const [wipeAfter, setWipeAfter] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    VaultService.getThrottleStatus().then(status => setWipeAfter(status.wipeAfter));
+  }, []);
+
+  const select = async (threshold: number | null) => {
+    setError(null);
+    try {
+      await VaultService.setWipeAfter(threshold);
+      setWipeAfter(threshold);
+    } catch (e) {
+      setError("Setting could not be saved.");
+    }
+  };
+
+  return (
+    <SettingsCard icon={<Bomb size={20} className="text-red-400" />} title="Failed Unlock Protection">
+      <p className="text-xs text-slate-500 leading-relaxed">
+        Failed master-password and recovery-key attempts are always slowed down with an increasing delay. Optionally, erase this vault from the device after repeated failures. Keep an up-to-date backup if you turn this on.
+      </p>
+      <div className="flex flex-wrap gap-2">
+        {[null, ...WIPE_THRESHOLD_OPTIONS].map(option => (
+          <button key={option ?? 'off'} onClick={() => select(option)} className={`px-4 py-2 rounded-xl border text-xs font-black uppercase tracking-widest transition-colors ${wipeAfter === option ? (option === null ? 'border-emerald-500/50 bg-emerald-500/5 text-emerald-400' : 'border-red-500/50 bg-red-500/5 text-red-300') : 'border-slate-800 text-slate-500 hover:border-slate-700'}`}>
+            {option === null ? 'Never erase' : `After ${option} failures`}
+          </button>
+        ))}
+      </div>
+      {error && <p className="flex items-center gap-2 text-red-400 text-xs font-bold"><AlertCircle size={14} /> {error}</p>}
+    </SettingsCard>
+  );
+};
+
+const DuressSection: React.FC = () => {
+  const [active, setActive] = useState<boolean | null>(null);
+  const [password, setPassword] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const [confirming, setConfirming] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    VaultService.hasDuressPassword().then(setActive);
+  }, []);
+
+  const handleSet = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      await VaultService.setDuressPassword(password);
+      setActive(true);
+      setPassword('');
+      setConfirm('');
+    } catch (e) {
+      setError(e instanceof DuressError ? e.message : "Duress password could not be set.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      await VaultService.removeDuressPassword();
+      setActive(false);
+    } catch (e) {
+      setError("Duress password could not be removed.");
+    } finally {
+      setConfirming(false);
+      setBusy(false);
+    }
+  };
+
+  if (active === null) return null;
+
+  return (
+    <SettingsCard icon={<VenetianMask size={20} className="text-amber-400" />} title="Duress Password">
+      <p className="text-xs text-slate-500 leading-relaxed">
+        A second password for when you are forced to open the vault. It unlocks a separate decoy vault with its own key, items and settings, which looks and works exactly like this one. Unlock with the duress password once to fill the decoy with believable items, and to change its password.
+      </p>
+      {active ? (
+        <>
+          <div className="flex items-center justify-end gap-3">
+            <span className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-emerald-500 mr-auto"><ShieldCheck size={14} /> Active</span>
+            {confirming && <span className="text-xs text-amber-400 font-bold">Everything saved in the decoy is erased.</span>}
+            {confirming && <button disabled={busy} onClick={() => setConfirming(false)} className="px-5 py-3 text-slate-500 font-bold text-sm hover:text-slate-300 transition-colors">Cancel</button>}
+            <button disabled={busy} onClick={confirming ? handleRemove : () => setConfirming(true)} className="px-5 py-3 rounded-2xl bg-slate-800 border border-slate-700 text-red-400 font-black text-sm hover:bg-slate-700 transition-colors flex items-center gap-2">
+              {busy ? <Loader2 className="animate-spin w-4 h-4" /> : confirming ? 'Confirm' : 'Remove'}
+            </button>
+          </div>
+          {error && <p className="flex items-center gap-2 text-red-400 text-xs font-bold"><AlertCircle size={14} /> {error}</p>}
+        </>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <InputGroup label="Duress password" val={password} set={setPassword} type="password" placeholder="••••••••" />
+            <InputGroup label="Confirm" val={confirm} set={setConfirm} type="password" placeholder="••••••••" />
+          </div>
+          {error && <p className="flex items-center gap-2 text-red-400 text-xs font-bold"><AlertCircle size={14} /> {error}</p>}
+          <button disabled={busy || !password || password !== confirm} onClick={handleSet} className="self-end px-5 py-3 rounded-2xl bg-emerald-600 disabled:opacity-20 text-white font-black text-sm hover:bg-emerald-500 transition-colors flex items-center gap-2">
+            {busy ? <Loader2 className="animate-spin w-4 h-4" /> : 'Set Duress Password'}
+          </button>
+        </>
+      )}
+    </SettingsCard>
+  );
+};
+
+const SHARE_COUNT_OPTIONS = Array.from({ length: MAX_SHARES - 1 }, (_, i) => i + 2);
+
+const RecoverySection: React.FC = () => {
+  const [confirming, setConfirming] = useState(false);
+  const [split, setSplit] = useState(false);
+  const [threshold, setThreshold] = useState(2);
+  const [shares, setShares] = useState(3);
+  const [busy, setBusy] = useState(false);
+  const [result, setResult] = useState<{ recoveryKey: string; shares: string[] } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRotate = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const recoveryKey = await VaultService.rotateRecoveryKey();
+      const phrases = split ? splitSecret(hexToBytes(recoveryKey), threshold, shares).map(shareToPhrase) : [];
+      setResult({ recoveryKey, shares: phrases });
+      setConfirming(false);
+    } catch (e) {
+      setError("Recovery key could not be replaced.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <SettingsCard icon={<LifeBuoy size={20} className="text-amber-400" />} title="Recovery Key">
+      <p className="text-xs text-slate-500 leading-relaxed">
+        Replace the recovery key with a new one, for example if the written copy was lost or seen by someone else. Optionally split it among trustees so that any {threshold} of {shares} of them together can restore access, while fewer learn nothing about the key.
+      </p>
+      {result ? (
+        <>
+          <p className="text-xs text-amber-400 font-bold">The previous recovery key no longer works. {result.shares.length ? 'Hand each share to a different trustee; this is the only time they are shown.' : 'Write the new phrase down; this is the only time it is shown.'}</p>
+          {result.shares.length
+            ? result.shares.map((phrase, i) => <RecoveryKeyDisplay key={i} phrase={phrase} label={`Share ${i + 1} of ${result.shares.length} · any ${threshold} restore`} />)
+            : <RecoveryKeyDisplay recoveryKey={result.recoveryKey} label="Recovery phrase" />}
+          <button onClick={() => setResult(null)} className="self-end px-5 py-3 rounded-2xl bg-emerald-600 text-white font-black text-sm hover:bg-emerald-500 transition-colors">Done</button>
+        </>
+      ) : (
+        <>
+          <PolicyToggle label="Split among trustees" checked={split} onChange={setSplit} />
+          {split && (
+            <div className="grid grid-cols-2 gap-3">
+              <PolicySelect label="Shares needed" value={threshold} options={SHARE_COUNT_OPTIONS.filter(k => k <= shares)} format={String} onChange={setThreshold} />
+              <PolicySelect label="Trustees" value={shares} options={SHARE_COUNT_OPTIONS} format={String} onChange={n => { setShares(n); setThreshold(Math.min(threshold, n)); }} />
+            </div>
+          )}
+          <div className="flex items-center justify-end gap-3">
+            {confirming && <span className="text-xs text-amber-400 font-bold mr-auto">The current recovery key will stop working.</span>}
+            {confirming && <button disabled={busy} onClick={() => setConfirming(false)} className="px-5 py-3 text-slate-500 font-bold text-sm hover:text-slate-300 transition-colors">Cancel</button>}
+            <button disabled={busy} onClick={confirming ? handleRotate : () => setConfirming(true)} className="px-5 py-3 rounded-2xl bg-slate-800 border border-slate-700 text-amber-400 font-black text-sm hover:bg-slate-700 transition-colors flex items-center gap-2">
+              {busy ? <Loader2 className="animate-spin w-4 h-4" /> : confirming ? 'Confirm' : 'New Recovery Key'}
+            </button>
+          </div>
+          {error && <p className="flex items-center gap-2 text-red-400 text-xs font-bold"><AlertCircle size={14} /> {error}</p>}
+        </>
+      )}
+    </SettingsCard>
+  );
+};
+
+const BiometricSection: React.FC = () => {
+  const [supported, setSupported] = useState<boolean | null>(null);
+  const [enrolled, setEnrolled] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    BiometricService.isAvailable().then(setSupported);
+    VaultService.hasBiometricSlot().then(setEnrolled);
+  }, []);
+
+  const handleEnroll = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      await VaultService.enrollBiometric();
+      setEnrolled(true);
+    } catch (e) {
+      setError(e instanceof BiometricUnavailableError
+        ? "This authenticator does not support the PRF extension. Keep using your master password."
+        : "Passkey enrollment was cancelled or failed.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRevoke = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      await VaultService.revokeBiometric();
+      setEnrolled(false);
+    } catch (e) {
+      setError("Passkey could not be removed.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <SettingsCard icon={<Fingerprint size={20} className="text-emerald-500" />} title="Biometric Unlock">
+      <p className="text-xs text-slate-500 leading-relaxed">
+        Registers a platform passkey. Its WebAuthn PRF output wraps the vault master key as a third key slot, next to your master password and recovery key.
+      </p>
+      <div className="flex items-center justify-between gap-4">
+        <span className={`flex items-center gap-2 text-[10px] font-black uppercase tracking-widest ${enrolled ? 'text-emerald-500' : 'text-slate-500'}`}>
+          {enrolled ? <><ShieldCheck size={14} /> Enrolled</> : supported === false ? 'Not supported on this device' : 'Not enrolled'}
+        </span>
+        {enrolled ? (
+          <button disabled={busy} onClick={handleRevoke} className="px-5 py-3 rounded-2xl bg-slate-800 border border-slate-700 text-red-400 font-black text-sm hover:bg-slate-700 transition-colors flex items-center gap-2">
+            {busy ? <Loader2 className="animate-spin w-4 h-4" /> : 'Revoke'}
+          </button>
+        ) : (
+          <button disabled={busy || !supported} onClick={handleEnroll} className="px-5 py-3 rounded-2xl bg-emerald-600 disabled:opacity-20 text-white font-black text-sm hover:bg-emerald-500 transition-colors flex items-center gap-2">
+            {busy ? <Loader2 className="animate-spin w-4 h-4" /> : 'Enroll Passkey'}
+          </button>
+        )}
+      </div>
+      {error && <p className="flex items-center gap-2 text-red-400 text-xs font-bold"><AlertCircle size={14} /> {error}</p>}
+    </SettingsCard>
+  );
+};
+
+const KdfSection: React.FC = () => {
+  const [status, setStatus] = useState<KdfStatus | null>(null);
+  const [timings, setTimings] = useState<(number | null)[]>(KDF_PRESETS.map(() => null));
+  const [benchmarking, setBenchmarking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    VaultService.getKdfStatus().then(setStatus);
+  }, []);
+
+  const runBenchmark = async () => {
+    setBenchmarking(true);
+    setTimings(KDF_PRESETS.map(() => null));
+    for (let i = 0; i < KDF_PRESETS.length; i++) {
+      const ms = await KdfService.benchmark(KDF_PRESETS[i]);
+      setTimings(t => t.map((v, j) => j === i ? ms : v));
+      // Stop once a preset is clearly too slow for this device; heavier ones will only be worse
+      if (ms > KDF_TARGET_MS * 4) break;
+    }
+    setBenchmarking(false);
+  };
+
+  const selectTarget = async (params: KdfParams) => {
+    setError(null);
+    try {
+      await VaultService.setTargetKdf(params);
+      setStatus(await VaultService.getKdfStatus());
+    } catch (e) {
+      setError("Key derivation setting could not be saved.");
+    }
+  };
+
+  if (!status) return null;
+  const pending = !KdfService.equals(status.master, status.target) || !KdfService.equals(status.recovery, status.target);
+
+  return (
+    <SettingsCard icon={<Cpu size={20} className="text-emerald-500" />} title="Key Derivation">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <KdfRow label="Master Password Slot" params={status.master} />
+        <KdfRow label="Recovery Key Slot" params={status.recovery} />
+      </div>
+      {pending && (
+        <p className="text-xs text-amber-400/80 leading-relaxed">
+          Slots are re-wrapped with {KdfService.describe(status.target)} the next time they unlock the vault.
+        </p>
+      )}
+      <div className="space-y-2">
+        {KDF_PRESETS.map((preset, i) => {
+          const selected = KdfService.equals(preset, status.target);
+          const ms = timings[i];
+          return (
+            <button key={i} onClick={() => selectTarget(preset)} className={`w-full flex items-center justify-between gap-4 px-4 py-3 rounded-2xl border text-left transition-colors ${selected ? 'border-emerald-500/50 bg-emerald-500/5' : 'border-slate-800 hover:border-slate-700'}`}>
+              <span className="mono text-xs text-slate-300">{KdfService.describe(preset)}</span>
+              <span className="flex items-center gap-3 shrink-0">
+                {ms !== null && (
+                  <span className={`text-[10px] font-black ${ms <= KDF_TARGET_MS ? 'text-emerald-500' : 'text-amber-400'}`}>{ms} ms</span>
+                )}
+                {selected && <Check size={14} className="text-emerald-500" />}
+              </span>
+            </button>
+          );
+        })}
+      </div>
+      <button disabled={benchmarking} onClick={runBenchmark} className="self-start px-5 py-3 rounded-2xl bg-slate-800 border border-slate-700 text-slate-300 font-black text-sm hover:bg-slate-700 transition-colors flex items-center gap-2">
+        {benchmarking ? <Loader2 className="animate-spin w-4 h-4" /> : <Gauge size={16} />} Benchmark this device
+      </button>
+      {error && <p className="flex items-center gap-2 text-red-400 text-xs font-bold"><AlertCircle size={14} /> {error}</p>}
+    </SettingsCard>
+  );
+};
+
+const AuditSection: React.FC = () => {
+  const [entries, setEntries] = useState<AuditEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    VaultService.getAuditLog()
+      .then(setEntries)
+      .catch(e => setError(e instanceof VaultIntegrityError ? e.message : "The activity log could not be read."));
+  }, []);
+
+  const handleExport = async () => {
+    if (!entries) return;
+    const vaults = await VaultService.listVaults();
+    const name = vaults.find(v => v.id === VaultService.getActiveVaultId())?.name ?? 'Vault';
+    const url = URL.createObjectURL(new Blob([serializeAuditLog(entries, name)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `cyber-dt-vault-activity-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <SettingsCard icon={<ScrollText size={20} className="text-emerald-500" />} title="Activity Log">
+      <p className="text-xs text-slate-500 leading-relaxed">
+        Unlocks, failed attempts, password and recovery key changes and every item change, encrypted with your vault key. The app never edits or removes entries, and the log reports a changed or missing entry in the stored copy. Restoring an older copy of the whole log is only noticed while the app stays open. Failed attempts are added at the next unlock.
+      </p>
+      {error && <p className="flex items-center gap-2 text-red-400 text-xs font-bold"><AlertCircle size={14} /> {error}</p>}
+      {entries && (
+        entries.length ? (
+          <ol className="max-h-80 overflow-y-auto custom-scrollbar space-y-1 pr-1">
+            {[...entries].reverse().map(entry => (
+              <li key={entry.seq} className="flex items-baseline justify-between gap-4 px-4 py-2 rounded-xl bg-slate-950/80 border border-slate-800/30">
+                <span className={`text-xs font-bold truncate ${entry.type === 'unlock-failed' ? 'text-red-400' : 'text-slate-300'}`}>{describeAuditEntry(entry)}</span>
+                <span className="text-[10px] text-slate-500 font-bold shrink-0" title={new Date(entry.at).toLocaleString()}>{formatRelativeTime(entry.at)}</span>
+              </li>
+            ))}
+          </ol>
+        ) : <p className="text-xs text-slate-600 font-bold">Nothing logged yet.</p>
+      )}
+      <button disabled={!entries?.length} onClick={handleExport} className="self-end px-5 py-3 rounded-2xl bg-slate-800 border border-slate-700 disabled:opacity-20 text-slate-300 font-black text-sm hover:bg-slate-700 transition-colors flex items-center gap-2">
+        <Download size={16} /> Export Log
+      </button>
+    </SettingsCard>
+  );
+};
+
+const KdfRow: React.FC<{ label: string; params: KdfParams }> = ({ label, params }) => (
+  <div className="bg-slate-950/80 rounded-2xl px-4 py-3 border border-slate-800/30">
+    <p className="text-[10px] font-black text-slate-500 uppercase tracking-[0.25em]">{label}</p>
+    <p className="mono text-xs text-slate-300 mt-1">{KdfService.describe(params)}</p>
+  </div>
+);
+
+export const SettingsCard: React.FC<{ icon: React.ReactNode; title: string; children: React.ReactNode }> = ({ icon, title, children }) => (
+  <div className="bg-slate-950/40 border border-slate-800/50 rounded-3xl p-6 flex flex-col gap-4">
+    <div className="flex items-center gap-3">
+      {icon}
+      <h3 className="font-black text-xs uppercase tracking-[0.25em] text-slate-300">{title}</h3>
+    </div>
+    {children}
+  </div>
+);
@@ -0,0 +1,232 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { X, KeyRound, Send, Inbox, Copy, Check, Download, Loader2, AlertCircle, ShieldCheck } from 'lucide-react';
+import { VaultService, VaultItem, ShareIdentity, OpenedShare, ShareError } from '../services/VaultService';
+import { parseShareKey, shareKeyFingerprint } from '../services/ShareEnvelope';
+import { itemSubtitle } from '../services/VaultItems';
+import { ClipboardService } from '../services/ClipboardService';
+import { SettingsCard } from './SettingsScreen';
+
+const TEXTAREA_CLASS = 'w-full bg-slate-950 border-2 border-slate-800 rounded-2xl px-5 py-3.5 outline-none focus:border-emerald-500/50 transition-all text-slate-100 placeholder:text-slate-800 text-xs font-bold mono shadow-inner resize-none';
+
+export const ShareScreen: React.FC<{ items: VaultItem[]; onReceive: (items: VaultItem[]) => Promise<void>; onClose: () => void }> = ({ items, onReceive, onClose }) => {
+  const [identity, setIdentity] = useState<ShareIdentity | null>(null);
+
+  useEffect(() => {
+    VaultService.getShareIdentity().then(setIdentity);
+  }, []);
+
+  return (
+    <div className="flex flex-col gap-8 max-w-3xl mx-auto w-full animate-in slide-in-from-right-8 duration-400">
+      <div className="flex items-center justify-between border-b border-slate-800 pb-6">
+        <h2 className="text-2xl font-black text-white">Share Items</h2>
+        <button onClick={onClose} className="w-10 h-10 bg-slate-800 rounded-xl flex items-center justify-center text-slate-400 hover:text-white transition-colors"><X size={20}/></button>
+      </div>
+      {identity ? <ShareKeyCard identity={identity} /> : <Loader2 className="animate-spin w-6 h-6 text-emerald-500 self-center" />}
+      <SendCard items={items} />
+      <ReceiveCard onReceive={async (received) => { await onReceive(received); onClose(); }} />
+    </div>
+  );
+};
+
+const ShareKeyCard: React.FC<{ identity: ShareIdentity }> = ({ identity }) => (
+  <SettingsCard icon={<KeyRound size={20} className="text-emerald-500" />} title="Your Share Key">
+    <p className="text-xs text-slate-500 leading-relaxed">
+      Give this key to anyone who wants to send you items. It is public: it only lets them seal items that this vault alone can open. Read the fingerprint to them over another channel, such as a call, so they know the key is really yours.
+    </p>
+    <Fingerprint label="Fingerprint" value={identity.fingerprint} />
+    <CopyableText text={identity.shareKey} />
+  </SettingsCard>
+);
+
+const SendCard: React.FC<{ items: VaultItem[] }> = ({ items }) => {
+  const [recipientKey, setRecipientKey] = useState('');
+  const [recipientFingerprint, setRecipientFingerprint] = useState<string | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [filter, setFilter] = useState('');
+  const [envelope, setEnvelope] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setRecipientFingerprint(null);
+    if (!recipientKey.trim()) return;
+    try {
+      shareKeyFingerprint(parseShareKey(recipientKey)).then(setRecipientFingerprint);
+    } catch (e) {
+      // Shown as invalid below
+    }
+  }, [recipientKey]);
+
+  const visible = useMemo(() => {
+    const query = filter.trim().toLowerCase();
+    return query ? items.filter(i => i.title.toLowerCase().includes(query) || itemSubtitle(i).toLowerCase().includes(query)) : items;
+  }, [items, filter]);
+
+  const toggle = (id: string) => {
+    const next = new Set(selected);
+    if (next.has(id)) next.delete(id); else next.add(id);
+    setSelected(next);
+    setEnvelope(null);
+  };
+
+  const handleSeal = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      setEnvelope(await VaultService.sealItems(items.filter(i => selected.has(i.id)), recipientKey));
+    } catch (e) {
+      setError(e instanceof ShareError ? e.message : "The items could not be sealed.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDownload = () => {
+    if (!envelope) return;
+    const url = URL.createObjectURL(new Blob([envelope], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `cyber-dt-vault-share-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <SettingsCard icon={<Send size={20} className="text-emerald-500" />} title="Send Items">
+      <div className="space-y-2">
+        <label className="text-[10px] font-black text-slate-500 uppercase tracking-[0.25em] px-2">Recipient's Share Key</label>
+        <textarea rows={2} spellCheck={false} autoCapitalize="off" className={TEXTAREA_CLASS} placeholder="cdv-share-key-v1:…" value={recipientKey} onChange={e => { setRecipientKey(e.target.value); setEnvelope(null); }} />
+      </div>
+      {recipientFingerprint && (
+        <>
+          <Fingerprint label="Recipient fingerprint" value={recipientFingerprint} />
+          <p className="text-xs text-amber-400/80 leading-relaxed">Ask the recipient to read out their fingerprint. Only send if it matches, otherwise someone else may be able to open the items.</p>
+        </>
+      )}
+      {recipientKey.trim() && !recipientFingerprint && <p className="flex items-center gap-2 text-red-400 text-xs font-bold"><AlertCircle size={14} /> Not a valid share key</p>}
+
+      <input value={filter} onChange={e => setFilter(e.target.value)} placeholder="Filter items" className="w-full bg-slate-950 border-2 border-slate-800 rounded-2xl px-4 py-3 text-sm font-bold text-slate-300 outline-none focus:border-emerald-500/50 transition-colors" />
+      <div className="max-h-64 overflow-y-auto custom-scrollbar rounded-2xl border border-slate-800/50 divide-y divide-slate-800/50">
+        {visible.map(item => (
+          <label key={item.id} className="flex items-center gap-3 px-4 py-2.5 cursor-pointer hover:bg-slate-800/30 transition-colors">
+            <input type="checkbox" checked={selected.has(item.id)} onChange={() => toggle(item.id)} className="accent-emerald-500" />
+            <span className="text-sm font-bold text-slate-200 truncate">{item.title}</span>
+            <span className="text-[10px] text-slate-600 font-bold truncate ml-auto">{itemSubtitle(item)}</span>
+          </label>
+        ))}
+        {!visible.length && <p className="px-4 py-6 text-center text-xs text-slate-600 font-bold">No items</p>}
+      </div>
+      <p className="text-xs text-slate-500 leading-relaxed">Password history, folder and favorite stay in your vault; the recipient gets independent copies that do not follow later edits.</p>
+      {error && <p className="flex items-center gap-2 text-red-400 text-xs font-bold"><AlertCircle size={14} /> {error}</p>}
+
+      {envelope ? (
+        <>
+          <CopyableText text={envelope} rows={4} />
+          <button onClick={handleDownload} className="self-end px-5 py-3 rounded-2xl bg-slate-800 border border-slate-700 text-slate-300 font-black text-sm hover:bg-slate-700 transition-colors flex items-center gap-2">
+            <Download size={16} /> Download Envelope
+          </button>
+        </>
+      ) : (
+        <button disabled={busy || !recipientFingerprint || !selected.size} onClick={handleSeal} className="bg-emerald-600 disabled:opacity-20 py-4 rounded-2xl font-black text-white hover:bg-emerald-500 transition-colors flex items-center justify-center gap-2">
+          {busy ? <Loader2 className="animate-spin w-4 h-4" /> : `Seal ${selected.size} Item${selected.size === 1 ? '' : 's'}`}
+        </button>
+      )}
+    </SettingsCard>
+  );
+};
+
+const ReceiveCard: React.FC<{ onReceive: (items: VaultItem[]) => Promise<void> }> = ({ onReceive }) => {
+  const [text, setText] = useState('');
+  const [opened, setOpened] = useState<OpenedShare | null>(null);
+  const [verified, setVerified] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const open = async (contents: string) => {
+    setBusy(true);
+    setError(null);
+    setOpened(null);
+    setVerified(false);
+    try {
+      setOpened(await VaultService.openEnvelope(contents));
+    } catch (e) {
+      setError(e instanceof ShareError ? e.message : "The envelope could not be opened.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleAdd = async () => {
+    if (!opened) return;
+    setBusy(true);
+    try {
+      await onReceive(opened.items);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <SettingsCard icon={<Inbox size={20} className="text-emerald-500" />} title="Receive Items">
+      <textarea rows={3} spellCheck={false} autoCapitalize="off" className={TEXTAREA_CLASS} placeholder="Paste an envelope" value={text} onChange={e => { setText(e.target.value); setOpened(null); setError(null); }} />
+      <div className="flex gap-3">
+        <label className="flex-1 bg-slate-950 border-2 border-dashed border-slate-800 hover:border-emerald-500/50 rounded-2xl px-5 py-3 text-center cursor-pointer transition-all">
+          <span className="text-sm font-bold text-slate-400">Choose envelope file</span>
+          <input type="file" accept=".json,application/json" className="hidden" onChange={async (e) => { const file = e.target.files?.[0]; e.target.value = ''; if (file) open(await file.text()); }} />
+        </label>
+        <button disabled={busy || !text.trim()} onClick={() => open(text)} className="px-5 py-3 rounded-2xl bg-slate-800 border border-slate-700 text-slate-300 font-black text-sm disabled:opacity-20 hover:bg-slate-700 transition-colors">
+          Open
+        </button>
+      </div>
+      {error && <p className="flex items-center gap-2 text-red-400 text-xs font-bold"><AlertCircle size={14} /> {error}</p>}
+
+      {opened && (
+        <>
+          <Fingerprint label="Sender fingerprint" value={opened.senderFingerprint} />
+          <p className="text-[10px] text-slate-500 font-bold">Sealed {new Date(opened.createdAt).toLocaleString()}</p>
+          <div className="max-h-48 overflow-y-auto custom-scrollbar rounded-2xl border border-slate-800/50 divide-y divide-slate-800/50">
+            {opened.items.map(item => (
+              <div key={item.id} className="flex items-center gap-3 px-4 py-2.5">
+                <span className="text-sm font-bold text-slate-200 truncate">{item.title}</span>
+                <span className="text-[10px] text-slate-600 font-bold truncate ml-auto">{itemSubtitle(item)}</span>
+              </div>
+            ))}
+          </div>
+          <button onClick={() => setVerified(!verified)} className="flex items-center gap-3 px-4 py-3 rounded-2xl border border-slate-800 hover:border-slate-700 text-left transition-colors">
+            <span className={`w-5 h-5 rounded-md border-2 flex items-center justify-center shrink-0 ${verified ? 'bg-emerald-600 border-emerald-600' : 'border-slate-700'}`}>{verified && <Check size={12} className="text-white" />}</span>
+            <span className="text-sm font-bold text-slate-300">The sender read out this fingerprint to me and it matches</span>
+          </button>
+          <button disabled={busy || !verified} onClick={handleAdd} className="bg-emerald-600 disabled:opacity-20 py-4 rounded-2xl font-black text-white hover:bg-emerald-500 transition-colors flex items-center justify-center gap-2">
+            {busy ? <Loader2 className="animate-spin w-4 h-4" /> : `Add ${opened.items.length} Item${opened.items.length === 1 ? '' : 's'}`}
+          </button>
+        </>
+      )}
+    </SettingsCard>
+  );
+};
+
+const Fingerprint: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+  <div className="bg-slate-950/80 rounded-2xl px-4 py-3 border border-slate-800/30">
+    <p className="text-[10px] font-black text-slate-500 uppercase tracking-[0.25em] flex items-center gap-2"><ShieldCheck size={12} className="text-emerald-500" /> {label}</p>
+    <p className="mono text-sm font-bold text-emerald-400 mt-1 tracking-wider">{value}</p>
+  </div>
+);
+
+const CopyableText: React.FC<{ text: string; rows?: number }> = ({ text, rows = 2 }) => {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    await ClipboardService.copy(text);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="relative">
+      <textarea readOnly rows={rows} value={text} className={`${TEXTAREA_CLASS} pr-12 text-slate-400`} onFocus={e => e.target.select()} />
+      <button onClick={handleCopy} title="Copy" className="absolute top-2 right-2 p-2 text-slate-600 hover:text-white transition-colors">
+        {copied ? <Check size={14} className="text-emerald-500" /> : <Copy size={14} />}
+      </button>
+    </div>
+  );
+};
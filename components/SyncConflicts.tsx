@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { X, GitMerge, Loader2 } from 'lucide-react';
+import { VaultItem, itemSubtitle } from '../services/VaultItems';
+import { SyncConflict, ConflictChoice } from '../services/VaultService';
+import { formatRelativeTime } from './VaultItemCard';
+
+// Bookkeeping fields that differ on almost every edit and say nothing about the content
+const IGNORED_FIELDS = new Set(['id', 'updatedAt', 'lastUsedAt']);
+
+/** Names of the fields whose values differ, without revealing the values themselves. */
+function changedFields(a: VaultItem | null, b: VaultItem | null): string[] {
+  if (!a || !b) return [];
+  // Includes the fields of either kind; reading one the other item lacks gives undefined
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)] as (keyof VaultItem)[]);
+  return [...keys].filter(key => !IGNORED_FIELDS.has(key) && JSON.stringify(a[key]) !== JSON.stringify(b[key]));
+}
+
+export const SyncConflicts: React.FC<{ conflicts: SyncConflict[]; onResolve: (id: string, choice: ConflictChoice) => Promise<void>; onClose: () => void }> = ({ conflicts, onResolve, onClose }) => {
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const resolve = async (id: string, choice: ConflictChoice) => {
+    setBusyId(id);
+    try { await onResolve(id, choice); } finally { setBusyId(null); }
+  };
+
+  return (
+    <div className="flex flex-col gap-8 max-w-3xl mx-auto w-full animate-in slide-in-from-right-8 duration-400">
+      <div className="flex items-center justify-between border-b border-slate-800 pb-6">
+        <div>
+          <h2 className="text-2xl font-black text-white">Sync Conflicts</h2>
+          <p className="text-xs text-slate-500 mt-1">These items were changed here and on another device since the last sync. Choose which version to keep.</p>
+        </div>
+        <button onClick={onClose} className="w-10 h-10 bg-slate-800 rounded-xl flex items-center justify-center text-slate-400 hover:text-white transition-colors"><X size={20}/></button>
+      </div>
+
+      {conflicts.length === 0 ? (
+        <div className="h-48 border-2 border-dashed border-slate-800 rounded-[2rem] flex flex-col items-center justify-center opacity-40">
+          <GitMerge size={32} className="text-slate-600 mb-3" />
+          <p className="text-slate-400 font-black uppercase tracking-widest text-[10px]">All conflicts resolved</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {conflicts.map(conflict => {
+            const fields = changedFields(conflict.local, conflict.remote);
+            const busy = busyId === conflict.id;
+            return (
+              <div key={conflict.id} className="bg-slate-800/20 border border-slate-800/50 rounded-3xl p-5 space-y-4">
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  <ConflictSide label="This device" item={conflict.local} />
+                  <ConflictSide label="Other device" item={conflict.remote} />
+                </div>
+                {fields.length > 0 && <p className="text-[10px] text-slate-500 font-bold">Differs in: {fields.join(', ')}</p>}
+                <div className="flex flex-wrap justify-end gap-2">
+                  {busy && <Loader2 className="animate-spin w-4 h-4 text-emerald-500 self-center mr-auto" />}
+                  <ChoiceButton disabled={busy} onClick={() => resolve(conflict.id, 'local')}>Keep this device</ChoiceButton>
+                  <ChoiceButton disabled={busy} onClick={() => resolve(conflict.id, 'remote')}>Keep other device</ChoiceButton>
+                  {conflict.local && conflict.remote && <ChoiceButton disabled={busy} onClick={() => resolve(conflict.id, 'both')}>Keep both</ChoiceButton>}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const ConflictSide: React.FC<{ label: string; item: VaultItem | null }> = ({ label, item }) => (
+  <div className="bg-slate-950/60 border border-slate-800 rounded-2xl px-4 py-3 min-w-0">
+    <p className="text-[10px] font-black text-slate-500 uppercase tracking-[0.25em]">{label}</p>
+    {item ? (
+      <>
+        <p className="font-bold text-slate-200 truncate mt-1">{item.title}</p>
+        <p className="text-[10px] text-slate-600 font-bold truncate">{itemSubtitle(item)} · edited {formatRelativeTime(item.updatedAt)}</p>
+      </>
+    ) : (
+      <p className="font-bold text-red-400 mt-1">Deleted</p>
+    )}
+  </div>
+);
+
+const ChoiceButton: React.FC<{ disabled: boolean; onClick: () => void; children: React.ReactNode }> = ({ disabled, onClick, children }) => (
+  <button disabled={disabled} onClick={onClick} className="px-4 py-2.5 rounded-xl bg-slate-800 border border-slate-700 text-xs font-black text-slate-300 hover:text-emerald-400 hover:bg-slate-700 disabled:opacity-40 transition-colors">
+    {children}
+  </button>
+);
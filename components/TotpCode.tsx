@@ -0,0 +1,69 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Copy, Check, ShieldAlert } from 'lucide-react';
+import { TotpService, TotpConfig } from '../services/TotpService';
+import { ClipboardService } from '../services/ClipboardService';
+
+const RING_RADIUS = 9;
+const RING_CIRCUMFERENCE = 2 * Math.PI * RING_RADIUS;
+
+export const TotpCode: React.FC<{ secret: string; onCopy?: () => void }> = ({ secret, onCopy }) => {
+  const config = useMemo<TotpConfig | null>(() => {
+    try { return TotpService.parse(secret); } catch (e) { return null; }
+  }, [secret]);
+  const [now, setNow] = useState(Date.now());
+  const [code, setCode] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Only recompute when the time step rolls over, not on every tick
+  const step = config ? Math.floor(now / 1000 / config.period) : 0;
+  useEffect(() => {
+    if (!config) return;
+    let cancelled = false;
+    TotpService.generate(config, step * config.period * 1000).then(c => { if (!cancelled) setCode(c); });
+    return () => { cancelled = true; };
+  }, [config, step]);
+
+  if (!config) {
+    return (
+      <div className="flex items-center gap-2 text-amber-400 text-[10px] font-black uppercase tracking-widest px-2">
+        <ShieldAlert size={14} /> Invalid 2FA secret
+      </div>
+    );
+  }
+
+  const remaining = TotpService.secondsRemaining(config.period, now);
+  const half = config.digits / 2;
+
+  return (
+    <div className="bg-slate-950/80 rounded-2xl px-5 py-3 border border-slate-800/30 flex justify-between items-center">
+      <div className="flex items-center gap-3 min-w-0">
+        <svg width="24" height="24" viewBox="0 0 24 24" className="-rotate-90 shrink-0">
+          <circle cx="12" cy="12" r={RING_RADIUS} fill="none" strokeWidth="3" className="stroke-slate-800" />
+          <circle
+            cx="12" cy="12" r={RING_RADIUS} fill="none" strokeWidth="3" strokeLinecap="round"
+            className={`transition-all duration-1000 ease-linear ${remaining <= 5 ? 'stroke-red-400' : 'stroke-emerald-500'}`}
+            strokeDasharray={RING_CIRCUMFERENCE}
+            strokeDashoffset={RING_CIRCUMFERENCE * (1 - remaining / config.period)}
+          />
+        </svg>
+        <span className={`text-lg mono font-bold tracking-[0.2em] ${remaining <= 5 ? 'text-red-300' : 'text-emerald-400'}`}>
+          {code ? `${code.slice(0, half)} ${code.slice(half)}` : '••• •••'}
+        </span>
+        <span className="text-[10px] text-slate-600 font-black">{remaining}s</span>
+      </div>
+      <button
+        disabled={!code}
+        onClick={async () => { await ClipboardService.copy(code!); onCopy?.(); setCopied(true); setTimeout(() => setCopied(false), 2000); }}
+        className="text-slate-500 hover:text-emerald-400 p-2 bg-slate-900/50 rounded-xl transition-colors shrink-0"
+        title="Copy 2FA code"
+      >
+        {copied ? <Check size={16} className="text-emerald-500" /> : <Copy size={16} />}
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,126 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Camera, CameraOff, ImageUp, AlertCircle, KeyRound } from 'lucide-react';
+import { parseOtpQr, ScannedOtp, OtpImportError } from '../services/OtpImport';
+import { decodeQrFrom, readQrFromFile, QrImageError } from '../services/QrCodes';
+
+const SCAN_INTERVAL_MS = 250;
+
+/**
+ * Reads an authenticator QR code from the camera or an image file. A code
+ * with one account is picked straight away; a Google Authenticator export
+ * with several lists them to choose from.
+ */
+export const TotpScanner: React.FC<{ onPick: (otp: ScannedOtp) => void }> = ({ onPick }) => {
+  const [stream, setStream] = useState<MediaStream | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [accounts, setAccounts] = useState<ScannedOtp[] | null>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const lastText = useRef<string | null>(null);
+  // The scanning interval outlives renders; read the newest callback through a ref
+  const pick = useRef(onPick);
+  pick.current = onPick;
+
+  // Returns whether the text held usable accounts, so the camera can stop
+  const accept = (text: string): boolean => {
+    try {
+      const found = parseOtpQr(text);
+      setError(null);
+      if (found.length === 1) pick.current(found[0]);
+      else setAccounts(found);
+      return true;
+    } catch (e) {
+      setError(e instanceof OtpImportError ? e.message : "This QR code could not be read");
+      return false;
+    }
+  };
+
+  // Clearing the stream runs the effect cleanup below, which releases the camera
+  const stopCamera = () => setStream(null);
+
+  const startCamera = async () => {
+    setError(null);
+    setAccounts(null);
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setError("This browser cannot use the camera; upload a screenshot of the code instead");
+      return;
+    }
+    try {
+      setStream(await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' }, audio: false }));
+    } catch (e) {
+      setError("Camera access was denied or no camera is available");
+    }
+  };
+
+  // The camera stays on until a usable code shows up, the user turns it off or the scanner closes
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!stream || !video) return;
+    video.srcObject = stream;
+    video.play().catch(() => {});
+    const canvas = document.createElement('canvas');
+    lastText.current = null;
+    const timer = setInterval(() => {
+      if (video.readyState < video.HAVE_CURRENT_DATA) return;
+      const text = decodeQrFrom(video, video.videoWidth, video.videoHeight, canvas);
+      if (!text || text === lastText.current) return;
+      lastText.current = text;
+      if (accept(text)) setStream(null);
+    }, SCAN_INTERVAL_MS);
+    return () => {
+      clearInterval(timer);
+      video.srcObject = null;
+      stream.getTracks().forEach(track => track.stop());
+    };
+  }, [stream]);
+
+  const handleFile = async (file: File) => {
+    stopCamera();
+    setAccounts(null);
+    try {
+      const text = await readQrFromFile(file);
+      if (text) accept(text);
+      else setError("No QR code found in this image");
+    } catch (e) {
+      setError(e instanceof QrImageError ? e.message : "This image could not be scanned");
+    }
+  };
+
+  return (
+    <div className="bg-slate-950/60 border border-slate-800 rounded-3xl p-5 space-y-4">
+      <div className="flex gap-3">
+        <button onClick={stream ? stopCamera : startCamera} className={`flex-1 flex items-center justify-center gap-2 px-4 py-3 rounded-2xl border text-sm font-black transition-colors ${stream ? 'border-emerald-500/50 bg-emerald-500/5 text-emerald-400' : 'border-slate-700 bg-slate-800 text-slate-300 hover:bg-slate-700'}`}>
+          {stream ? <CameraOff size={16} /> : <Camera size={16} />} {stream ? 'Stop camera' : 'Scan with camera'}
+        </button>
+        <label className="flex-1 flex items-center justify-center gap-2 bg-slate-950 border-2 border-dashed border-slate-800 hover:border-emerald-500/50 rounded-2xl px-4 py-3 cursor-pointer transition-all">
+          <ImageUp size={16} className="text-slate-500" />
+          <span className="text-sm font-bold text-slate-400">Upload image</span>
+          <input type="file" accept="image/*" className="hidden" onChange={(e) => { const file = e.target.files?.[0]; e.target.value = ''; if (file) handleFile(file); }} />
+        </label>
+      </div>
+
+      {stream && (
+        <div className="relative overflow-hidden rounded-2xl border border-slate-800 bg-black">
+          <video ref={videoRef} muted playsInline className="w-full max-h-80 object-cover" />
+          <div className="absolute inset-0 m-auto w-48 h-48 border-2 border-emerald-500/60 rounded-2xl pointer-events-none" />
+        </div>
+      )}
+
+      {error && <p className="flex items-center gap-2 text-red-400 text-xs font-bold"><AlertCircle size={14} /> {error}</p>}
+
+      {accounts && (
+        <div className="space-y-2">
+          <p className="text-[10px] font-black text-slate-500 uppercase tracking-[0.25em] px-1">{accounts.length} accounts in this export · choose one</p>
+          {accounts.map((account, i) => (
+            <button key={i} onClick={() => onPick(account)} className="w-full flex items-center gap-3 p-3 rounded-2xl border border-slate-800 hover:border-emerald-500/50 text-left transition-colors">
+              <KeyRound size={16} className="text-emerald-500 shrink-0" />
+              <span className="min-w-0">
+                <span className="block text-sm font-bold text-slate-200 truncate">{account.issuer || 'Unnamed'}</span>
+                {account.account && <span className="block text-xs text-slate-500 truncate">{account.account}</span>}
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
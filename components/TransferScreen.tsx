@@ -0,0 +1,164 @@
+import React, { useState, useMemo } from 'react';
+import { X, FileUp, FileDown, Loader2, AlertCircle, AlertTriangle, Check } from 'lucide-react';
+import { VaultService, VaultItem } from '../services/VaultService';
+import { itemSubtitle, isActive } from '../services/VaultItems';
+import {
+  IMPORT_PARSERS, ImportParser, ImportPreviewRow, ImportFormatError, DuplicateStrategy, PlaintextFormat,
+  detectParser, previewImport, exportPlaintext
+} from '../services/interop';
+import { SettingsCard } from './SettingsScreen';
+import { InputGroup } from './InputGroup';
+
+/** `onImport` applies the rows to the items as last saved, not to the `items` the preview was made from. */
+export const TransferScreen: React.FC<{ items: VaultItem[]; onImport: (rows: ImportPreviewRow[], strategy: DuplicateStrategy) => Promise<void>; onClose: () => void }> = ({ items, onImport, onClose }) => {
+  return (
+    <div className="flex flex-col gap-8 max-w-3xl mx-auto w-full animate-in slide-in-from-right-8 duration-400">
+      <div className="flex items-center justify-between border-b border-slate-800 pb-6">
+        <h2 className="text-2xl font-black text-white">Import &amp; Export</h2>
+        <button onClick={onClose} className="w-10 h-10 bg-slate-800 rounded-xl flex items-center justify-center text-slate-400 hover:text-white transition-colors"><X size={20}/></button>
+      </div>
+      <ImportWizard items={items} onImport={async (rows, strategy) => { await onImport(rows, strategy); onClose(); }} />
+      <PlaintextExport items={items.filter(isActive)} />
+    </div>
+  );
+};
+
+const ImportWizard: React.FC<{ items: VaultItem[]; onImport: (rows: ImportPreviewRow[], strategy: DuplicateStrategy) => Promise<void> }> = ({ items, onImport }) => {
+  const [parser, setParser] = useState<ImportParser>(IMPORT_PARSERS[0]);
+  const [rows, setRows] = useState<ImportPreviewRow[] | null>(null);
+  const [strategy, setStrategy] = useState<DuplicateStrategy>('skip');
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const duplicates = useMemo(() => rows?.filter(r => r.duplicateOf).length ?? 0, [rows]);
+
+  const handleFile = async (file: File | undefined) => {
+    setError(null);
+    setRows(null);
+    if (!file) return;
+    const contents = await file.text();
+    const chosen = parser.detect(contents) ? parser : detectParser(contents) ?? parser;
+    setParser(chosen);
+    try {
+      const parsed = chosen.parse(contents);
+      if (!parsed.length) setError("No importable items were found in this file.");
+      else setRows(previewImport(items, parsed));
+    } catch (e) {
+      setError(e instanceof ImportFormatError ? e.message : "Could not read this file.");
+    }
+  };
+
+  const handleImport = async () => {
+    if (!rows) return;
+    setSaving(true);
+    try {
+      await onImport(rows, strategy);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <SettingsCard icon={<FileUp size={20} className="text-emerald-500" />} title="Import From Another Manager">
+      <div className="flex flex-wrap gap-2">
+        {IMPORT_PARSERS.map(p => (
+          <button key={p.id} onClick={() => { setParser(p); setRows(null); setError(null); }} className={`px-4 py-2 rounded-xl border text-xs font-black transition-colors ${p.id === parser.id ? 'border-emerald-500/50 bg-emerald-500/5 text-emerald-400' : 'border-slate-800 text-slate-500 hover:border-slate-700'}`}>
+            {p.label}
+          </button>
+        ))}
+      </div>
+      <label className="block w-full bg-slate-950 border-2 border-dashed border-slate-800 hover:border-emerald-500/50 rounded-2xl px-5 py-6 text-center cursor-pointer transition-all">
+        <span className="text-sm font-bold text-slate-400">Choose {parser.label} export</span>
+        <input type="file" accept={parser.accept} className="hidden" onChange={(e) => { handleFile(e.target.files?.[0]); e.target.value = ''; }} />
+      </label>
+      {error && <p className="flex items-center gap-2 text-red-400 text-xs font-bold"><AlertCircle size={14} /> {error}</p>}
+
+      {rows && (
+        <>
+          <div className="max-h-72 overflow-y-auto custom-scrollbar rounded-2xl border border-slate-800/50">
+            <table className="w-full text-left text-xs">
+              <thead className="bg-slate-950 text-[10px] font-black uppercase tracking-widest text-slate-500 sticky top-0">
+                <tr><th className="px-4 py-3">Title</th><th className="px-4 py-3">Details</th><th className="px-4 py-3">Status</th></tr>
+              </thead>
+              <tbody>
+                {rows.map((row, i) => (
+                  <tr key={i} className="border-t border-slate-800/50">
+                    <td className="px-4 py-2 text-slate-200 font-bold truncate max-w-[12rem]">{row.item.title}</td>
+                    <td className="px-4 py-2 text-slate-500 truncate max-w-[12rem]">{itemSubtitle(row.item)}</td>
+                    <td className="px-4 py-2">
+                      {row.duplicateOf
+                        ? <span className="text-amber-400 font-black uppercase text-[10px]">{strategy === 'merge' ? 'Update' : 'Skip'}</span>
+                        : <span className="text-emerald-500 font-black uppercase text-[10px]">New</span>}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {duplicates > 0 && (
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 bg-amber-500/5 border border-amber-500/10 rounded-2xl px-4 py-3">
+              <span className="flex items-center gap-2 text-amber-400 text-xs font-bold"><AlertTriangle size={14} /> {duplicates} already in your vault</span>
+              <div className="flex gap-2">
+                {(['skip', 'merge'] as DuplicateStrategy[]).map(s => (
+                  <button key={s} onClick={() => setStrategy(s)} className={`px-4 py-2 rounded-xl text-xs font-black uppercase transition-colors ${strategy === s ? 'bg-amber-500/20 text-amber-300' : 'text-slate-500 hover:text-slate-300'}`}>
+                    {s === 'skip' ? 'Skip' : 'Merge'}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+          <button disabled={saving} onClick={handleImport} className="bg-emerald-600 py-4 rounded-2xl font-black text-white hover:bg-emerald-500 transition-colors flex items-center justify-center gap-2">
+            {saving ? <Loader2 className="animate-spin w-4 h-4" /> : `Import ${rows.length - (strategy === 'skip' ? duplicates : 0)} Items`}
+          </button>
+        </>
+      )}
+    </SettingsCard>
+  );
+};
+
+const PlaintextExport: React.FC<{ items: VaultItem[] }> = ({ items }) => {
+  const [format, setFormat] = useState<PlaintextFormat>('csv');
+  const [pwd, setPwd] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [done, setDone] = useState(false);
+
+  const handleExport = async () => {
+    setBusy(true);
+    setError(null);
+    setDone(false);
+    const verified = await VaultService.verifyMasterPassword(pwd);
+    setPwd('');
+    setBusy(false);
+    if (!verified) {
+      setError("Master password is incorrect.");
+      return;
+    }
+    const url = URL.createObjectURL(new Blob([exportPlaintext(items, format)], { type: format === 'csv' ? 'text/csv' : 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `cyber-dt-vault-export-${new Date().toISOString().slice(0, 10)}.${format}`;
+    link.click();
+    URL.revokeObjectURL(url);
+    setDone(true);
+  };
+
+  return (
+    <SettingsCard icon={<FileDown size={20} className="text-red-400" />} title="Plaintext Export">
+      <p className="text-xs text-red-300/60 leading-relaxed italic">
+        The exported file is NOT encrypted. Anyone who can read it sees every password. Delete it as soon as you have imported it elsewhere.
+      </p>
+      <div className="flex gap-2">
+        {(['csv', 'json'] as PlaintextFormat[]).map(f => (
+          <button key={f} onClick={() => setFormat(f)} className={`px-4 py-2 rounded-xl border text-xs font-black uppercase transition-colors ${format === f ? 'border-red-500/50 bg-red-500/5 text-red-300' : 'border-slate-800 text-slate-500 hover:border-slate-700'}`}>{f}</button>
+        ))}
+      </div>
+      <InputGroup label="Confirm Master Password" val={pwd} set={setPwd} type="password" placeholder="Required to export" />
+      {error && <p className="flex items-center gap-2 text-red-400 text-xs font-bold"><AlertCircle size={14} /> {error}</p>}
+      {done && <p className="flex items-center gap-2 text-emerald-500 text-xs font-bold"><Check size={14} /> Export downloaded</p>}
+      <button disabled={!pwd || busy || !items.length} onClick={handleExport} className="bg-slate-800 border border-slate-700 py-4 rounded-2xl font-black text-red-300 disabled:opacity-20 hover:bg-slate-700 transition-colors flex items-center justify-center gap-2">
+        {busy ? <Loader2 className="animate-spin w-4 h-4" /> : `Export ${items.length} Items`}
+      </button>
+    </SettingsCard>
+  );
+};
@@ -0,0 +1,140 @@
+import React, { useState, useEffect, useMemo, useDeferredValue, useCallback } from 'react';
+import { Search, X, Star, Folder, FolderOpen, Tag, Shield, Layers, ChevronRight } from 'lucide-react';
+import { VaultItem } from '../services/VaultItems';
+import {
+  VaultFilter, SortOrder, FolderNode, EMPTY_FILTER, SORT_LABELS,
+  buildSearchIndex, filterItems, buildFolderTree, collectTags
+} from '../services/VaultSearch';
+import { VaultItemCard } from './VaultItemCard';
+import { VirtualGrid } from './VirtualGrid';
+
+export const VaultBrowser: React.FC<{
+  items: VaultItem[];
+  showPassword: Record<string, boolean>;
+  onToggleVisibility: (id: string) => void;
+  onCopy: (id: string) => void;
+  onEdit: (id: string) => void;
+  onToggleFavorite: (id: string) => void;
+  onDelete: (id: string) => void;
+  /** Item to scroll to and highlight, e.g. after picking it in the health report. */
+  focusId?: string | null;
+}> = ({ items, showPassword, onToggleVisibility, onCopy, onEdit, onToggleFavorite, onDelete, focusId = null }) => {
+  const [filter, setFilter] = useState<VaultFilter>(EMPTY_FILTER);
+  const patch = (changes: Partial<VaultFilter>) => setFilter(f => ({ ...f, ...changes }));
+
+  // The focused item must not be hidden by whatever filter was active before
+  useEffect(() => {
+    if (focusId) setFilter(f => ({ ...EMPTY_FILTER, sort: f.sort }));
+  }, [focusId]);
+
+  // Typing stays responsive while a large vault is re-filtered in the background
+  const deferredFilter = useDeferredValue(filter);
+  const index = useMemo(() => buildSearchIndex(items), [items]);
+  const visible = useMemo(() => filterItems(index, deferredFilter), [index, deferredFilter]);
+  const folders = useMemo(() => buildFolderTree(items), [items]);
+  const tags = useMemo(() => collectTags(items), [items]);
+  const favoriteCount = useMemo(() => items.filter(i => i.favorite).length, [items]);
+
+  const getKey = useCallback((item: VaultItem) => item.id, []);
+  const renderItem = (item: VaultItem) => (
+    <VaultItemCard
+      item={item}
+      isVisible={!!showPassword[item.id]}
+      highlighted={item.id === focusId}
+      toggle={() => onToggleVisibility(item.id)}
+      onCopy={() => onCopy(item.id)}
+      onEdit={() => onEdit(item.id)}
+      onToggleFavorite={() => onToggleFavorite(item.id)}
+      onDelete={() => onDelete(item.id)}
+    />
+  );
+
+  const isFiltered = filter.query || filter.folder || filter.tag || filter.favoritesOnly;
+
+  return (
+    <div className="flex flex-col lg:flex-row gap-6 min-h-0">
+      <aside className="lg:w-56 shrink-0 flex flex-col gap-6 lg:max-h-[calc(100vh-360px)] overflow-y-auto custom-scrollbar">
+        <div className="space-y-1">
+          <SidebarButton active={!filter.folder && !filter.tag && !filter.favoritesOnly} icon={<Layers size={14} />} label="All Items" count={items.length} onClick={() => patch({ folder: null, tag: null, favoritesOnly: false })} />
+          <SidebarButton active={filter.favoritesOnly} icon={<Star size={14} />} label="Favorites" count={favoriteCount} onClick={() => patch({ favoritesOnly: !filter.favoritesOnly })} />
+        </div>
+        {folders.length > 0 && (
+          <div className="space-y-1">
+            <p className="text-[10px] font-black text-slate-600 uppercase tracking-[0.25em] px-3 mb-2">Folders</p>
+            {folders.map(node => <FolderEntry key={node.path} node={node} depth={0} selected={filter.folder} onSelect={folder => patch({ folder: folder === filter.folder ? null : folder })} />)}
+          </div>
+        )}
+        {tags.length > 0 && (
+          <div>
+            <p className="text-[10px] font-black text-slate-600 uppercase tracking-[0.25em] px-3 mb-3">Tags</p>
+            <div className="flex flex-wrap gap-1.5 px-1">
+              {tags.map(({ tag, count }) => (
+                <button key={tag} onClick={() => patch({ tag: tag === filter.tag ? null : tag })} className={`flex items-center gap-1 px-2.5 py-1.5 rounded-lg text-[11px] font-bold transition-colors ${filter.tag === tag ? 'bg-emerald-500/15 text-emerald-400' : 'bg-slate-900/60 text-slate-500 hover:text-slate-300'}`}>
+                  <Tag size={10} /> {tag} <span className="text-slate-600">{count}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+      </aside>
+
+      <div className="flex-1 min-w-0 flex flex-col gap-4">
+        <div className="flex flex-col sm:flex-row gap-3">
+          <div className="relative flex-1">
+            <Search size={16} className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-600 pointer-events-none" />
+            <input
+              type="search"
+              autoFocus
+              className="w-full bg-slate-950 border-2 border-slate-800 rounded-2xl pl-11 pr-10 py-3 outline-none focus:border-emerald-500/50 transition-all text-slate-100 placeholder:text-slate-700 text-sm font-bold"
+              placeholder="Search title, username, URL or tag..."
+              value={filter.query}
+              onChange={e => patch({ query: e.target.value })}
+              onKeyDown={e => { if (e.key === 'Escape') patch({ query: '' }); }}
+            />
+            {filter.query && <button onClick={() => patch({ query: '' })} className="absolute right-3 top-1/2 -translate-y-1/2 p-1 text-slate-600 hover:text-slate-300"><X size={14} /></button>}
+          </div>
+          <select value={filter.sort} onChange={e => patch({ sort: e.target.value as SortOrder })} className="bg-slate-950 border-2 border-slate-800 rounded-2xl px-4 py-3 text-xs font-black uppercase tracking-widest text-slate-400 outline-none">
+            {(Object.keys(SORT_LABELS) as SortOrder[]).map(s => <option key={s} value={s}>{SORT_LABELS[s]}</option>)}
+          </select>
+        </div>
+        {isFiltered && (
+          <p className="text-[10px] font-black text-slate-600 uppercase tracking-[0.25em] px-2">
+            {visible.length} of {items.length} items
+            {filter.folder && <> in <span className="text-slate-400">{filter.folder}</span></>}
+            {filter.tag && <> tagged <span className="text-emerald-500">{filter.tag}</span></>}
+          </p>
+        )}
+        {visible.length === 0 ? (
+          <div className="h-72 border-2 border-dashed border-slate-800 rounded-[2rem] flex flex-col items-center justify-center opacity-40">
+            <Shield size={40} className="text-slate-600 mb-4" />
+            <p className="text-slate-400 font-black uppercase tracking-widest text-[10px]">No records found</p>
+          </div>
+        ) : (
+          <VirtualGrid items={visible} getKey={getKey} renderItem={renderItem} scrollToKey={focusId} className="h-[calc(100vh-440px)] min-h-[320px] pb-6" />
+        )}
+      </div>
+    </div>
+  );
+};
+
+const SidebarButton: React.FC<{ active: boolean; icon: React.ReactNode; label: string; count: number; onClick: () => void; indent?: number }> = ({ active, icon, label, count, onClick, indent = 0 }) => (
+  <button onClick={onClick} style={{ paddingLeft: 12 + indent * 14 }} className={`w-full flex items-center gap-2 pr-3 py-2 rounded-xl text-sm font-bold transition-colors ${active ? 'bg-emerald-500/10 text-emerald-400' : 'text-slate-500 hover:text-slate-300 hover:bg-slate-900/60'}`}>
+    {icon}
+    <span className="truncate flex-1 text-left">{label}</span>
+    <span className="text-[10px] text-slate-600">{count}</span>
+  </button>
+);
+
+const FolderEntry: React.FC<{ node: FolderNode; depth: number; selected: string | null; onSelect: (path: string) => void }> = ({ node, depth, selected, onSelect }) => {
+  const isOpen = !!selected && (selected === node.path || selected.startsWith(node.path + '/'));
+  const icon = node.children.length
+    ? <ChevronRight size={14} className={`transition-transform ${isOpen ? 'rotate-90' : ''}`} />
+    : isOpen ? <FolderOpen size={14} /> : <Folder size={14} />;
+
+  return (
+    <>
+      <SidebarButton active={selected === node.path} icon={icon} label={node.name} count={node.count} indent={depth} onClick={() => onSelect(node.path)} />
+      {isOpen && node.children.map(child => <FolderEntry key={child.path} node={child} depth={depth + 1} selected={selected} onSelect={onSelect} />)}
+    </>
+  );
+};
@@ -0,0 +1,191 @@
+import React, { memo, useState } from 'react';
+import { Key, StickyNote, CreditCard, IdCard, Trash2, Eye, EyeOff, Link, Pencil, Star, Folder, Tag, Copy, Check } from 'lucide-react';
+import { VaultItem, VaultItemKind, CustomField, LoginItem, NoteItem, CardItem, IdentityItem, itemSubtitle } from '../services/VaultItems';
+import { TotpCode } from './TotpCode';
+import { ClipboardService } from '../services/ClipboardService';
+
+const KIND_ICONS: Record<VaultItemKind, React.FC<{ size?: number; className?: string }>> = {
+  login: Key,
+  note: StickyNote,
+  card: CreditCard,
+  identity: IdCard
+};
+
+const MASK = '••••••••';
+
+// Memoized individual item for maximum list performance
+export const VaultItemCard = memo(({ item, isVisible, highlighted = false, toggle, onCopy, onEdit, onToggleFavorite, onDelete }: {
+  item: VaultItem,
+  isVisible: boolean,
+  /** Set while another screen (e.g. the health report) has navigated to this item. */
+  highlighted?: boolean,
+  toggle: () => void,
+  onCopy: () => void,
+  onEdit: () => void,
+  onToggleFavorite: () => void,
+  onDelete: () => void
+}) => {
+  const Icon = KIND_ICONS[item.kind];
+  return (
+    <div className={`bg-slate-800/20 border p-6 rounded-3xl hover:border-emerald-500/30 group relative transition-all duration-300 transform hover:-translate-y-1 ${highlighted ? 'border-emerald-500/60 ring-2 ring-emerald-500/30' : 'border-slate-800/50'}`}>
+      <div className="absolute top-4 right-4 flex gap-2">
+        <button onClick={onToggleFavorite} title={item.favorite ? "Remove from favorites" : "Add to favorites"} className={`p-2 bg-slate-900/50 rounded-xl border border-slate-800/50 transition-colors ${item.favorite ? 'text-amber-400' : 'text-slate-600 hover:text-amber-400'}`}>
+          <Star size={16} fill={item.favorite ? 'currentColor' : 'none'} />
+        </button>
+        <button onClick={onEdit} title="Edit" className="p-2 text-slate-600 hover:text-emerald-400 bg-slate-900/50 rounded-xl border border-slate-800/50 transition-colors">
+          <Pencil size={16} />
+        </button>
+        <button onClick={onDelete} title="Move to recycle bin" className="p-2 text-slate-600 hover:text-red-400 bg-slate-900/50 rounded-xl border border-slate-800/50 transition-colors">
+          <Trash2 size={16} />
+        </button>
+      </div>
+      <div className="flex items-start gap-4 mb-6">
+        <div className="w-12 h-12 bg-slate-950 rounded-2xl flex items-center justify-center shrink-0 border border-slate-800"><Icon size={24} className="text-emerald-500" /></div>
+        <div className="min-w-0 pr-32">
+          <h3 className="font-bold text-lg text-slate-100 truncate">{item.title}</h3>
+          <p className="text-xs text-slate-500 mt-0.5 truncate">{itemSubtitle(item)}</p>
+        </div>
+      </div>
+      <div className="space-y-3">
+        {item.kind === 'login' && <LoginBody item={item} isVisible={isVisible} toggle={toggle} onCopy={onCopy} />}
+        {item.kind === 'note' && <NoteBody item={item} isVisible={isVisible} toggle={toggle} onCopy={onCopy} />}
+        {item.kind === 'card' && <CardBody item={item} isVisible={isVisible} toggle={toggle} onCopy={onCopy} />}
+        {item.kind === 'identity' && <IdentityBody item={item} onCopy={onCopy} />}
+        <CustomFieldRows fields={item.customFields} isVisible={isVisible} toggle={toggle} onCopy={onCopy} />
+      </div>
+      {(item.folder || item.tags.length > 0) && (
+        <div className="flex flex-wrap gap-1.5 mt-4 px-1">
+          {item.folder && <span className="flex items-center gap-1 px-2 py-1 rounded-lg bg-slate-900/60 text-[10px] font-bold text-slate-500"><Folder size={10} /> {item.folder}</span>}
+          {item.tags.map(tag => <span key={tag} className="flex items-center gap-1 px-2 py-1 rounded-lg bg-emerald-500/5 text-[10px] font-bold text-emerald-600"><Tag size={10} /> {tag}</span>)}
+        </div>
+      )}
+      <p className="mt-4 px-2 text-[9px] font-black text-slate-700 uppercase tracking-[0.2em]" title={`Created ${new Date(item.createdAt).toLocaleString()}`}>
+        Modified {formatRelativeTime(item.updatedAt)}
+      </p>
+    </div>
+  );
+});
+
+const RELATIVE_UNITS: [Intl.RelativeTimeFormatUnit, number][] = [
+  ['year', 365 * 24 * 3600], ['month', 30 * 24 * 3600], ['day', 24 * 3600], ['hour', 3600], ['minute', 60]
+];
+
+export function formatRelativeTime(timestamp: number, now: number = Date.now()): string {
+  const seconds = Math.round((timestamp - now) / 1000);
+  const format = new Intl.RelativeTimeFormat(undefined, { numeric: 'auto' });
+  for (const [unit, size] of RELATIVE_UNITS) {
+    if (Math.abs(seconds) >= size) return format.format(Math.round(seconds / size), unit);
+  }
+  return 'just now';
+}
+
+interface BodyProps<T> {
+  item: T;
+  isVisible: boolean;
+  toggle: () => void;
+  onCopy: () => void;
+}
+
+const LoginBody: React.FC<BodyProps<LoginItem>> = ({ item, isVisible, toggle, onCopy }) => (
+  <>
+    {item.username && <PlainRow label="Username" value={item.username} onCopy={onCopy} />}
+    <SecretRow value={item.password} isVisible={isVisible} toggle={toggle} onCopy={onCopy} />
+    {item.totp && <TotpCode secret={item.totp} onCopy={onCopy} />}
+    {item.url && <LinkRow href={item.url} />}
+  </>
+);
+
+const NoteBody: React.FC<BodyProps<NoteItem>> = ({ item, isVisible, toggle, onCopy }) => (
+  <div className="bg-slate-950/80 rounded-2xl px-5 py-4 border border-slate-800/30 flex justify-between items-start gap-2 group-hover:bg-slate-950 transition-colors">
+    <p className={`text-sm text-slate-300 whitespace-pre-wrap break-words line-clamp-4 ${isVisible ? '' : 'blur-sm select-none'}`}>{item.notes}</p>
+    <div className="flex shrink-0">
+      <CopyButton value={item.notes} onCopy={onCopy} />
+      <VisibilityButton isVisible={isVisible} toggle={toggle} />
+    </div>
+  </div>
+);
+
+const CardBody: React.FC<BodyProps<CardItem>> = ({ item, isVisible, toggle, onCopy }) => (
+  <>
+    <SecretRow value={item.number} isVisible={isVisible} toggle={toggle} onCopy={onCopy} />
+    <div className="grid grid-cols-2 gap-3">
+      <PlainRow label="Expiry" value={item.expiry || '—'} onCopy={item.expiry ? onCopy : undefined} />
+      <PlainRow label="CVV" value={isVisible ? item.cvv || '—' : '•••'} copyValue={item.cvv} onCopy={item.cvv ? onCopy : undefined} />
+    </div>
+  </>
+);
+
+const IdentityBody: React.FC<{ item: IdentityItem; onCopy: () => void }> = ({ item, onCopy }) => (
+  <>
+    <PlainRow label="Name" value={item.fullName} onCopy={onCopy} />
+    {item.phone && <PlainRow label="Phone" value={item.phone} onCopy={onCopy} />}
+    {item.address && <PlainRow label="Address" value={item.address} onCopy={onCopy} />}
+  </>
+);
+
+const CustomFieldRows: React.FC<{ fields: CustomField[]; isVisible: boolean; toggle: () => void; onCopy: () => void }> = ({ fields, isVisible, toggle, onCopy }) => (
+  <>
+    {fields.map(field => {
+      if (field.type === 'url') return <LinkRow key={field.id} label={field.label} href={field.value} />;
+      if (field.type === 'hidden') return <SecretRow key={field.id} label={field.label} value={field.value} isVisible={isVisible} toggle={toggle} onCopy={onCopy} />;
+      return <PlainRow key={field.id} label={field.label} value={field.value} onCopy={onCopy} />;
+    })}
+  </>
+);
+
+const SecretRow: React.FC<{ label?: string; value: string; isVisible: boolean; toggle: () => void; onCopy: () => void }> = ({ label, value, isVisible, toggle, onCopy }) => (
+  <div className="bg-slate-950/80 rounded-2xl px-5 py-4 border border-slate-800/30 flex justify-between items-center group-hover:bg-slate-950 transition-colors">
+    <div className="min-w-0">
+      {label && <p className="text-[9px] font-black text-slate-600 uppercase tracking-[0.25em] mb-1 truncate">{label}</p>}
+      <p className="text-base mono text-slate-300 tracking-[0.25em] font-bold truncate pr-2">{isVisible ? value : MASK}</p>
+    </div>
+    <div className="flex shrink-0">
+      <CopyButton value={value} onCopy={onCopy} />
+      <VisibilityButton isVisible={isVisible} toggle={toggle} />
+    </div>
+  </div>
+);
+
+// copyValue lets a masked row copy the real value behind the mask
+const PlainRow: React.FC<{ label: string; value: string; copyValue?: string; onCopy?: () => void }> = ({ label, value, copyValue = value, onCopy }) => (
+  <div className="bg-slate-950/50 rounded-2xl px-5 py-3 border border-slate-800/30 min-w-0 flex justify-between items-center gap-2">
+    <div className="min-w-0">
+      <p className="text-[9px] font-black text-slate-600 uppercase tracking-[0.25em] mb-1 truncate">{label}</p>
+      <p className="text-sm text-slate-300 font-bold truncate">{value}</p>
+    </div>
+    {onCopy && <CopyButton value={copyValue} onCopy={onCopy} small />}
+  </div>
+);
+
+const CopyButton: React.FC<{ value: string; onCopy: () => void; small?: boolean }> = ({ value, onCopy, small }) => {
+  const [copied, setCopied] = useState(false);
+  const handleCopy = async () => {
+    await ClipboardService.copy(value);
+    onCopy();
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+  return (
+    <button onClick={handleCopy} title="Copy" className={`text-slate-500 hover:text-emerald-400 bg-slate-900/50 rounded-xl transition-colors shrink-0 ${small ? 'p-1.5' : 'p-2 mr-1'}`}>
+      {copied ? <Check size={small ? 14 : 18} className="text-emerald-500" /> : <Copy size={small ? 14 : 18} />}
+    </button>
+  );
+};
+
+const LinkRow: React.FC<{ label?: string; href: string }> = ({ label, href }) => {
+  // Only follow web links; anything else (javascript:, data:) is shown as text
+  const safe = /^https?:\/\//i.test(href);
+  return (
+    <div className="flex items-center gap-2 px-2 text-xs text-slate-500 min-w-0">
+      <Link size={12} className="shrink-0" />
+      {label && <span className="font-black uppercase tracking-widest text-[9px] text-slate-600 shrink-0">{label}</span>}
+      {safe ? <a href={href} target="_blank" rel="noopener noreferrer" className="truncate hover:text-emerald-400 transition-colors">{href}</a> : <span className="truncate">{href}</span>}
+    </div>
+  );
+};
+
+const VisibilityButton: React.FC<{ isVisible: boolean; toggle: () => void }> = ({ isVisible, toggle }) => (
+  <button onClick={toggle} className="text-slate-500 hover:text-emerald-400 p-2 bg-slate-900/50 rounded-xl transition-colors shrink-0">
+    {isVisible ? <EyeOff size={18} /> : <Eye size={18} />}
+  </button>
+);
@@ -0,0 +1,120 @@
+import React, { useState, useRef, useEffect, useLayoutEffect, useMemo, useCallback } from 'react';
+
+// Rows rendered beyond the viewport in each direction, in pixels
+const OVERSCAN_PX = 600;
+const GAP_PX = 24;
+
+/**
+ * Windowed grid: only the rows near the viewport are mounted. Row heights are
+ * estimated until a row has rendered once, then measured, so cards of
+ * different kinds can have different heights.
+ */
+export function VirtualGrid<T>({ items, getKey, renderItem, scrollToKey = null, minColumnWidth = 300, maxColumns = 3, estimatedRowHeight = 260, className = '' }: {
+  items: T[];
+  getKey: (item: T) => string;
+  /** Scrolls the row holding this item into view once it is in `items`. */
+  scrollToKey?: string | null;
+  renderItem: (item: T) => React.ReactNode;
+  minColumnWidth?: number;
+  maxColumns?: number;
+  estimatedRowHeight?: number;
+  className?: string;
+}) {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [viewport, setViewport] = useState({ width: 0, height: 0 });
+  const [scrollTop, setScrollTop] = useState(0);
+  const [heights, setHeights] = useState<Map<string, number>>(() => new Map());
+
+  useLayoutEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(() => setViewport({ width: el.clientWidth, height: el.clientHeight }));
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  const columns = Math.max(1, Math.min(maxColumns, Math.floor((viewport.width + GAP_PX) / (minColumnWidth + GAP_PX))));
+
+  const rows = useMemo(() => {
+    const result: { key: string; items: T[] }[] = [];
+    for (let i = 0; i < items.length; i += columns) {
+      const rowItems = items.slice(i, i + columns);
+      result.push({ key: `${columns}:${rowItems.map(getKey).join('|')}`, items: rowItems });
+    }
+    return result;
+  }, [items, columns, getKey]);
+
+  const offsets = useMemo(() => {
+    const result = new Array<number>(rows.length + 1);
+    result[0] = 0;
+    rows.forEach((row, i) => { result[i + 1] = result[i] + (heights.get(row.key) ?? estimatedRowHeight) + GAP_PX; });
+    return result;
+  }, [rows, heights, estimatedRowHeight]);
+
+  // A new filter can leave the old scroll position past the end of the list
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (el && el.scrollTop > offsets[rows.length]) el.scrollTop = 0;
+  }, [offsets, rows.length]);
+
+  const scrolledTo = useRef<string | null>(null);
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (!scrollToKey) scrolledTo.current = null;
+    if (!el || !scrollToKey || scrolledTo.current === scrollToKey || !viewport.width) return;
+    const row = rows.findIndex(r => r.items.some(item => getKey(item) === scrollToKey));
+    if (row < 0) return;
+    scrolledTo.current = scrollToKey;
+    el.scrollTop = offsets[row];
+  }, [scrollToKey, rows, offsets, getKey, viewport.width]);
+
+  const first = Math.max(0, lastOffsetBelow(offsets, scrollTop - OVERSCAN_PX));
+  let last = first;
+  while (last < rows.length && offsets[last] < scrollTop + viewport.height + OVERSCAN_PX) last++;
+
+  const onMeasure = useCallback((key: string, height: number) => {
+    setHeights(prev => prev.get(key) === height ? prev : new Map(prev).set(key, height));
+  }, []);
+
+  return (
+    <div ref={scrollRef} onScroll={e => setScrollTop(e.currentTarget.scrollTop)} className={`overflow-y-auto custom-scrollbar ${className}`}>
+      <div className="relative" style={{ height: Math.max(0, offsets[rows.length] - GAP_PX) }}>
+        {rows.slice(first, last).map((row, i) => (
+          <MeasuredRow key={row.key} rowKey={row.key} top={offsets[first + i]} columns={columns} onMeasure={onMeasure}>
+            {row.items.map(item => <React.Fragment key={getKey(item)}>{renderItem(item)}</React.Fragment>)}
+          </MeasuredRow>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+const MeasuredRow: React.FC<{ rowKey: string; top: number; columns: number; onMeasure: (key: string, height: number) => void; children: React.ReactNode }> = ({ rowKey, top, columns, onMeasure, children }) => {
+  const ref = useRef<HTMLDivElement>(null);
+
+  useLayoutEffect(() => {
+    const el = ref.current;
+    if (!el) return;
+    const observer = new ResizeObserver(() => onMeasure(rowKey, el.offsetHeight));
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, [rowKey, onMeasure]);
+
+  return (
+    <div ref={ref} className="absolute inset-x-0 grid" style={{ top, gap: GAP_PX, gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))` }}>
+      {children}
+    </div>
+  );
+};
+
+/** Index of the last row starting at or above `y` (binary search over the offsets). */
+function lastOffsetBelow(offsets: number[], y: number): number {
+  let lo = 0;
+  let hi = offsets.length - 2;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (offsets[mid] <= y) lo = mid;
+    else hi = mid - 1;
+  }
+  return lo;
+}
@@ -0,0 +1,220 @@
+/**
+ * Reference sync server. Stores one JSON file per vault with the wrapped key
+ * slots, the SHA-256 of the vault's bearer token and the latest ciphertext of
+ * every item. It never sees a password, key or plaintext item.
+ *
+ * Run with Node 22.6 or later:
+ *   node --experimental-strip-types server/syncServer.ts
+ * Environment: SYNC_PORT (8787), SYNC_DATA_DIR (./sync-data),
+ * SYNC_ALLOWED_ORIGIN (*).
+ */
+
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { createHash, timingSafeEqual } from 'node:crypto';
+import { mkdir, readFile, writeFile, rename, rm } from 'node:fs/promises';
+import { join } from 'node:path';
+import {
+  SYNC_API_PREFIX, SYNC_ID_PATTERN,
+  type SyncSlots, type VersionedSlots, type SyncRecord, type RegisterRequest, type SlotsResponse, type PullResponse, type PushRequest, type PushResponse
+} from '../services/SyncProtocol.ts';
+
+const PORT = Number(process.env.SYNC_PORT ?? 8787);
+const DATA_DIR = process.env.SYNC_DATA_DIR ?? './sync-data';
+const ALLOWED_ORIGIN = process.env.SYNC_ALLOWED_ORIGIN ?? '*';
+const MAX_BODY_BYTES = 32 * 1024 * 1024;
+
+interface StoredVault {
+  tokenHash: string;
+  slots: SyncSlots;
+  slotsRev: number;
+  slotsMac: string;
+  seq: number;
+  records: Record<string, SyncRecord>;
+}
+
+class HttpError extends Error {
+  status: number;
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+  }
+}
+
+// Requests for the same vault run one after another, so a push never interleaves with another push
+const queues = new Map<string, Promise<unknown>>();
+
+function serialized<T>(syncId: string, task: () => Promise<T>): Promise<T> {
+  const run = (queues.get(syncId) ?? Promise.resolve()).then(task, task);
+  queues.set(syncId, run.catch(() => undefined));
+  return run;
+}
+
+const vaultFile = (syncId: string) => join(DATA_DIR, `${syncId}.json`);
+
+async function loadVault(syncId: string): Promise<StoredVault> {
+  try {
+    return JSON.parse(await readFile(vaultFile(syncId), 'utf8'));
+  } catch (e) {
+    if (e instanceof Error && 'code' in e && e.code === 'ENOENT') throw new HttpError(404, 'Unknown vault');
+    throw e;
+  }
+}
+
+// Write to a temporary file and rename over the old one, so a crash never leaves half a vault
+async function saveVault(syncId: string, vault: StoredVault): Promise<void> {
+  const tmp = `${vaultFile(syncId)}.tmp`;
+  await writeFile(tmp, JSON.stringify(vault));
+  await rename(tmp, vaultFile(syncId));
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function bearerToken(req: IncomingMessage): string {
+  const match = /^Bearer (\S+)$/.exec(req.headers.authorization ?? '');
+  if (!match) throw new HttpError(401, 'Missing bearer token');
+  return match[1];
+}
+
+function authorize(req: IncomingMessage, vault: StoredVault): void {
+  const given = Buffer.from(hashToken(bearerToken(req)), 'hex');
+  const expected = Buffer.from(vault.tokenHash, 'hex');
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) throw new HttpError(403, 'Invalid token');
+}
+
+async function readJson<T>(req: IncomingMessage): Promise<T> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, 'Request too large');
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch (e) {
+    throw new HttpError(400, 'Body is not valid JSON');
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+function isSlots(value: unknown): value is SyncSlots {
+  const isSlot = (s: unknown) => isObject(s) && typeof s.salt === 'string' && typeof s.vmk === 'string' && (s.kdf === null || typeof s.kdf === 'string');
+  return isObject(value) && isSlot(value.master) && isSlot(value.recovery);
+}
+
+function versionedSlots(vault: StoredVault): VersionedSlots {
+  return { rev: vault.slotsRev, slots: vault.slots, mac: vault.slotsMac };
+}
+
+async function register(req: IncomingMessage, syncId: string): Promise<object> {
+  const token = bearerToken(req);
+  const body = await readJson<RegisterRequest>(req);
+  if (!isSlots(body.slots) || typeof body.mac !== 'string') throw new HttpError(400, 'Missing key slots');
+  try {
+    await loadVault(syncId);
+    throw new HttpError(409, 'Vault already exists');
+  } catch (e) {
+    if (!(e instanceof HttpError) || e.status !== 404) throw e;
+  }
+  await saveVault(syncId, { tokenHash: hashToken(token), slots: body.slots, slotsRev: 1, slotsMac: body.mac, seq: 0, records: {} });
+  return {};
+}
+
+async function pull(req: IncomingMessage, syncId: string, since: number): Promise<PullResponse> {
+  const vault = await loadVault(syncId);
+  authorize(req, vault);
+  const records = Object.values(vault.records).filter(r => r.seq > since).sort((a, b) => a.seq - b.seq);
+  return { seq: vault.seq, records, slots: versionedSlots(vault) };
+}
+
+async function push(req: IncomingMessage, syncId: string): Promise<PushResponse> {
+  const vault = await loadVault(syncId);
+  authorize(req, vault);
+  const body = await readJson<PushRequest>(req);
+  if (!Array.isArray(body.changes)) throw new HttpError(400, 'Missing changes');
+  const accepted: PushResponse['accepted'] = [];
+  const rejected: string[] = [];
+  for (const change of body.changes) {
+    if (typeof change?.id !== 'string' || !Number.isInteger(change.baseRev) || typeof change.data !== 'string') throw new HttpError(400, 'Malformed change');
+    const current = vault.records[change.id]?.rev ?? 0;
+    if (change.baseRev !== current) {
+      rejected.push(change.id);
+      continue;
+    }
+    const record = { id: change.id, rev: current + 1, seq: ++vault.seq, data: change.data };
+    vault.records[change.id] = record;
+    accepted.push({ id: record.id, rev: record.rev });
+  }
+  let slotsRejected = false;
+  if (body.slots !== undefined) {
+    if (!isObject(body.slots)) throw new HttpError(400, 'Malformed key slots');
+    const { baseRev, slots, mac } = body.slots;
+    if (!Number.isInteger(baseRev) || !isSlots(slots) || typeof mac !== 'string') throw new HttpError(400, 'Malformed key slots');
+    if (baseRev === vault.slotsRev) {
+      vault.slots = slots;
+      vault.slotsRev = baseRev + 1;
+      vault.slotsMac = mac;
+    } else {
+      slotsRejected = true;
+    }
+  }
+  await saveVault(syncId, vault);
+  return { seq: vault.seq, accepted, rejected, slotsRejected };
+}
+
+async function remove(req: IncomingMessage, syncId: string): Promise<object> {
+  authorize(req, await loadVault(syncId));
+  await rm(vaultFile(syncId));
+  return {};
+}
+
+async function route(req: IncomingMessage): Promise<object> {
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  const match = new RegExp(`^${SYNC_API_PREFIX}/([^/]+)(/slots|/changes)?$`).exec(url.pathname);
+  if (!match) throw new HttpError(404, 'Not found');
+  const [, syncId, resource = ''] = match;
+  if (!SYNC_ID_PATTERN.test(syncId)) throw new HttpError(400, 'Invalid sync id');
+
+  return serialized(syncId, async () => {
+    switch (`${req.method} ${resource}`) {
+      case 'PUT ': return register(req, syncId);
+      case 'DELETE ': return remove(req, syncId);
+      // Slots are readable without the token: a new device needs them to derive it, and they are password-wrapped
+      case 'GET /slots': return versionedSlots(await loadVault(syncId)) satisfies SlotsResponse;
+      case 'GET /changes': return pull(req, syncId, Number(url.searchParams.get('since') ?? 0) || 0);
+      case 'POST /changes': return push(req, syncId);
+      default: throw new HttpError(405, 'Method not allowed');
+    }
+  });
+}
+
+function send(res: ServerResponse, status: number, body?: object): void {
+  res.writeHead(status, {
+    'Access-Control-Allow-Origin': ALLOWED_ORIGIN,
+    'Access-Control-Allow-Methods': 'GET, PUT, POST, DELETE, OPTIONS',
+    'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+    'Access-Control-Max-Age': '600',
+    ...(body && { 'Content-Type': 'application/json' })
+  });
+  res.end(body && JSON.stringify(body));
+}
+
+const server = createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') return send(res, 204);
+  try {
+    send(res, 200, await route(req));
+  } catch (e) {
+    if (e instanceof HttpError) return send(res, e.status, { error: e.message });
+    console.error(e);
+    send(res, 500, { error: 'Internal error' });
+  }
+});
+
+await mkdir(DATA_DIR, { recursive: true });
+server.listen(PORT, () => console.log(`Sync server listening on :${PORT}, data in ${DATA_DIR}`));
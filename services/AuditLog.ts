@@ -0,0 +1,138 @@
+import { VaultItem } from './VaultItems';
+import { UnlockMethod, FailedAttempt } from './ThrottleService';
+import { onlyUseDiffers } from './SyncMerge';
+
+/**
+ * Append-only record of what happened to a vault: unlocks and failed
+ * attempts, password and recovery key changes, and every item change. Each
+ * entry is its own record, encrypted under a VMK-derived key with the vault
+ * id and sequence number as AAD. An HMAC chain over the records, whose end is
+ * kept in the log head, shows when an entry was removed, altered or reordered.
+ * The head itself is stored as is, so restoring an older head with its records
+ * cuts off the newest entries unnoticed; as with the manifest counter (see
+ * VaultManifest), only a count lower than one seen this session is caught.
+ *
+ * Entries are only ever added; nothing in the app edits or deletes them. The
+ * log belongs to the dataset it describes, so a decoy opened with the duress
+ * password keeps a log of its own.
+ */
+
+export const AUDIT_EXPORT_FORMAT = 'cyber-dt-vault-audit-log';
+export const AUDIT_EXPORT_VERSION = 1;
+
+const AUDIT_AAD_PREFIX = 'ironvault-audit-v1';
+const CHAIN_BYTES = 32;
+
+export type AuditEventType =
+  | 'unlock' | 'unlock-failed' | 'password-reset' | 'recovery-key-rotated' | 'duress-set' | 'duress-removed'
+  | 'item-created' | 'item-updated' | 'item-deleted' | 'item-restored' | 'item-purged';
+
+/** Where an item change came from: this device, a sync with another one, or the app itself (recycle bin expiry, schema upgrades). */
+export type AuditOrigin = 'local' | 'sync' | 'automatic';
+
+export interface AuditEvent {
+  type: AuditEventType;
+  at: number;
+  /** Unlock events only. */
+  method?: UnlockMethod | 'biometric';
+  /** Item events only; the title as it was at the time. */
+  itemId?: string;
+  title?: string;
+  origin?: AuditOrigin;
+}
+
+export interface AuditEntry extends AuditEvent {
+  seq: number;
+}
+
+/** Stored unencrypted next to the records: how many there are and the HMAC chain value after the last. */
+export interface AuditHead {
+  count: number;
+  chain: string;
+}
+
+export const AUDIT_EVENT_LABELS: Record<AuditEventType, string> = {
+  'unlock': 'Unlocked',
+  'unlock-failed': 'Failed unlock attempt',
+  'password-reset': 'Master password changed',
+  'recovery-key-rotated': 'Recovery key replaced',
+  'duress-set': 'Duress password set',
+  'duress-removed': 'Duress password removed',
+  'item-created': 'Item added',
+  'item-updated': 'Item changed',
+  'item-deleted': 'Item moved to recycle bin',
+  'item-restored': 'Item restored',
+  'item-purged': 'Item deleted permanently'
+};
+
+const METHOD_LABELS: Record<UnlockMethod | 'biometric', string> = { password: 'master password', recovery: 'recovery key', biometric: 'passkey' };
+const ORIGIN_LABELS: Record<AuditOrigin, string | null> = { local: null, sync: 'from another device', automatic: 'by the app' };
+
+/** One-line description of an entry, e.g. "Unlocked · recovery key" or "Item changed · GitHub · from another device". */
+export function describeAuditEntry(entry: AuditEvent): string {
+  const details = [
+    entry.method && METHOD_LABELS[entry.method],
+    entry.title,
+    entry.origin && ORIGIN_LABELS[entry.origin]
+  ].filter(Boolean);
+  return [AUDIT_EVENT_LABELS[entry.type] ?? entry.type, ...details].join(' · ');
+}
+
+export function parseAuditHead(stored: string | null): AuditHead {
+  if (!stored) return { count: 0, chain: '' };
+  const parsed = JSON.parse(stored);
+  if (!Number.isInteger(parsed?.count) || parsed.count < 0 || typeof parsed.chain !== 'string') throw new Error("Audit log head is malformed");
+  return parsed;
+}
+
+/** Chain value before the first entry. */
+export function auditChainStart(): Uint8Array {
+  return new Uint8Array(CHAIN_BYTES);
+}
+
+/** Binds an entry to its vault and position, so it cannot be moved to another slot of the log. */
+export function auditAad(vaultId: string, seq: number): Uint8Array {
+  return new TextEncoder().encode(`${AUDIT_AAD_PREFIX}\n${vaultId}\n${seq}`);
+}
+
+/**
+ * Events for the difference between the items as stored and as about to be
+ * saved. Changes that only touch lastUsedAt are left out: revealing or copying
+ * a secret is not an edit, and would bury the real ones.
+ */
+export function itemEvents(before: Map<string, string>, after: VaultItem[], origin: AuditOrigin, now: number = Date.now()): AuditEvent[] {
+  const events: AuditEvent[] = [];
+  const event = (type: AuditEventType, item: VaultItem): AuditEvent => ({ type, at: now, itemId: item.id, title: item.title, origin });
+  const remaining = new Set(before.keys());
+  for (const item of after) {
+    remaining.delete(item.id);
+    const json = before.get(item.id);
+    if (json === undefined) {
+      events.push(event('item-created', item));
+      continue;
+    }
+    if (json === JSON.stringify(item)) continue;
+    const previous: VaultItem = JSON.parse(json);
+    if (!previous.deletedAt && item.deletedAt) events.push(event('item-deleted', item));
+    else if (previous.deletedAt && !item.deletedAt) events.push(event('item-restored', item));
+    else if (!onlyUseDiffers(previous, item)) events.push(event('item-updated', item));
+  }
+  for (const id of remaining) events.push(event('item-purged', JSON.parse(before.get(id)!)));
+  return events;
+}
+
+/** Failed attempts, oldest first, as logged by ThrottleService. */
+export function failedUnlockEvents(attempts: FailedAttempt[]): AuditEvent[] {
+  return attempts.map(({ at, method }) => ({ type: 'unlock-failed' as const, at, method })).sort((a, b) => a.at - b.at);
+}
+
+/** Plaintext export for the user to keep or hand to someone investigating. */
+export function serializeAuditLog(entries: AuditEntry[], vaultName: string, now: number = Date.now()): string {
+  return JSON.stringify({
+    format: AUDIT_EXPORT_FORMAT,
+    version: AUDIT_EXPORT_VERSION,
+    vault: vaultName,
+    exportedAt: new Date(now).toISOString(),
+    entries: entries.map(entry => ({ ...entry, at: new Date(entry.at).toISOString(), description: describeAuditEntry(entry) }))
+  }, null, 2);
+}
@@ -0,0 +1,164 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { BiometricService, BiometricUnavailableError } from './BiometricService';
+import { VaultService } from './VaultService';
+import { createItem } from './VaultItems';
+import { MemoryAdapter } from './storage';
+
+interface FakeAuthenticatorOptions {
+  /** Whether the PRF result comes back from create() already, as some authenticators do. */
+  prfOnCreate?: boolean;
+  prfSupported?: boolean;
+}
+
+const base64Url = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+/**
+ * Stands in for navigator.credentials with a platform authenticator whose PRF
+ * is HMAC-SHA256 of the salt under a per-credential secret, so the same
+ * credential and salt always give the same output. When an assertion allows
+ * several passkeys, the user picks the one set with `pick`, or else the first.
+ */
+function installAuthenticator({ prfOnCreate = true, prfSupported = true }: FakeAuthenticatorOptions = {}) {
+  const secrets = new Map<string, CryptoKey>();
+  const created: Uint8Array[] = [];
+  let picked: Uint8Array | undefined;
+  const prf = async (id: Uint8Array, salt: BufferSource) =>
+    new Uint8Array(await crypto.subtle.sign('HMAC', secrets.get(id.join())!, salt));
+
+  const create = vi.fn(async ({ publicKey }: CredentialCreationOptions) => {
+    const rawId = crypto.getRandomValues(new Uint8Array(16));
+    secrets.set(rawId.join(), await crypto.subtle.generateKey({ name: 'HMAC', hash: 'SHA-256' }, false, ['sign']));
+    created.push(rawId);
+    const first = prfOnCreate ? await prf(rawId, publicKey!.extensions!.prf!.eval!.first) : undefined;
+    return { rawId: rawId.buffer, getClientExtensionResults: () => ({ prf: { enabled: prfSupported, ...(first && { results: { first } }) } }) };
+  });
+  const get = vi.fn(async ({ publicKey }: CredentialRequestOptions) => {
+    const allowed = publicKey!.allowCredentials!.map(c => new Uint8Array(c.id as Uint8Array));
+    const id = allowed.find(a => a.join() === picked?.join()) ?? allowed[0];
+    const salt = publicKey!.extensions!.prf!.evalByCredential![base64Url(id)].first;
+    const first = prfSupported && secrets.has(id.join()) ? await prf(id, salt) : undefined;
+    return { rawId: id.buffer, getClientExtensionResults: () => ({ prf: first ? { results: { first } } : {} }) };
+  });
+
+  vi.stubGlobal('PublicKeyCredential', { isUserVerifyingPlatformAuthenticatorAvailable: async () => true });
+  vi.stubGlobal('navigator', { credentials: { create, get } });
+  return { create, get, pick: (index: number) => { picked = created[index]; } };
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('BiometricService', () => {
+  it('returns the PRF output of registration and the same output on later assertions', async () => {
+    const authenticator = installAuthenticator();
+    const { credential, prfOutput } = await BiometricService.register();
+
+    expect(prfOutput).toHaveLength(32);
+    expect(authenticator.get).not.toHaveBeenCalled();
+    expect(await BiometricService.evaluate([credential])).toEqual({ credential, prfOutput });
+  });
+
+  it('asks for an assertion when the authenticator only evaluates the PRF there', async () => {
+    const authenticator = installAuthenticator({ prfOnCreate: false });
+    const { credential, prfOutput } = await BiometricService.register();
+
+    expect(authenticator.get).toHaveBeenCalledTimes(1);
+    expect(await BiometricService.evaluate([credential])).toEqual({ credential, prfOutput });
+  });
+
+  it('requires user verification on a platform authenticator', async () => {
+    const authenticator = installAuthenticator();
+    await BiometricService.register();
+
+    const { publicKey } = authenticator.create.mock.calls[0][0];
+    expect(publicKey!.authenticatorSelection).toMatchObject({ authenticatorAttachment: 'platform', userVerification: 'required' });
+  });
+
+  it('reports a missing PRF extension as unavailable', async () => {
+    installAuthenticator({ prfSupported: false });
+    await expect(BiometricService.register()).rejects.toBeInstanceOf(BiometricUnavailableError);
+  });
+
+  it('reports a browser without WebAuthn as unavailable', async () => {
+    vi.stubGlobal('PublicKeyCredential', undefined);
+    expect(await BiometricService.isAvailable()).toBe(false);
+    await expect(BiometricService.register()).rejects.toBeInstanceOf(BiometricUnavailableError);
+  });
+});
+
+describe('VaultService biometric slot', () => {
+  beforeEach(async () => {
+    await VaultService.initStorage(new MemoryAdapter());
+    await VaultService.initializeVault('Personal', 'correct horse battery staple');
+    await VaultService.updateItems(() => [createItem({ kind: 'note', title: 'Wi-Fi', notes: 'hunter2', customFields: [], tags: [] })]);
+  });
+
+  it('unlocks with the enrolled passkey', async () => {
+    installAuthenticator();
+    await VaultService.enrollBiometric();
+    VaultService.lock();
+
+    expect(await VaultService.hasBiometricSlot()).toBe(true);
+    const items = await VaultService.unlockWithBiometric();
+    expect(items.map(i => i.title)).toEqual(['Wi-Fi']);
+  });
+
+  it('stops unlocking once the slot is revoked', async () => {
+    installAuthenticator();
+    await VaultService.enrollBiometric();
+    await VaultService.revokeBiometric();
+    VaultService.lock();
+
+    expect(await VaultService.hasBiometricSlot()).toBe(false);
+    await expect(VaultService.unlockWithBiometric()).rejects.toBeInstanceOf(BiometricUnavailableError);
+  });
+
+  it('rejects a PRF output that does not unwrap the slot', async () => {
+    installAuthenticator();
+    await VaultService.enrollBiometric();
+    VaultService.lock();
+    // As after the passkey was deleted and re-created under the same id
+    vi.stubGlobal('navigator', {
+      credentials: {
+        get: async ({ publicKey }: CredentialRequestOptions) => ({
+          rawId: (publicKey!.allowCredentials![0].id as Uint8Array).buffer,
+          getClientExtensionResults: () => ({ prf: { results: { first: new Uint8Array(32) } } })
+        })
+      }
+    });
+
+    await expect(VaultService.unlockWithBiometric()).rejects.toThrow("Biometric key rejected");
+    expect(VaultService.isUnlocked()).toBe(false);
+  });
+
+  it('opens the decoy with the passkey enrolled there', async () => {
+    const authenticator = installAuthenticator();
+    await VaultService.enrollBiometric();
+    await VaultService.setDuressPassword('open sesame, said the burglar');
+    await VaultService.unlockVault('open sesame, said the burglar');
+    await VaultService.enrollBiometric();
+    VaultService.lock();
+
+    expect(await VaultService.hasBiometricSlot()).toBe(true);
+    authenticator.pick(1);
+    expect(await VaultService.unlockWithBiometric()).toEqual([]);
+    const offered = authenticator.get.mock.calls[0][0].publicKey!.allowCredentials!;
+    expect(offered).toHaveLength(2);
+
+    authenticator.pick(0);
+    expect((await VaultService.unlockWithBiometric()).map(i => i.title)).toEqual(['Wi-Fi']);
+  });
+
+  it('offers the decoy passkey when only the decoy enrolled one', async () => {
+    installAuthenticator();
+    await VaultService.setDuressPassword('open sesame, said the burglar');
+    await VaultService.unlockVault('open sesame, said the burglar');
+    await VaultService.enrollBiometric();
+    VaultService.lock();
+
+    expect(await VaultService.hasBiometricSlot()).toBe(true);
+    expect(await VaultService.unlockWithBiometric()).toEqual([]);
+    expect(await VaultService.hasDuressPassword()).toBe(false);
+  });
+});
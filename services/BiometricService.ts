@@ -0,0 +1,118 @@
+
+/**
+ * BiometricService wraps the WebAuthn platform authenticator.
+ * The PRF extension turns a user-verified passkey assertion into a stable
+ * 32-byte secret that never leaves the authenticator unless the user
+ * completes the biometric / device PIN prompt.
+ */
+
+export interface BiometricCredential {
+  credentialId: Uint8Array;
+  prfSalt: Uint8Array;
+}
+
+/**
+ * Raised when the browser or authenticator cannot produce a PRF output.
+ * Callers should fall back to the master password.
+ */
+export class BiometricUnavailableError extends Error {
+  constructor(message: string = "Biometric PRF is not supported on this device") {
+    super(message);
+    this.name = 'BiometricUnavailableError';
+  }
+}
+
+const RP_NAME = 'CYBER DT VAULT';
+
+export class BiometricService {
+  static async isAvailable(): Promise<boolean> {
+    if (typeof window === 'undefined' || !window.PublicKeyCredential || !navigator.credentials) return false;
+    try {
+      return await PublicKeyCredential.isUserVerifyingPlatformAuthenticatorAvailable();
+    } catch (e) {
+      return false;
+    }
+  }
+
+  /**
+   * Registers a new platform passkey and evaluates its PRF once.
+   * Returns the credential handle together with the PRF output used to wrap the VMK.
+   */
+  static async register(): Promise<{ credential: BiometricCredential; prfOutput: Uint8Array }> {
+    if (!(await this.isAvailable())) throw new BiometricUnavailableError("No platform authenticator available");
+
+    const prfSalt = window.crypto.getRandomValues(new Uint8Array(32));
+    const created = await navigator.credentials.create({
+      publicKey: {
+        challenge: window.crypto.getRandomValues(new Uint8Array(32)),
+        rp: { name: RP_NAME },
+        user: {
+          id: window.crypto.getRandomValues(new Uint8Array(16)),
+          name: 'vault-owner',
+          displayName: 'Vault Owner'
+        },
+        pubKeyCredParams: [
+          { type: 'public-key', alg: -7 },   // ES256
+          { type: 'public-key', alg: -257 }  // RS256
+        ],
+        authenticatorSelection: {
+          authenticatorAttachment: 'platform',
+          userVerification: 'required',
+          residentKey: 'preferred'
+        },
+        timeout: 60000,
+        extensions: { prf: { eval: { first: prfSalt } } }
+      }
+    }) as PublicKeyCredential | null;
+
+    if (!created) throw new Error("Passkey registration was cancelled");
+    const prf = created.getClientExtensionResults().prf;
+    if (!prf || prf.enabled === false) throw new BiometricUnavailableError();
+
+    const credential: BiometricCredential = { credentialId: new Uint8Array(created.rawId), prfSalt };
+
+    // Some authenticators only evaluate PRF during assertions, not at creation time.
+    const prfOutput = prf.results?.first
+      ? this.toBytes(prf.results.first)
+      : (await this.evaluate([credential])).prfOutput;
+
+    return { credential, prfOutput };
+  }
+
+  /**
+   * Requests a user-verified assertion by one of the given passkeys.
+   * Returns the one the user picked and its PRF output for the stored salt.
+   */
+  static async evaluate(credentials: BiometricCredential[]): Promise<{ credential: BiometricCredential; prfOutput: Uint8Array }> {
+    if (!(await this.isAvailable())) throw new BiometricUnavailableError("No platform authenticator available");
+
+    const assertion = await navigator.credentials.get({
+      publicKey: {
+        challenge: window.crypto.getRandomValues(new Uint8Array(32)),
+        allowCredentials: credentials.map(c => ({ type: 'public-key', id: c.credentialId })),
+        userVerification: 'required',
+        timeout: 60000,
+        // Each passkey evaluates its own salt, keyed by its base64url credential id
+        extensions: { prf: { evalByCredential: Object.fromEntries(credentials.map(c => [this.toBase64Url(c.credentialId), { first: c.prfSalt }])) } }
+      }
+    }) as PublicKeyCredential | null;
+
+    if (!assertion) throw new Error("Biometric prompt was cancelled");
+    const usedId = this.toBase64Url(new Uint8Array(assertion.rawId));
+    const credential = credentials.find(c => this.toBase64Url(c.credentialId) === usedId);
+    if (!credential) throw new Error("Biometric prompt used an unknown passkey");
+    const first = assertion.getClientExtensionResults().prf?.results?.first;
+    if (!first) throw new BiometricUnavailableError();
+    return { credential, prfOutput: this.toBytes(first) };
+  }
+
+  private static toBase64Url(bytes: Uint8Array): string {
+    return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+  }
+
+  private static toBytes(source: BufferSource): Uint8Array {
+    if (source instanceof Uint8Array) return source;
+    if (ArrayBuffer.isView(source)) return new Uint8Array(source.buffer, source.byteOffset, source.byteLength);
+    return new Uint8Array(source);
+  }
+}
@@ -0,0 +1,79 @@
+
+/**
+ * Offline breach check against Have I Been Pwned's Pwned Passwords data.
+ * Nothing is sent anywhere: the user imports range files (as served by
+ * api.pwnedpasswords.com/range/XXXXX or saved by the official downloader)
+ * and passwords are looked up by their SHA-1 locally.
+ */
+
+/** SHA-1 prefix (5 hex chars) → suffix (35 hex chars) → times seen in breaches. */
+export type BreachRanges = Record<string, Record<string, number>>;
+
+const PREFIX_LENGTH = 5;
+const PREFIX = /^[0-9A-F]{5}$/;
+const RANGE_LINE = /^([0-9A-F]{35}):(\d+)$/;
+const FULL_LINE = /^([0-9A-F]{40})(?::(\d+))?$/;
+
+export class BreachListFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BreachListFormatError';
+  }
+}
+
+/**
+ * Parses one imported file. Range lines are `SUFFIX:COUNT`; their prefix comes
+ * from the file name (`1E4C9.txt`) or from a preceding line holding only the
+ * prefix, so several range responses can be pasted into one file. Lines with a
+ * full 40-character hash are accepted too.
+ */
+export function parseBreachRanges(text: string, fileName: string = ''): BreachRanges {
+  const ranges: BreachRanges = {};
+  let prefix: string | null = fileName.replace(/\.[^.]*$/, '').toUpperCase();
+  if (!PREFIX.test(prefix)) prefix = null;
+  let found = 0;
+
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim().toUpperCase();
+    if (!line) continue;
+    if (PREFIX.test(line)) {
+      prefix = line;
+      continue;
+    }
+    const full = FULL_LINE.exec(line);
+    const range = full ? null : RANGE_LINE.exec(line);
+    if (full) {
+      add(ranges, full[1].slice(0, PREFIX_LENGTH), full[1].slice(PREFIX_LENGTH), Number(full[2] ?? 1));
+    } else if (range && prefix) {
+      add(ranges, prefix, range[1], Number(range[2]));
+    } else if (range) {
+      throw new BreachListFormatError("Range lines need a prefix: name the file after it (e.g. 1E4C9.txt) or put the prefix on its own line");
+    } else {
+      throw new BreachListFormatError(`Unrecognised line: ${raw.slice(0, 48)}`);
+    }
+    found++;
+  }
+  if (!found) throw new BreachListFormatError("No hashes found");
+  return ranges;
+}
+
+export function mergeBreachRanges(a: BreachRanges, b: BreachRanges): BreachRanges {
+  const merged: BreachRanges = { ...a };
+  for (const [prefix, suffixes] of Object.entries(b)) merged[prefix] = { ...merged[prefix], ...suffixes };
+  return merged;
+}
+
+export function countBreachHashes(ranges: BreachRanges): number {
+  return Object.values(ranges).reduce((sum, suffixes) => sum + Object.keys(suffixes).length, 0);
+}
+
+/** Times the password appears in the imported data; 0 when absent or its range was never imported. */
+export async function breachCount(ranges: BreachRanges, password: string): Promise<number> {
+  const digest = await window.crypto.subtle.digest('SHA-1', new TextEncoder().encode(password));
+  const hash = Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('').toUpperCase();
+  return ranges[hash.slice(0, PREFIX_LENGTH)]?.[hash.slice(PREFIX_LENGTH)] ?? 0;
+}
+
+function add(ranges: BreachRanges, prefix: string, suffix: string, count: number) {
+  (ranges[prefix] ??= {})[suffix] = count;
+}
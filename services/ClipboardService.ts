@@ -0,0 +1,43 @@
+
+/**
+ * Copies secrets to the system clipboard and wipes them again after a delay.
+ * The wipe only happens if the clipboard still holds the value we wrote; if
+ * the user has copied something else since, it is left alone.
+ */
+export class ClipboardService {
+  /** Seconds until a copied value is wiped; 0 disables. Set from the session policy. */
+  static clearAfterSeconds = 30;
+
+  private static pending: { value: string; timer: ReturnType<typeof setTimeout> } | null = null;
+
+  static async copy(value: string): Promise<void> {
+    await navigator.clipboard.writeText(value);
+    this.cancelPending();
+    if (this.clearAfterSeconds <= 0) return;
+    const timer = setTimeout(() => this.clearIfUnchanged(value), this.clearAfterSeconds * 1000);
+    this.pending = { value, timer };
+  }
+
+  /** Wipes the last copied value right away, e.g. when the vault locks. */
+  static async clearNow(): Promise<void> {
+    const pending = this.pending;
+    this.cancelPending();
+    if (pending) await this.clearIfUnchanged(pending.value);
+  }
+
+  private static cancelPending() {
+    if (this.pending) clearTimeout(this.pending.timer);
+    this.pending = null;
+  }
+
+  private static async clearIfUnchanged(value: string, retryOnFocus: boolean = true): Promise<void> {
+    if (this.pending?.value === value) this.pending = null;
+    try {
+      if (await navigator.clipboard.readText() === value) await navigator.clipboard.writeText('');
+    } catch (e) {
+      // Browsers refuse clipboard access while the page is unfocused; try once more when it is focused
+      // again. If it still cannot be read, there is no way to verify it is ours, so it stays.
+      if (retryOnFocus) window.addEventListener('focus', () => this.clearIfUnchanged(value, false), { once: true });
+    }
+  }
+}
@@ -0,0 +1,89 @@
+
+/**
+ * KdfService turns a password-like secret into an AES-256-GCM wrapping key.
+ * Every password key slot stores the KdfParams it was wrapped with, so the
+ * cost can be raised later without locking out existing vaults.
+ */
+
+import { argon2id } from 'hash-wasm';
+
+export type KdfParams =
+  | { algorithm: 'pbkdf2-sha256'; iterations: number }
+  | { algorithm: 'argon2id'; memoryKiB: number; iterations: number; parallelism: number };
+
+/** Parameters of every slot written before the header existed. */
+export const LEGACY_KDF: KdfParams = { algorithm: 'pbkdf2-sha256', iterations: 100000 };
+
+/** OWASP baseline for Argon2id (m=64 MiB, t=3, p=1). */
+export const DEFAULT_KDF: KdfParams = { algorithm: 'argon2id', memoryKiB: 65536, iterations: 3, parallelism: 1 };
+
+/** Candidates offered by the settings benchmark, cheapest first. */
+export const KDF_PRESETS: KdfParams[] = [
+  { algorithm: 'pbkdf2-sha256', iterations: 600000 },
+  { algorithm: 'argon2id', memoryKiB: 19456, iterations: 2, parallelism: 1 },
+  DEFAULT_KDF,
+  { algorithm: 'argon2id', memoryKiB: 131072, iterations: 3, parallelism: 1 },
+  { algorithm: 'argon2id', memoryKiB: 262144, iterations: 4, parallelism: 1 }
+];
+
+export class KdfService {
+  static async deriveKey(secret: string, salt: Uint8Array, params: KdfParams): Promise<CryptoKey> {
+    const password = new TextEncoder().encode(secret);
+
+    if (params.algorithm === 'argon2id') {
+      const raw = await argon2id({
+        password,
+        salt,
+        parallelism: params.parallelism,
+        iterations: params.iterations,
+        memorySize: params.memoryKiB,
+        hashLength: 32,
+        outputType: 'binary'
+      });
+      return window.crypto.subtle.importKey("raw", raw, "AES-GCM", false, ["encrypt", "decrypt"]);
+    }
+
+    const baseKey = await window.crypto.subtle.importKey("raw", password, "PBKDF2", false, ["deriveBits", "deriveKey"]);
+    return window.crypto.subtle.deriveKey({ name: "PBKDF2", salt, iterations: params.iterations, hash: "SHA-256" }, baseKey, { name: "AES-GCM", length: 256 }, false, ["encrypt", "decrypt"]);
+  }
+
+  /**
+   * Parses a stored slot header. A missing header means the slot predates versioning.
+   */
+  static parse(stored: string | null): KdfParams {
+    if (!stored) return LEGACY_KDF;
+    const params = JSON.parse(stored) as KdfParams;
+    if (params.algorithm !== 'pbkdf2-sha256' && params.algorithm !== 'argon2id') {
+      throw new Error(`Unsupported KDF: ${(params as { algorithm: string }).algorithm}`);
+    }
+    return params;
+  }
+
+  static equals(a: KdfParams, b: KdfParams): boolean {
+    return JSON.stringify(this.normalize(a)) === JSON.stringify(this.normalize(b));
+  }
+
+  static describe(params: KdfParams): string {
+    if (params.algorithm === 'argon2id') {
+      return `Argon2id · ${Math.round(params.memoryKiB / 1024)} MiB · t=${params.iterations} · p=${params.parallelism}`;
+    }
+    return `PBKDF2-SHA256 · ${params.iterations.toLocaleString()} iterations`;
+  }
+
+  /**
+   * Measures one derivation with throwaway inputs, in milliseconds.
+   */
+  static async benchmark(params: KdfParams): Promise<number> {
+    const salt = window.crypto.getRandomValues(new Uint8Array(16));
+    const start = performance.now();
+    await this.deriveKey('benchmark-password', salt, params);
+    return Math.round(performance.now() - start);
+  }
+
+  // Fixed key order so equals() does not depend on how the JSON was written
+  private static normalize(params: KdfParams): KdfParams {
+    return params.algorithm === 'argon2id'
+      ? { algorithm: params.algorithm, memoryKiB: params.memoryKiB, iterations: params.iterations, parallelism: params.parallelism }
+      : { algorithm: params.algorithm, iterations: params.iterations };
+  }
+}
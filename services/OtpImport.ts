@@ -0,0 +1,163 @@
+import { TotpService, TotpConfig, TotpAlgorithm } from './TotpService';
+
+/**
+ * Reads the text of an authenticator QR code. That is either a single
+ * otpauth://totp/ URI, or a Google Authenticator export
+ * (otpauth-migration://offline?data=…) that packs several accounts into one
+ * protobuf MigrationPayload. Every account comes back as an otpauth URI, the
+ * form TotpService and the vault store.
+ */
+
+/** A scanned code that holds no usable account; the message says why, for display. */
+export class OtpImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OtpImportError';
+  }
+}
+
+export interface ScannedOtp {
+  uri: string;
+  issuer?: string;
+  account?: string;
+}
+
+// MigrationPayload.OtpParameters enums; 0 is "unspecified" and means the default
+const MIGRATION_ALGORITHMS: Record<number, TotpAlgorithm> = { 0: 'SHA1', 1: 'SHA1', 2: 'SHA256', 3: 'SHA512' };
+const MIGRATION_DIGITS: Record<number, 6 | 8> = { 0: 6, 1: 6, 2: 8 };
+const MIGRATION_TYPE_HOTP = 1;
+// Google Authenticator exports do not carry a period; every account uses the default
+const MIGRATION_PERIOD = 30;
+
+/** Accounts held by a scanned code. Throws when the code is not an authenticator secret or holds no usable one. */
+export function parseOtpQr(text: string): ScannedOtp[] {
+  const trimmed = text.trim();
+  if (/^otpauth-migration:/i.test(trimmed)) return parseMigration(trimmed);
+  if (/^otpauth:/i.test(trimmed)) {
+    let config: TotpConfig;
+    try {
+      config = TotpService.parse(trimmed);
+    } catch (e) {
+      throw new OtpImportError(e instanceof Error ? e.message : "Malformed otpauth URI");
+    }
+    return [{ uri: trimmed, issuer: config.issuer, account: config.account }];
+  }
+  throw new OtpImportError("This QR code does not hold an authenticator secret");
+}
+
+function parseMigration(uri: string): ScannedOtp[] {
+  let payload: Uint8Array;
+  try {
+    // URLSearchParams turns an unescaped "+" of the base64 into a space
+    const data = new URL(uri).searchParams.get('data')!.replace(/ /g, '+');
+    payload = Uint8Array.from(atob(data), c => c.charCodeAt(0));
+  } catch (e) {
+    throw new OtpImportError("Malformed authenticator export");
+  }
+
+  const accounts: ScannedOtp[] = [];
+  let skipped = 0;
+  for (const field of new ProtoReader(payload).fields()) {
+    if (field.number !== 1 || !(field.value instanceof Uint8Array)) continue;
+    const config = readOtpParameters(field.value);
+    if (config) accounts.push({ uri: TotpService.toUri(config), issuer: config.issuer, account: config.account });
+    else skipped++;
+  }
+  if (accounts.length === 0) {
+    throw new OtpImportError(skipped ? "Only time-based (totp) codes are supported" : "This export holds no accounts");
+  }
+  return accounts;
+}
+
+/** One OtpParameters message, or null for counter-based, MD5 or empty entries this app cannot use. */
+function readOtpParameters(bytes: Uint8Array): TotpConfig | null {
+  let secret = new Uint8Array(0);
+  let name = '';
+  let issuer = '';
+  let algorithm = 0;
+  let digits = 0;
+  let type = 0;
+  const decoder = new TextDecoder();
+  for (const field of new ProtoReader(bytes).fields()) {
+    const { number, value } = field;
+    if (number === 1 && value instanceof Uint8Array) secret = value;
+    else if (number === 2 && value instanceof Uint8Array) name = decoder.decode(value);
+    else if (number === 3 && value instanceof Uint8Array) issuer = decoder.decode(value);
+    else if (number === 4 && typeof value === 'number') algorithm = value;
+    else if (number === 5 && typeof value === 'number') digits = value;
+    else if (number === 6 && typeof value === 'number') type = value;
+  }
+  if (type === MIGRATION_TYPE_HOTP || !(algorithm in MIGRATION_ALGORITHMS) || !(digits in MIGRATION_DIGITS) || secret.length === 0) return null;
+
+  // The name is the otpauth label, "Issuer:account" or just "account"
+  const [labelIssuer, account] = name.includes(':') ? name.split(/:(.*)/s, 2) : [undefined, name];
+  return {
+    secret,
+    algorithm: MIGRATION_ALGORITHMS[algorithm],
+    digits: MIGRATION_DIGITS[digits],
+    period: MIGRATION_PERIOD,
+    issuer: issuer || labelIssuer || undefined,
+    account: account.trim() || undefined
+  };
+}
+
+interface ProtoField {
+  number: number;
+  /** Varints as numbers, length-delimited fields as bytes; fixed-width fields are skipped. */
+  value: number | Uint8Array | null;
+}
+
+/** Just enough of the protobuf wire format to walk the fields of a message. */
+class ProtoReader {
+  private offset = 0;
+
+  constructor(private readonly bytes: Uint8Array) {}
+
+  *fields(): Generator<ProtoField> {
+    while (this.offset < this.bytes.length) {
+      const key = this.varint();
+      const number = Math.floor(key / 8);
+      switch (key % 8) {
+        case 0:
+          yield { number, value: this.varint() };
+          break;
+        case 1:
+          this.skip(8);
+          yield { number, value: null };
+          break;
+        case 2: {
+          const length = this.varint();
+          const start = this.offset;
+          this.skip(length);
+          yield { number, value: this.bytes.subarray(start, this.offset) };
+          break;
+        }
+        case 5:
+          this.skip(4);
+          yield { number, value: null };
+          break;
+        default:
+          throw new OtpImportError("Malformed authenticator export");
+      }
+    }
+  }
+
+  // Up to 64 bits; values past 2^53 lose precision, which only affects counters this app ignores
+  private varint(): number {
+    let value = 0;
+    let scale = 1;
+    for (let i = 0; i < 10; i++) {
+      if (this.offset >= this.bytes.length) break;
+      const byte = this.bytes[this.offset++];
+      value += (byte & 0x7f) * scale;
+      if (byte < 0x80) return value;
+      scale *= 128;
+    }
+    throw new OtpImportError("Malformed authenticator export");
+  }
+
+  private skip(length: number) {
+    if (this.offset + length > this.bytes.length) throw new OtpImportError("Malformed authenticator export");
+    this.offset += length;
+  }
+}
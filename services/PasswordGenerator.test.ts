@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { randomInt, generatePassword, activeCharsets, passwordEntropyBits, PasswordOptions, DEFAULT_PASSWORD_OPTIONS } from './PasswordGenerator';
+
+/**
+ * Mulberry32 in place of the CSPRNG. Seeded, so every run draws the same values
+ * and a statistical check cannot fail by chance on one run and pass on the next.
+ */
+function seededRandomValues(seed: number) {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = Math.imul(state ^ (state >>> 15), state | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return (t ^ (t >>> 14)) >>> 0;
+  };
+  return <T extends ArrayBufferView | null>(array: T): T => {
+    const bytes = new Uint8Array(array!.buffer, array!.byteOffset, array!.byteLength);
+    for (let i = 0; i < bytes.length; i++) bytes[i] = next() & 0xff;
+    return array;
+  };
+}
+
+/** Pearson's statistic of observed counts against equal expected counts. */
+function chiSquare(counts: number[]): number {
+  const expected = counts.reduce((a, b) => a + b, 0) / counts.length;
+  return counts.reduce((sum, count) => sum + (count - expected) ** 2 / expected, 0);
+}
+
+/** Upper 0.1% point of the chi-square distribution, by the Wilson-Hilferty approximation. */
+function chiSquareCritical(degrees: number): number {
+  const z = 3.09;
+  const v = 2 / (9 * degrees);
+  return degrees * (1 - v + z * Math.sqrt(v)) ** 3;
+}
+
+const options = (overrides: Partial<PasswordOptions>): PasswordOptions => ({ ...DEFAULT_PASSWORD_OPTIONS, ...overrides });
+
+beforeEach(() => {
+  vi.spyOn(window.crypto, 'getRandomValues').mockImplementation(seededRandomValues(20240611));
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('randomInt', () => {
+  it.each([2, 7, 10, 26, 94])('draws every value below %i equally often', n => {
+    const counts = new Array(n).fill(0);
+    for (let i = 0; i < n * 2000; i++) counts[randomInt(n)]++;
+    expect(chiSquare(counts)).toBeLessThan(chiSquareCritical(n - 1));
+  });
+
+  it('rejects draws from the top of the range that would favour low values', () => {
+    const draws = [2 ** 32 - 1, 10];
+    vi.spyOn(window.crypto, 'getRandomValues').mockImplementation(<T extends ArrayBufferView | null>(array: T): T => {
+      (array as unknown as Uint32Array)[0] = draws.shift()!;
+      return array;
+    });
+    // 2^32 - 1 is a multiple of 3, so that draw is the one value above the largest multiple
+    expect(randomInt(3)).toBe(1);
+    expect(draws).toHaveLength(0);
+  });
+
+  it('rejects bounds outside 1..2^32', () => {
+    for (const n of [0, -1, 1.5, 2 ** 32 + 1, NaN]) expect(() => randomInt(n)).toThrow(RangeError);
+  });
+});
+
+describe('generatePassword', () => {
+  it('meets every class minimum even when few passwords do', () => {
+    // Three of the single symbol in twelve characters: about one random password in 34,000 qualifies
+    const hard = options({ length: 12, minPerClass: 3, symbols: '!' });
+    const sets = activeCharsets(hard);
+    for (let i = 0; i < 500; i++) {
+      const password = generatePassword(hard);
+      expect(password).toHaveLength(12);
+      for (const set of sets) expect(Array.from(password).filter(ch => set.includes(ch)).length).toBeGreaterThanOrEqual(3);
+    }
+  });
+
+  it('only uses the enabled characters', () => {
+    const limited = options({ length: 64, classes: { lower: false, upper: true, digits: true, symbols: false }, excludeAmbiguous: true });
+    const allowed = activeCharsets(limited).join('');
+    for (let i = 0; i < 100; i++) expect(Array.from(generatePassword(limited)).every(ch => allowed.includes(ch))).toBe(true);
+  });
+
+  it('draws every valid password equally often', () => {
+    // 8 digits and one symbol, at least one of each in three characters: 9^3 - 8^3 - 1 = 216 valid passwords
+    const small = options({ length: 3, classes: { lower: false, upper: false, digits: true, symbols: true }, symbols: '#', excludeAmbiguous: true, minPerClass: 1 });
+    expect(2 ** passwordEntropyBits(small)).toBeCloseTo(216);
+    const counts = new Map<string, number>();
+    for (let i = 0; i < 216 * 100; i++) {
+      const password = generatePassword(small);
+      counts.set(password, (counts.get(password) ?? 0) + 1);
+    }
+    expect(counts.size).toBe(216);
+    expect(chiSquare([...counts.values()])).toBeLessThan(chiSquareCritical(215));
+  });
+
+  it('throws when the rules cannot be met', () => {
+    expect(() => generatePassword(options({ length: 4, minPerClass: 2 }))).toThrow(RangeError);
+    expect(() => generatePassword(options({ classes: { lower: false, upper: false, digits: false, symbols: false } }))).toThrow(RangeError);
+  });
+});
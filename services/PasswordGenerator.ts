@@ -0,0 +1,275 @@
+import { EFF_LARGE_WORDLIST } from './wordlists/effLarge';
+
+/**
+ * Random passwords and diceware passphrases. Every random choice goes through
+ * `randomInt`, which rejects the top sliver of the 32-bit range so each value
+ * below `n` is exactly equally likely; `v % n` over the full range would favour
+ * the low values whenever 2^32 is not a multiple of n.
+ */
+
+export type CharClass = 'lower' | 'upper' | 'digits' | 'symbols';
+
+export const CHAR_CLASSES: CharClass[] = ['lower', 'upper', 'digits', 'symbols'];
+
+export const CHAR_CLASS_LABELS: Record<CharClass, string> = {
+  lower: 'a-z',
+  upper: 'A-Z',
+  digits: '0-9',
+  symbols: '!@#'
+};
+
+const CHARSETS: Record<Exclude<CharClass, 'symbols'>, string> = {
+  lower: 'abcdefghijklmnopqrstuvwxyz',
+  upper: 'ABCDEFGHIJKLMNOPQRSTUVWXYZ',
+  digits: '0123456789'
+};
+
+export const DEFAULT_SYMBOLS = '!@#$%^&*()_+-=[]{};:,.<>?/~|';
+
+/** Characters easily confused with each other when read or typed by hand. */
+const AMBIGUOUS = 'Il1|O0o`\'";:,.';
+
+export const PASSWORD_LENGTH_RANGE = { min: 4, max: 128 };
+export const PASSPHRASE_WORDS_RANGE = { min: 3, max: 12 };
+export const MIN_PER_CLASS_OPTIONS = [0, 1, 2, 3];
+
+export interface PasswordOptions {
+  length: number;
+  classes: Record<CharClass, boolean>;
+  /** Symbols to draw from; sites often allow only a subset. */
+  symbols: string;
+  excludeAmbiguous: boolean;
+  /** Each enabled class appears at least this often. */
+  minPerClass: number;
+}
+
+export type Capitalization = 'lower' | 'title' | 'upper' | 'random';
+
+export const CAPITALIZATION_LABELS: Record<Capitalization, string> = {
+  lower: 'lowercase',
+  title: 'Title Case',
+  upper: 'UPPERCASE',
+  random: 'rAnDoM wOrDs'
+};
+
+/** 'digit' puts a random digit between words, which also satisfies "must contain a number" rules. */
+export type Separator = '-' | ' ' | '.' | '_' | '' | 'digit';
+
+export const SEPARATOR_LABELS: Record<Separator, string> = {
+  '-': 'Hyphen',
+  ' ': 'Space',
+  '.': 'Period',
+  '_': 'Underscore',
+  '': 'None',
+  'digit': 'Random digit'
+};
+
+export interface PassphraseOptions {
+  words: number;
+  separator: Separator;
+  capitalization: Capitalization;
+}
+
+export type GeneratorMode = 'password' | 'passphrase';
+
+/** Both option sets are kept so switching modes back and forth loses nothing. */
+export interface GeneratorSettings {
+  mode: GeneratorMode;
+  password: PasswordOptions;
+  passphrase: PassphraseOptions;
+}
+
+export const DEFAULT_PASSWORD_OPTIONS: PasswordOptions = {
+  length: 20,
+  classes: { lower: true, upper: true, digits: true, symbols: true },
+  symbols: DEFAULT_SYMBOLS,
+  excludeAmbiguous: false,
+  minPerClass: 1
+};
+
+export const DEFAULT_PASSPHRASE_OPTIONS: PassphraseOptions = {
+  words: 6,
+  separator: '-',
+  capitalization: 'lower'
+};
+
+export const DEFAULT_GENERATOR_SETTINGS: GeneratorSettings = {
+  mode: 'password',
+  password: DEFAULT_PASSWORD_OPTIONS,
+  passphrase: DEFAULT_PASSPHRASE_OPTIONS
+};
+
+export interface SitePreset {
+  id: string;
+  label: string;
+  options: PasswordOptions;
+}
+
+// Common site password rules; picking one is a starting point, every setting stays editable
+export const SITE_PRESETS: SitePreset[] = [
+  { id: 'default', label: 'Strong (default)', options: DEFAULT_PASSWORD_OPTIONS },
+  { id: 'maximum', label: 'Maximum (64 chars)', options: { ...DEFAULT_PASSWORD_OPTIONS, length: 64 } },
+  { id: 'no-symbols', label: 'Letters and digits only', options: { ...DEFAULT_PASSWORD_OPTIONS, classes: { lower: true, upper: true, digits: true, symbols: false } } },
+  { id: 'limited-symbols', label: 'Limited symbols (!@#$%&*)', options: { ...DEFAULT_PASSWORD_OPTIONS, symbols: '!@#$%&*' } },
+  { id: 'legacy-16', label: 'Legacy site (max 16 chars)', options: { ...DEFAULT_PASSWORD_OPTIONS, length: 16, symbols: '!@#$%&*', excludeAmbiguous: true } },
+  { id: 'handwritten', label: 'Easy to read aloud', options: { ...DEFAULT_PASSWORD_OPTIONS, length: 24, classes: { lower: true, upper: true, digits: true, symbols: false }, excludeAmbiguous: true } },
+  { id: 'pin', label: 'PIN (6 digits)', options: { ...DEFAULT_PASSWORD_OPTIONS, length: 6, classes: { lower: false, upper: false, digits: true, symbols: false }, minPerClass: 0 } }
+];
+
+/** Uniform integer in [0, n) from the platform CSPRNG, by rejection sampling. */
+export function randomInt(n: number): number {
+  if (!Number.isInteger(n) || n < 1 || n > 2 ** 32) throw new RangeError(`randomInt: invalid bound ${n}`);
+  // Largest multiple of n that fits in 32 bits; values at or above it would skew the result
+  const limit = 2 ** 32 - (2 ** 32 % n);
+  const buf = new Uint32Array(1);
+  do {
+    window.crypto.getRandomValues(buf);
+  } while (buf[0] >= limit);
+  return buf[0] % n;
+}
+
+/** Characters of each enabled class after the ambiguity filter; empty classes are dropped. */
+export function activeCharsets(options: PasswordOptions): string[] {
+  return CHAR_CLASSES
+    .filter(c => options.classes[c])
+    .map(c => c === 'symbols' ? symbolChars(options.symbols) : CHARSETS[c])
+    .map(set => options.excludeAmbiguous ? Array.from(set).filter(ch => !AMBIGUOUS.includes(ch)).join('') : set)
+    .filter(set => set.length > 0);
+}
+
+/** Null when the options can be satisfied, otherwise the reason they cannot. */
+export function validatePasswordOptions(options: PasswordOptions): string | null {
+  const sets = activeCharsets(options);
+  if (!sets.length) return "Enable at least one character class";
+  if (sets.length * options.minPerClass > options.length) return "Length is too short for the required characters per class";
+  return null;
+}
+
+/**
+ * Picks how many characters each class gets, weighted by how many passwords
+ * have that split, then fills in the characters and shuffles them. The result
+ * is uniform over all passwords that satisfy the rules, as if whole passwords
+ * were drawn and the ones missing a class minimum rejected; unlike rejection,
+ * it takes the same time when the rules admit only a tiny share of them.
+ */
+export function generatePassword(options: PasswordOptions): string {
+  const invalid = validatePasswordOptions(options);
+  if (invalid) throw new RangeError(invalid);
+  const sets = activeCharsets(options);
+  const counts = sampleClassCounts(sets.map(set => set.length), options.length, options.minPerClass);
+  const chars = sets.flatMap((set, i) => Array.from({ length: counts[i] }, () => set[randomInt(set.length)]));
+  // Fisher-Yates: every order of the chosen characters is equally likely
+  for (let i = chars.length - 1; i > 0; i--) {
+    const j = randomInt(i + 1);
+    [chars[i], chars[j]] = [chars[j], chars[i]];
+  }
+  return chars.join('');
+}
+
+export function generatePassphrase(options: PassphraseOptions, wordlist: readonly string[] = EFF_LARGE_WORDLIST): string {
+  const words = Array.from({ length: options.words }, () => capitalize(wordlist[randomInt(wordlist.length)], options.capitalization));
+  if (options.separator !== 'digit') return words.join(options.separator);
+  return words.reduce((phrase, word) => `${phrase}${randomInt(10)}${word}`);
+}
+
+export function generate(settings: GeneratorSettings): string {
+  return settings.mode === 'password' ? generatePassword(settings.password) : generatePassphrase(settings.passphrase);
+}
+
+/** Bits of entropy of the generator's output: log2 of the number of equally likely results. */
+export function entropyBits(settings: GeneratorSettings): number {
+  return settings.mode === 'password' ? passwordEntropyBits(settings.password) : passphraseEntropyBits(settings.passphrase);
+}
+
+export function passphraseEntropyBits(options: PassphraseOptions, wordlist: readonly string[] = EFF_LARGE_WORDLIST): number {
+  let bits = options.words * Math.log2(wordlist.length);
+  if (options.capitalization === 'random') bits += options.words;
+  if (options.separator === 'digit') bits += (options.words - 1) * Math.log2(10);
+  return bits;
+}
+
+/**
+ * With class minimums not every string over the alphabet is a possible result,
+ * so the count is taken exactly with an exponential generating function over
+ * the classes.
+ */
+export function passwordEntropyBits(options: PasswordOptions): number {
+  if (validatePasswordOptions(options)) return 0;
+  const sets = activeCharsets(options);
+  const { length, minPerClass } = options;
+  // coefficients[n] = Σ over class counts summing to n of Π size^count / count!
+  let coefficients = [1, ...new Array(length).fill(0)];
+  for (const set of sets) {
+    const next = new Array(length + 1).fill(0);
+    for (let used = 0; used <= length; used++) {
+      if (!coefficients[used]) continue;
+      let term = 1;
+      for (let c = 0; used + c <= length; c++) {
+        if (c > 0) term *= set.length / c;
+        if (c >= minPerClass) next[used + c] += coefficients[used] * term;
+      }
+    }
+    coefficients = next;
+  }
+  // Multiply by length! in log space so long passwords stay within floating-point range
+  let log2Factorial = 0;
+  for (let i = 2; i <= length; i++) log2Factorial += Math.log2(i);
+  return Math.log2(coefficients[length]) + log2Factorial;
+}
+
+/**
+ * Characters per class for a password of `length`, with each split as likely
+ * as the share of valid passwords that have it. Counts are exact BigInts,
+ * since they exceed 2^53 for all but the shortest passwords.
+ */
+function sampleClassCounts(sizes: number[], length: number, minPerClass: number): number[] {
+  const binomial: bigint[][] = [[1n]];
+  for (let n = 1; n <= length; n++) binomial.push(Array.from({ length: n + 1 }, (_, k) => k === 0 || k === n ? 1n : binomial[n - 1][k - 1] + binomial[n - 1][k]));
+  // Passwords of length n (position in the row) over the first j classes (row), each class at least minPerClass times
+  const ways: bigint[][] = [[1n, ...new Array<bigint>(length).fill(0n)]];
+  const weight = (j: number, n: number, c: number) => binomial[n][c] * BigInt(sizes[j - 1]) ** BigInt(c) * ways[j - 1][n - c];
+  for (let j = 1; j <= sizes.length; j++) {
+    ways.push(Array.from({ length: length + 1 }, (_, n) => {
+      let total = 0n;
+      for (let c = minPerClass; c <= n; c++) total += weight(j, n, c);
+      return total;
+    }));
+  }
+  // Last class first: its count given the remaining length, then the rest recursively
+  const counts = new Array<number>(sizes.length);
+  let remaining = length;
+  for (let j = sizes.length; j > 0; j--) {
+    let pick = randomBigInt(ways[j][remaining]);
+    let c = minPerClass;
+    while (pick >= weight(j, remaining, c)) pick -= weight(j, remaining, c++);
+    counts[j - 1] = c;
+    remaining -= c;
+  }
+  return counts;
+}
+
+/** Uniform BigInt in [0, n), by rejection on the bit length of n; each draw succeeds with probability above 1/2. */
+function randomBigInt(n: bigint): bigint {
+  const bits = n.toString(2).length;
+  const mask = (1n << BigInt(bits)) - 1n;
+  const buf = new Uint8Array(Math.ceil(bits / 8));
+  for (;;) {
+    window.crypto.getRandomValues(buf);
+    const value = buf.reduce((acc, byte) => (acc << 8n) | BigInt(byte), 0n) & mask;
+    if (value < n) return value;
+  }
+}
+
+function capitalize(word: string, style: Capitalization): string {
+  switch (style) {
+    case 'lower': return word;
+    case 'upper': return word.toUpperCase();
+    case 'title': return word[0].toUpperCase() + word.slice(1);
+    case 'random': return randomInt(2) ? word[0].toUpperCase() + word.slice(1) : word;
+  }
+}
+
+/** Deduplicated, and without letters, digits or whitespace so the classes never overlap. */
+function symbolChars(set: string): string {
+  return Array.from(new Set(Array.from(set))).filter(ch => /[^A-Za-z0-9\s]/.test(ch)).join('');
+}
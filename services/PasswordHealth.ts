@@ -0,0 +1,81 @@
+import { VaultItem, LoginItem, isActive } from './VaultItems';
+import { estimateStrength } from './PasswordStrength';
+import { BreachRanges, breachCount } from './BreachList';
+
+/**
+ * Password health report over the logins in the vault. Everything is computed
+ * locally from the decrypted items; the breach check only consults ranges the
+ * user imported.
+ */
+
+export type HealthIssue = 'breached' | 'weak' | 'reused' | 'old';
+
+/** Passwords unchanged for longer than this are reported as old. */
+export const OLD_PASSWORD_DAYS = 365;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const HEALTH_ISSUE_LABELS: Record<HealthIssue, string> = {
+  breached: 'Breached',
+  weak: 'Weak',
+  reused: 'Reused',
+  old: 'Old'
+};
+
+export interface HealthFinding {
+  itemId: string;
+  issue: HealthIssue;
+  detail: string;
+}
+
+export interface HealthReport {
+  /** Logins with a password, i.e. the ones that could be checked. */
+  checked: number;
+  /** Share of checked logins without any finding, 0-100. */
+  score: number;
+  /** Ordered by severity: breached, weak, reused, old. */
+  findings: HealthFinding[];
+  counts: Record<HealthIssue, number>;
+}
+
+/** When the current password was set: the last history entry records when its predecessor was replaced. */
+export function passwordSetAt(item: LoginItem): number {
+  return item.passwordHistory?.[0]?.changedAt ?? item.createdAt;
+}
+
+export async function buildHealthReport(items: VaultItem[], breaches: BreachRanges, now: number = Date.now()): Promise<HealthReport> {
+  const logins = items.filter((i): i is LoginItem => i.kind === 'login' && isActive(i) && !!i.password);
+  const findings: HealthFinding[] = [];
+
+  const byPassword = new Map<string, LoginItem[]>();
+  logins.forEach(item => byPassword.set(item.password, [...(byPassword.get(item.password) ?? []), item]));
+
+  const hasBreachData = Object.keys(breaches).length > 0;
+  for (const item of logins) {
+    const seen = hasBreachData ? await breachCount(breaches, item.password) : 0;
+    if (seen) findings.push({ itemId: item.id, issue: 'breached', detail: `Seen ${seen.toLocaleString()} time${seen === 1 ? '' : 's'} in data breaches` });
+
+    const strength = estimateStrength(item.password, [item.username, item.title, item.url ?? '']);
+    if (strength.score < 3) findings.push({ itemId: item.id, issue: 'weak', detail: `${strength.warning ?? 'Easy to guess'} · cracked ${strength.crackTime}` });
+
+    const sharing = byPassword.get(item.password)!.filter(other => other.id !== item.id);
+    if (sharing.length) {
+      const names = sharing.slice(0, 2).map(other => other.title).join(', ');
+      findings.push({ itemId: item.id, issue: 'reused', detail: `Also used by ${names}${sharing.length > 2 ? ` and ${sharing.length - 2} more` : ''}` });
+    }
+
+    const ageDays = Math.floor((now - passwordSetAt(item)) / DAY_MS);
+    if (ageDays > OLD_PASSWORD_DAYS) findings.push({ itemId: item.id, issue: 'old', detail: `Unchanged for ${Math.floor(ageDays / 30)} months` });
+  }
+
+  const order: HealthIssue[] = ['breached', 'weak', 'reused', 'old'];
+  findings.sort((a, b) => order.indexOf(a.issue) - order.indexOf(b.issue));
+  const counts = Object.fromEntries(order.map(issue => [issue, findings.filter(f => f.issue === issue).length])) as Record<HealthIssue, number>;
+  const flagged = new Set(findings.map(f => f.itemId)).size;
+  return {
+    checked: logins.length,
+    score: logins.length ? Math.round(100 * (logins.length - flagged) / logins.length) : 100,
+    findings,
+    counts
+  };
+}
@@ -0,0 +1,296 @@
+
+/**
+ * Password strength estimator in the spirit of zxcvbn: the password is split
+ * into the cheapest sequence of patterns an attacker would try (common
+ * passwords and words, keyboard runs, sequences, repeats, dates) plus
+ * brute-forced characters, and the guesses for that split decide the score.
+ * Character-class rules alone rate "Password1!" as strong; this does not.
+ */
+
+export type StrengthScore = 0 | 1 | 2 | 3 | 4;
+
+export interface StrengthEstimate {
+  /** log10 of the guesses needed by an attacker who tries the patterns below first. */
+  guessesLog10: number;
+  score: StrengthScore;
+  /** Offline attack against a slow hash, as a rough order of magnitude: "instantly", "in 3 hours". */
+  crackTime: string;
+  /** The pattern that weakened the password most, if any. */
+  warning: string | null;
+}
+
+export const STRENGTH_LABELS: Record<StrengthScore, string> = ['Very weak', 'Weak', 'Fair', 'Good', 'Strong'];
+
+/** Minimum score for a master password or recovery-reset password. */
+export const MIN_MASTER_PASSWORD_SCORE: StrengthScore = 3;
+
+// zxcvbn's score boundaries, in log10 guesses
+const SCORE_THRESHOLDS = [3, 6, 8, 10];
+const GUESSES_PER_SECOND = 1e4;
+// Longer inputs are scored on their first characters only; they are strong anyway
+const MAX_ANALYZED_LENGTH = 64;
+const MIN_MATCH_LENGTH = 3;
+
+// Ordered by frequency; the rank is the number of guesses before the word is tried
+const COMMON_PASSWORDS = (
+  'password 123456 12345678 qwerty abc123 monkey 1234567 letmein trustno1 dragon baseball 111111 iloveyou ' +
+  'master sunshine ashley bailey passw0rd shadow 123123 654321 superman qazwsx michael football welcome ' +
+  'jesus ninja mustang password1 admin login princess starwars solo hello freedom whatever qwertyuiop ' +
+  'charlie aa123456 donald batman zaq1zaq1 access flower hottie loveme 696969 lovely 000000 secret ' +
+  'computer corvette hunter killer maggie pepper summer winter spring autumn buster soccer hockey ' +
+  'jordan harley ranger thomas robert tigger jennifer daniel andrew joshua matthew cheese internet ' +
+  'samsung google apple changeme default root toor test guest master123 welcome1 p@ssword'
+).split(' ');
+
+const COMMON_WORDS = (
+  'love time year people way day man thing woman life child world school state family student group ' +
+  'country problem hand part place case week company system program question work government number ' +
+  'night point home water room mother area money story fact month lot right study book eye job word ' +
+  'business issue side kind head house service friend father power hour game line end member law car ' +
+  'city community name president team minute idea kid body information back parent face others level ' +
+  'office door health person art war history party result change morning reason research girl guy ' +
+  'moment air teacher force education foot boy age policy music market sense nation plan college ' +
+  'interest death experience effect class control care field development role effort rate heart drug ' +
+  'show leader light voice wife police mind price report decision son view relationship town road ' +
+  'arm difference value building action model season society tax director position player record paper ' +
+  'space ground form event official matter center couple site project activity star table need court ' +
+  'oil situation cost industry figure street image phone data picture practice piece land product ' +
+  'doctor wall patient worker news test movie north love south east west horse battery staple correct ' +
+  'blue red green black white yellow orange purple silver gold happy lucky magic angel devil heaven ' +
+  'monday friday sunday january june july august december london paris berlin tiger eagle wolf bear'
+).split(' ');
+
+const KEYBOARD_ROWS = ['1234567890', 'qwertyuiop', 'asdfghjkl', 'zxcvbnm', 'azertyuiop', 'qwertzuiop'];
+
+const LEET: Record<string, string> = { '4': 'a', '@': 'a', '8': 'b', '3': 'e', '6': 'g', '1': 'i', '!': 'i', '|': 'l', '0': 'o', '$': 's', '5': 's', '7': 't', '+': 't', '2': 'z' };
+
+interface Match {
+  start: number;
+  /** Exclusive. */
+  end: number;
+  guessesLog10: number;
+  warning: string | null;
+}
+
+const RANKED = new Map<string, { rank: number; common: boolean }>();
+COMMON_WORDS.forEach((word, i) => RANKED.set(word, { rank: i + 1, common: false }));
+COMMON_PASSWORDS.forEach((word, i) => RANKED.set(word, { rank: i + 1, common: true }));
+
+/**
+ * Estimates how many guesses `password` withstands. `userInputs` are strings
+ * an attacker would try first for this user, such as the account name.
+ */
+export function estimateStrength(password: string, userInputs: string[] = []): StrengthEstimate {
+  const analyzed = password.slice(0, MAX_ANALYZED_LENGTH);
+  const matches = [
+    ...dictionaryMatches(analyzed, userInputs),
+    ...sequenceMatches(analyzed),
+    ...repeatMatches(analyzed, userInputs),
+    ...keyboardMatches(analyzed),
+    ...dateMatches(analyzed)
+  ];
+  const { guessesLog10, warning } = cheapestSplit(analyzed, matches);
+  // Characters past the analyzed prefix still have to be found by brute force
+  const total = guessesLog10 + (password.length - analyzed.length) * Math.log10(cardinality(password));
+
+  const score = SCORE_THRESHOLDS.filter(t => total >= t).length as StrengthScore;
+  return {
+    guessesLog10: total,
+    score,
+    crackTime: formatCrackTime(total - Math.log10(GUESSES_PER_SECOND)),
+    warning: score < 3 ? warning ?? (password.length < 12 ? "Short passwords are easy to guess" : null) : null
+  };
+}
+
+/**
+ * Dynamic programming over positions: the cheapest way to produce the first
+ * `i` characters is either a match ending at `i` or one brute-forced character.
+ */
+function cheapestSplit(password: string, matches: Match[]): { guessesLog10: number; warning: string | null } {
+  const n = password.length;
+  if (!n) return { guessesLog10: 0, warning: null };
+  const charCost = Math.log10(cardinality(password));
+  const best = new Array<number>(n + 1).fill(Infinity);
+  const via = new Array<Match | null>(n + 1).fill(null);
+  best[0] = 0;
+
+  const byEnd = new Map<number, Match[]>();
+  matches.forEach(m => byEnd.set(m.end, [...(byEnd.get(m.end) ?? []), m]));
+
+  for (let i = 1; i <= n; i++) {
+    best[i] = best[i - 1] + charCost;
+    for (const m of byEnd.get(i) ?? []) {
+      // Every extra pattern in the split costs the attacker a little ordering work
+      const cost = best[m.start] + m.guessesLog10 + Math.log10(2);
+      if (cost < best[i]) {
+        best[i] = cost;
+        via[i] = m;
+      }
+    }
+  }
+
+  // Walk back through the chosen split and report its most damaging pattern
+  let warning: string | null = null;
+  let weakest = Infinity;
+  for (let i = n; i > 0;) {
+    const m = via[i];
+    if (!m) { i--; continue; }
+    const perChar = m.guessesLog10 / (m.end - m.start);
+    if (m.warning && perChar < weakest) {
+      weakest = perChar;
+      warning = m.warning;
+    }
+    i = m.start;
+  }
+  return { guessesLog10: best[n], warning };
+}
+
+function dictionaryMatches(password: string, userInputs: string[]): Match[] {
+  const userRanks = new Map<string, number>();
+  userInputs
+    .flatMap(input => input.toLowerCase().split(/[^a-z0-9]+/))
+    .filter(part => part.length >= MIN_MATCH_LENGTH)
+    .forEach((part, i) => { if (!userRanks.has(part)) userRanks.set(part, i + 1); });
+
+  const lower = password.toLowerCase();
+  const unleeted = Array.from(lower, c => LEET[c] ?? c).join('');
+  const matches: Match[] = [];
+  for (let start = 0; start < password.length; start++) {
+    for (let end = start + MIN_MATCH_LENGTH; end <= password.length; end++) {
+      const token = password.slice(start, end);
+      const candidates = [
+        { word: lower.slice(start, end), leet: false, reversed: false },
+        { word: unleeted.slice(start, end), leet: true, reversed: false },
+        { word: Array.from(lower.slice(start, end)).reverse().join(''), leet: false, reversed: true }
+      ];
+      for (const { word, leet, reversed } of candidates) {
+        const userRank = userRanks.get(word);
+        const entry = RANKED.get(word);
+        const rank = userRank ?? entry?.rank;
+        if (!rank) continue;
+        let guesses = Math.log10(rank) + uppercaseVariations(token);
+        if (leet) guesses += leetVariations(lower.slice(start, end));
+        if (reversed) guesses += Math.log10(2);
+        const warning = userRank ? "Avoid names and words tied to this account"
+          : entry?.common ? "This is a commonly used password" : "Common words are easy to guess";
+        matches.push({ start, end, guessesLog10: guesses, warning });
+        break;
+      }
+    }
+  }
+  return matches;
+}
+
+/** abc, 6543, aceg: runs with a constant step of one or two between character codes. */
+function sequenceMatches(password: string): Match[] {
+  const matches: Match[] = [];
+  const code = (i: number) => password.charCodeAt(i);
+  let start = 0;
+  while (start < password.length - 1) {
+    const step = code(start + 1) - code(start);
+    let end = start + 1;
+    if (Math.abs(step) !== 1 && Math.abs(step) !== 2) {
+      start = end;
+      continue;
+    }
+    while (end + 1 < password.length && code(end + 1) - code(end) === step) end++;
+    const length = end - start + 1;
+    if (length >= MIN_MATCH_LENGTH) {
+      const base = /[a1]/i.test(password[start]) ? 4 : /\d/.test(password[start]) ? 10 : 26;
+      const guesses = Math.log10(base * length * (step < 0 ? 2 : 1) * Math.abs(step));
+      matches.push({ start, end: end + 1, guessesLog10: guesses, warning: "Sequences like abc or 6543 are easy to guess" });
+    }
+    start = end;
+  }
+  return matches;
+}
+
+/** aaa and abcabc: a base token repeated back to back. */
+function repeatMatches(password: string, userInputs: string[]): Match[] {
+  const matches: Match[] = [];
+  const repeated = /(.+?)\1+/g;
+  let m: RegExpExecArray | null;
+  while ((m = repeated.exec(password))) {
+    if (m[0].length < MIN_MATCH_LENGTH) {
+      repeated.lastIndex = m.index + 1;
+      continue;
+    }
+    const base = m[1];
+    const count = m[0].length / base.length;
+    const baseGuesses = base.length === 1 ? Math.log10(cardinality(base)) : estimateStrength(base, userInputs).guessesLog10;
+    matches.push({ start: m.index, end: m.index + m[0].length, guessesLog10: baseGuesses + Math.log10(count), warning: "Repeated characters and words are easy to guess" });
+  }
+  return matches;
+}
+
+/** Straight runs along a keyboard row, in either direction. */
+function keyboardMatches(password: string): Match[] {
+  const lower = password.toLowerCase();
+  const matches: Match[] = [];
+  for (const row of KEYBOARD_ROWS) {
+    for (const line of [row, Array.from(row).reverse().join('')]) {
+      for (let start = 0; start < lower.length; start++) {
+        let end = start;
+        const pos = line.indexOf(lower[start]);
+        if (pos < 0) continue;
+        while (end < lower.length && line[pos + end - start] === lower[end]) end++;
+        if (end - start >= 4) {
+          const guesses = Math.log10(KEYBOARD_ROWS.length * 2 * row.length * (end - start)) + uppercaseVariations(password.slice(start, end));
+          matches.push({ start, end, guessesLog10: guesses, warning: "Keyboard patterns like qwerty are easy to guess" });
+        }
+      }
+    }
+  }
+  return matches;
+}
+
+/** Years from 1900 to 2039 and digit-only dates such as 250694 or 01121987. */
+function dateMatches(password: string): Match[] {
+  const matches: Match[] = [];
+  const years = /(19\d\d|20[0-3]\d)/g;
+  let m: RegExpExecArray | null;
+  while ((m = years.exec(password))) {
+    matches.push({ start: m.index, end: m.index + 4, guessesLog10: Math.log10(140), warning: "Dates and years are easy to guess" });
+  }
+  const digits = /\d{6,8}/g;
+  while ((m = digits.exec(password))) {
+    if (m[0].length !== 7) {
+      matches.push({ start: m.index, end: m.index + m[0].length, guessesLog10: Math.log10(365 * (m[0].length === 8 ? 140 : 100)), warning: "Dates and years are easy to guess" });
+    }
+  }
+  return matches;
+}
+
+/** password=0, Password or PASSWORD=1 bit, any other mix=one bit per capital. */
+function uppercaseVariations(token: string): number {
+  const upper = (token.match(/[A-Z]/g) ?? []).length;
+  if (!upper || token === token.toLowerCase()) return 0;
+  if (token === token.toUpperCase() || /^[A-Z][^A-Z]+$/.test(token)) return Math.log10(2);
+  return upper * Math.log10(2);
+}
+
+function leetVariations(token: string): number {
+  const substituted = Array.from(token).filter(c => c in LEET).length;
+  return substituted * Math.log10(2);
+}
+
+/** Size of the alphabet an attacker must brute-force, from the character classes present. */
+function cardinality(password: string): number {
+  let size = 0;
+  if (/[a-z]/.test(password)) size += 26;
+  if (/[A-Z]/.test(password)) size += 26;
+  if (/\d/.test(password)) size += 10;
+  if (/[ -/:-@[-`{-~]/.test(password)) size += 33;
+  if (/[^\x00-\x7f]/.test(password)) size += 100;
+  return Math.max(size, 10);
+}
+
+function formatCrackTime(secondsLog10: number): string {
+  const units: [string, number][] = [['second', 1], ['minute', 60], ['hour', 3600], ['day', 86400], ['month', 2629800], ['year', 31557600]];
+  if (secondsLog10 < 0) return "instantly";
+  if (secondsLog10 > Math.log10(31557600 * 100)) return "in centuries";
+  const seconds = 10 ** secondsLog10;
+  const [unit, size] = units.filter(([, s]) => seconds >= s).pop()!;
+  const count = Math.round(seconds / size);
+  return `in ${count} ${unit}${count === 1 ? '' : 's'}`;
+}
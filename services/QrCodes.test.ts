@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { PNG } from 'pngjs';
+import { decodeQr, readQrFromFile, QrImageError } from './QrCodes';
+import { parseOtpQr, OtpImportError } from './OtpImport';
+import { TotpService } from './TotpService';
+
+/** A PNG from fixtures/qr as the RGBA pixels a canvas would give. */
+function fixture(name: string): ImageData {
+  const png = PNG.sync.read(readFileSync(join(__dirname, 'fixtures', 'qr', `${name}.png`)));
+  // happy-dom has no ImageData; decodeQr reads nothing but these fields
+  const image: Pick<ImageData, 'data' | 'width' | 'height'> = { data: new Uint8ClampedArray(png.data), width: png.width, height: png.height };
+  return image as ImageData;
+}
+
+describe('decodeQr', () => {
+  it('reads a clean code', () => {
+    expect(decodeQr(fixture('otpauth-clean'))).toBe('otpauth://totp/GitHub:alice?secret=JBSWY3DPEHPK3PXP&issuer=GitHub');
+  });
+
+  it('reads a low-contrast, noisy code on a grey background, as in a photo of a screen', () => {
+    expect(decodeQr(fixture('otpauth-photo'))).toMatch(/^otpauth:\/\/totp\/Example:bob%40example\.com\?/);
+  });
+
+  it('reads a light-on-dark code', () => {
+    expect(decodeQr(fixture('otpauth-inverted'))).toBe('otpauth://totp/Mail:carol?secret=JBSWY3DPEHPK3PXP');
+  });
+
+  it('returns null when the image holds no code', () => {
+    expect(decodeQr(fixture('no-code'))).toBeNull();
+  });
+});
+
+describe('parseOtpQr on scanned codes', () => {
+  it('keeps a single otpauth URI with its label', () => {
+    const [account] = parseOtpQr(decodeQr(fixture('otpauth-photo'))!);
+    expect(account).toMatchObject({ issuer: 'Example', account: 'bob@example.com' });
+    expect(TotpService.parse(account.uri)).toMatchObject({ algorithm: 'SHA256', digits: 8, period: 60 });
+  });
+
+  it('unpacks the time-based accounts of an authenticator export', () => {
+    const accounts = parseOtpQr(decodeQr(fixture('migration-export'))!);
+
+    // The export also holds a counter-based account, which is skipped
+    expect(accounts.map(a => [a.issuer, a.account])).toEqual([['GitHub', 'alice'], ['Example', 'bob@example.com']]);
+    expect(TotpService.parse(accounts[0].uri)).toMatchObject({ secret: TotpService.base32Decode('JBSWY3DPEHPK3PXP'), algorithm: 'SHA1', digits: 6, period: 30 });
+    expect(TotpService.parse(accounts[1].uri)).toMatchObject({ secret: new TextEncoder().encode('12345678901234567890'), algorithm: 'SHA256', digits: 8 });
+  });
+
+  it('rejects a code that holds something else', () => {
+    const text = decodeQr(fixture('not-otp'))!;
+    expect(text).toBe('https://example.com/login');
+    expect(() => parseOtpQr(text)).toThrow(OtpImportError);
+  });
+});
+
+describe('readQrFromFile', () => {
+  it('reports a file that is not an image', async () => {
+    await expect(readQrFromFile(new Blob(['not an image'], { type: 'text/plain' }))).rejects.toBeInstanceOf(QrImageError);
+  });
+});
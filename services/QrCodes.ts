@@ -0,0 +1,59 @@
+import jsQR from 'jsqr';
+import { encode } from 'uqr';
+
+/**
+ * QR codes in both directions: reading them from camera frames and uploaded
+ * images, and laying out the module grid of a code to draw. Everything runs
+ * locally; no image or decoded text leaves the page.
+ */
+
+// Phone photos are far larger than a QR code needs; scanning them full size is slow
+const MAX_IMAGE_SIDE = 1600;
+// Quiet zone of four modules, as the QR specification asks for
+const QUIET_ZONE = 4;
+
+export class QrImageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'QrImageError';
+  }
+}
+
+/** Text of the first QR code in an image, or null when there is none. Light-on-dark codes are read too. */
+export function decodeQr(image: ImageData): string | null {
+  return jsQR(image.data, image.width, image.height, { inversionAttempts: 'attemptBoth' })?.data ?? null;
+}
+
+/**
+ * Draws a video frame or image of `width` by `height` onto `canvas`, scaled
+ * down to a size that decodes quickly, and scans it.
+ */
+export function decodeQrFrom(source: CanvasImageSource, width: number, height: number, canvas: HTMLCanvasElement): string | null {
+  if (!width || !height) return null;
+  const scale = Math.min(1, MAX_IMAGE_SIDE / Math.max(width, height));
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+  const context = canvas.getContext('2d', { willReadFrequently: true })!;
+  context.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return decodeQr(context.getImageData(0, 0, canvas.width, canvas.height));
+}
+
+/** Scans an uploaded image file. Throws when the file is not an image the browser can open. */
+export async function readQrFromFile(file: Blob): Promise<string | null> {
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file);
+  } catch (e) {
+    throw new QrImageError("This file is not an image");
+  }
+  try {
+    return decodeQrFrom(bitmap, bitmap.width, bitmap.height, document.createElement('canvas'));
+  } finally {
+    bitmap.close();
+  }
+}
+
+/** Module grid for `text`, quiet zone included; `true` is a dark module. */
+export function qrMatrix(text: string): boolean[][] {
+  return encode(text, { ecc: 'M', border: QUIET_ZONE }).data;
+}
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { recoveryKeyToPhrase, normalizeRecoveryKey, phraseToBytes, checkPhrase, isHexRecoveryKey, RecoveryPhraseError, RECOVERY_PHRASE_WORDS } from './RecoveryPhrase';
+
+// BIP39 reference vectors for 192 bits of entropy
+const VECTORS: [string, string][] = [
+  ['000000000000000000000000000000000000000000000000', `${'abandon '.repeat(17)}agent`],
+  ['7F7F7F7F7F7F7F7F7F7F7F7F7F7F7F7F7F7F7F7F7F7F7F7F', `${'legal winner thank year wave sausage worth useful '.repeat(2)}legal will`],
+  ['FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF', `${'zoo '.repeat(17)}when`]
+];
+
+describe('recovery phrases', () => {
+  it.each(VECTORS)('spells %s as the BIP39 vector and back', (hex, phrase) => {
+    expect(recoveryKeyToPhrase(hex)).toBe(phrase);
+    expect(normalizeRecoveryKey(phrase)).toBe(hex);
+  });
+
+  it('round-trips random keys', () => {
+    for (let i = 0; i < 20; i++) {
+      const hex = Array.from(crypto.getRandomValues(new Uint8Array(24)), b => b.toString(16).padStart(2, '0')).join('').toUpperCase();
+      const phrase = recoveryKeyToPhrase(hex);
+      expect(phrase.split(' ')).toHaveLength(RECOVERY_PHRASE_WORDS);
+      expect(normalizeRecoveryKey(phrase)).toBe(hex);
+    }
+  });
+
+  it('accepts numbered, comma-separated and upper-case words', () => {
+    const [hex, phrase] = VECTORS[1];
+    const written = phrase.toUpperCase().split(' ').map((word, i) => `${i + 1}.${word}`).join(', ');
+    expect(normalizeRecoveryKey(written)).toBe(hex);
+  });
+
+  it('rejects a bad checksum', () => {
+    const wrongLast = `${'abandon '.repeat(17)}abandon`;
+    expect(checkPhrase(wrongLast).checksumValid).toBe(false);
+    expect(() => normalizeRecoveryKey(wrongLast)).toThrow("Checksum mismatch");
+  });
+
+  it('rejects a phrase of the wrong length', () => {
+    const short = 'abandon '.repeat(12).trim();
+    expect(checkPhrase(short).checksumValid).toBeNull();
+    expect(() => phraseToBytes(short, RECOVERY_PHRASE_WORDS)).toThrow(`Expected ${RECOVERY_PHRASE_WORDS} words, got 12`);
+  });
+
+  it('names an unknown word and suggests the likely one', () => {
+    const typo = VECTORS[0][1].replace(/agent$/, 'agnet');
+    expect(checkPhrase(typo).hints).toEqual([{ index: 17, word: 'agnet', suggestions: expect.arrayContaining(['agent']) }]);
+    expect(() => normalizeRecoveryKey(typo)).toThrow(RecoveryPhraseError);
+    expect(() => normalizeRecoveryKey(typo)).toThrow('Word 18 "agnet" is not in the word list');
+  });
+
+  it('keeps accepting the legacy hex form', () => {
+    expect(isHexRecoveryKey('7f7f 7f7f-7f7f 7f7f 7f7f 7f7f 7f7f 7f7f 7f7f 7f7f 7f7f 7f7f')).toBe(true);
+    expect(normalizeRecoveryKey('7f7f 7f7f-7f7f 7f7f 7f7f 7f7f 7f7f 7f7f 7f7f 7f7f 7f7f 7f7f')).toBe(VECTORS[1][0]);
+  });
+});
@@ -0,0 +1,131 @@
+import { entropyToMnemonic, mnemonicToEntropy } from '@scure/bip39';
+import { wordlist } from '@scure/bip39/wordlists/english.js';
+
+/**
+ * BIP39 encoding of the recovery key. The key itself is unchanged (24 random
+ * bytes whose hex form feeds the KDF), so keys written down as hex before
+ * phrases existed keep working; the phrase is an 18-word spelling of the same
+ * bytes with a 6-bit checksum that catches typos before any unlock attempt.
+ */
+
+/** 24 bytes of entropy plus a 6-bit checksum, at 11 bits per word. */
+export const RECOVERY_PHRASE_WORDS = 18;
+
+const RECOVERY_KEY_HEX = /^[0-9A-F]{48}$/;
+const MAX_SUGGESTIONS = 3;
+const WORDS = new Set(wordlist);
+
+export class RecoveryPhraseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RecoveryPhraseError';
+  }
+}
+
+export interface WordHint {
+  /** Position in the phrase, 0-based. */
+  index: number;
+  word: string;
+  suggestions: string[];
+}
+
+export interface PhraseCheck {
+  words: string[];
+  hints: WordHint[];
+  /** Null until every word is known and the count is right. */
+  checksumValid: boolean | null;
+}
+
+export function bytesToPhrase(bytes: Uint8Array): string {
+  return entropyToMnemonic(bytes, wordlist);
+}
+
+/** Decodes a phrase of the expected length; throws RecoveryPhraseError naming the first problem. */
+export function phraseToBytes(input: string, expectedWords: number): Uint8Array {
+  const check = checkPhrase(input, expectedWords);
+  if (check.hints.length) {
+    const { index, word, suggestions } = check.hints[0];
+    throw new RecoveryPhraseError(`Word ${index + 1} "${word}" is not in the word list${suggestions.length ? `. Did you mean ${suggestions.join(' or ')}?` : ''}`);
+  }
+  if (check.words.length !== expectedWords) throw new RecoveryPhraseError(`Expected ${expectedWords} words, got ${check.words.length}`);
+  if (!check.checksumValid) throw new RecoveryPhraseError("Checksum mismatch: a word is wrong or two words are swapped");
+  return mnemonicToEntropy(check.words.join(' '), wordlist);
+}
+
+/** Word-by-word validation for live feedback while the phrase is typed. */
+export function checkPhrase(input: string, expectedWords: number = RECOVERY_PHRASE_WORDS): PhraseCheck {
+  const words = splitWords(input);
+  const hints = words
+    .map((word, index) => ({ index, word }))
+    .filter(({ word }) => !WORDS.has(word))
+    .map(({ index, word }) => ({ index, word, suggestions: suggestWords(word) }));
+  let checksumValid: boolean | null = null;
+  if (!hints.length && words.length === expectedWords) {
+    try {
+      mnemonicToEntropy(words.join(' '), wordlist);
+      checksumValid = true;
+    } catch (e) {
+      checksumValid = false;
+    }
+  }
+  return { words, hints, checksumValid };
+}
+
+export function recoveryKeyToPhrase(hex: string): string {
+  return bytesToPhrase(hexToBytes(hex));
+}
+
+/** True when the input looks like the legacy hex form rather than words. */
+export function isHexRecoveryKey(input: string): boolean {
+  return RECOVERY_KEY_HEX.test(input.replace(/[\s-]/g, '').toUpperCase());
+}
+
+/**
+ * Accepts the recovery key as 48 hex characters (spaces and dashes ignored)
+ * or as its 18-word phrase and returns the canonical hex form.
+ */
+export function normalizeRecoveryKey(input: string): string {
+  if (isHexRecoveryKey(input)) return input.replace(/[\s-]/g, '').toUpperCase();
+  return bytesToHex(phraseToBytes(input, RECOVERY_PHRASE_WORDS));
+}
+
+export function hexToBytes(hex: string): Uint8Array {
+  return new Uint8Array(hex.match(/../g)!.map(byte => parseInt(byte, 16)));
+}
+
+export function bytesToHex(bytes: Uint8Array): string {
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('').toUpperCase();
+}
+
+function splitWords(input: string): string[] {
+  return input.toLowerCase().split(/[\s,]+/).map(w => w.replace(/^\d+[.)]/, '')).filter(Boolean);
+}
+
+/**
+ * BIP39 words are unique in their first four letters, so a shared prefix is the
+ * strongest hint; otherwise fall back to the closest words by edit distance.
+ */
+function suggestWords(word: string): string[] {
+  if (word.length >= 4) {
+    const byPrefix = wordlist.filter(w => w.startsWith(word.slice(0, 4)));
+    if (byPrefix.length) return byPrefix.slice(0, MAX_SUGGESTIONS);
+  }
+  return wordlist
+    .map(w => ({ w, d: editDistance(word, w) }))
+    .filter(({ d }) => d <= 2)
+    .sort((a, b) => a.d - b.d)
+    .slice(0, MAX_SUGGESTIONS)
+    .map(({ w }) => w);
+}
+
+function editDistance(a: string, b: string): number {
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = row;
+  }
+  return prev[b.length];
+}
@@ -0,0 +1,65 @@
+import { SessionPolicy } from './SessionPolicy';
+
+export type LockReason = 'idle' | 'hidden' | 'blur' | 'max-session';
+
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'wheel', 'touchstart', 'scroll'];
+const CHECK_INTERVAL_MS = 1000;
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Watches one unlocked session and calls `onLock` once when the policy says
+ * the vault should lock. Deadlines are compared against the wall clock on a
+ * short interval rather than armed as long timeouts, so a laptop waking from
+ * sleep locks immediately instead of resuming a stale timer.
+ */
+export class SessionMonitor {
+  private lastActivity = Date.now();
+  private readonly startedAt: number;
+  private interval: ReturnType<typeof setInterval> | null = null;
+  private locked = false;
+
+  constructor(private readonly policy: SessionPolicy, private readonly onLock: (reason: LockReason) => void, startedAt: number = Date.now()) {
+    this.startedAt = startedAt;
+  }
+
+  start() {
+    ACTIVITY_EVENTS.forEach(e => window.addEventListener(e, this.handleActivity, { passive: true, capture: true }));
+    document.addEventListener('visibilitychange', this.handleVisibility);
+    window.addEventListener('blur', this.handleBlur);
+    this.interval = setInterval(this.check, CHECK_INTERVAL_MS);
+  }
+
+  stop() {
+    ACTIVITY_EVENTS.forEach(e => window.removeEventListener(e, this.handleActivity, { capture: true }));
+    document.removeEventListener('visibilitychange', this.handleVisibility);
+    window.removeEventListener('blur', this.handleBlur);
+    if (this.interval) clearInterval(this.interval);
+    this.interval = null;
+  }
+
+  private lock(reason: LockReason) {
+    if (this.locked) return;
+    this.locked = true;
+    this.stop();
+    this.onLock(reason);
+  }
+
+  private handleActivity = () => {
+    this.lastActivity = Date.now();
+  };
+
+  private handleVisibility = () => {
+    if (document.visibilityState === 'hidden' && this.policy.lockOnHidden) this.lock('hidden');
+  };
+
+  private handleBlur = () => {
+    if (this.policy.lockOnBlur) this.lock('blur');
+  };
+
+  private check = () => {
+    const now = Date.now();
+    const { idleTimeoutMinutes, maxSessionMinutes } = this.policy;
+    if (maxSessionMinutes > 0 && now - this.startedAt >= maxSessionMinutes * MINUTE_MS) this.lock('max-session');
+    else if (idleTimeoutMinutes > 0 && now - this.lastActivity >= idleTimeoutMinutes * MINUTE_MS) this.lock('idle');
+  };
+}
@@ -0,0 +1,46 @@
+
+/**
+ * Session policy: when an unlocked vault locks itself and how long copied
+ * secrets stay on the clipboard. Stored encrypted under the VMK, so it only
+ * becomes known after unlock, which is the only time it is needed.
+ */
+
+export interface SessionPolicy {
+  /** Minutes without keyboard, pointer or scroll activity before locking. 0 disables. */
+  idleTimeoutMinutes: number;
+  /** Lock as soon as the tab is hidden (tab switch, minimise, screen off). */
+  lockOnHidden: boolean;
+  /** Lock when the window loses focus, even if it is still visible. */
+  lockOnBlur: boolean;
+  /** Hard cap on one unlocked session regardless of activity. 0 disables. */
+  maxSessionMinutes: number;
+  /** Seconds before a copied secret is wiped from the clipboard. 0 leaves it there. */
+  clipboardClearSeconds: number;
+}
+
+// lockOnHidden keeps the lock-on-tab-switch behaviour the app always had
+export const DEFAULT_SESSION_POLICY: SessionPolicy = {
+  idleTimeoutMinutes: 5,
+  lockOnHidden: true,
+  lockOnBlur: false,
+  maxSessionMinutes: 0,
+  clipboardClearSeconds: 30
+};
+
+export const IDLE_TIMEOUT_OPTIONS = [0, 1, 5, 15, 30, 60];
+export const MAX_SESSION_OPTIONS = [0, 30, 60, 240, 480];
+export const CLIPBOARD_CLEAR_OPTIONS = [0, 10, 30, 60, 120];
+
+/** Fills in fields missing from a policy saved by an older version, and any stored with the wrong type. */
+export function normalizePolicy(raw: unknown): SessionPolicy {
+  const stored: Record<string, unknown> = raw && typeof raw === 'object' ? { ...raw } : {};
+  const number = (key: keyof SessionPolicy, fallback: number) => typeof stored[key] === 'number' ? stored[key] : fallback;
+  const boolean = (key: keyof SessionPolicy, fallback: boolean) => typeof stored[key] === 'boolean' ? stored[key] : fallback;
+  return {
+    idleTimeoutMinutes: number('idleTimeoutMinutes', DEFAULT_SESSION_POLICY.idleTimeoutMinutes),
+    lockOnHidden: boolean('lockOnHidden', DEFAULT_SESSION_POLICY.lockOnHidden),
+    lockOnBlur: boolean('lockOnBlur', DEFAULT_SESSION_POLICY.lockOnBlur),
+    maxSessionMinutes: number('maxSessionMinutes', DEFAULT_SESSION_POLICY.maxSessionMinutes),
+    clipboardClearSeconds: number('clipboardClearSeconds', DEFAULT_SESSION_POLICY.clipboardClearSeconds)
+  };
+}
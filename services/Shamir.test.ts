@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { splitSecret, combineShares, shareToPhrase, phraseToShare, Share, MAX_SHARES, SHARE_PHRASE_WORDS } from './Shamir';
+import { RecoveryPhraseError } from './RecoveryPhrase';
+
+const secret = () => crypto.getRandomValues(new Uint8Array(24));
+
+/** Every way to pick `k` of the shares, in order. */
+function subsets(shares: Share[], k: number): Share[][] {
+  if (k === 0) return [[]];
+  return shares.flatMap((share, i) => subsets(shares.slice(i + 1), k - 1).map(rest => [share, ...rest]));
+}
+
+describe('splitSecret and combineShares', () => {
+  it.each([[2, 3], [2, 5], [3, 5], [4, 6], [5, 5], [MAX_SHARES, MAX_SHARES]])('rebuild the secret from any %i of %i shares', (threshold, count) => {
+    const key = secret();
+    const shares = splitSecret(key, threshold, count);
+    expect(shares.map(s => s.x)).toEqual(Array.from({ length: count }, (_, i) => i + 1));
+    for (const picked of subsets(shares, threshold)) expect(combineShares(picked)).toEqual(key);
+    // Shares beyond the threshold are ignored
+    expect(combineShares([...shares].reverse())).toEqual(key);
+  });
+
+  it('rejects fewer shares than the threshold, duplicates included', () => {
+    const [a, b, c] = splitSecret(secret(), 3, 5);
+    expect(() => combineShares([a, b])).toThrow(RecoveryPhraseError);
+    expect(() => combineShares([a, b, b])).toThrow("3 different shares are needed, got 2");
+    expect(() => combineShares([])).toThrow(RecoveryPhraseError);
+    expect(combineShares([a, b, c])).toHaveLength(24);
+  });
+
+  it('rejects shares of different splits', () => {
+    const [a, b] = splitSecret(secret(), 2, 3);
+    const [, other] = splitSecret(secret(), 2, 3);
+    // A fresh split gets a fresh set id; force a clash only in the one-in-65536 case
+    const mixed = other.setId === a.setId ? { ...other, setId: a.setId ^ 1 } : other;
+    expect(() => combineShares([a, mixed])).toThrow("These shares come from different splits");
+    expect(() => combineShares([a, { ...b, threshold: 3 }])).toThrow("These shares come from different splits");
+  });
+
+  it.each([[1, 3], [4, 3], [2, MAX_SHARES + 1], [2.5, 3]])('refuses to split %s of %s', (threshold, count) => {
+    expect(() => splitSecret(secret(), threshold, count)).toThrow(RangeError);
+  });
+});
+
+describe('share phrases', () => {
+  it('round-trip a share through its phrase', () => {
+    const key = secret();
+    const shares = splitSecret(key, 2, 3);
+    const phrases = shares.map(shareToPhrase);
+
+    expect(phrases[0].split(' ')).toHaveLength(SHARE_PHRASE_WORDS);
+    expect(phrases.map(phraseToShare)).toEqual(shares);
+    expect(combineShares([phraseToShare(phrases[2]), phraseToShare(phrases[0])])).toEqual(key);
+  });
+
+  it('rejects a phrase whose header is not a share', () => {
+    const share = splitSecret(secret(), 2, 3)[0];
+    expect(() => phraseToShare(shareToPhrase({ ...share, x: 0 }))).toThrow("Not a recovery share");
+    expect(() => phraseToShare(shareToPhrase({ ...share, threshold: MAX_SHARES + 1 }))).toThrow("Not a recovery share");
+  });
+});
@@ -0,0 +1,98 @@
+import { bytesToPhrase, phraseToBytes, RecoveryPhraseError } from './RecoveryPhrase';
+
+/**
+ * Shamir secret sharing of the recovery key over GF(2^8): each byte of the
+ * secret is the constant term of its own random polynomial of degree k-1, and
+ * share x holds every polynomial evaluated at x. Any k shares rebuild the key
+ * by Lagrange interpolation at 0; fewer reveal nothing about it.
+ *
+ * A share is written down as a 21-word BIP39 phrase over 28 bytes:
+ * threshold, x, a 2-byte set id shared by all shares of one split, and the
+ * 24 evaluated bytes. The id catches shares from different splits being mixed.
+ */
+
+export const SHARE_PHRASE_WORDS = 21;
+export const MAX_SHARES = 10;
+
+const SECRET_LENGTH = 24;
+const HEADER_LENGTH = 4;
+
+export interface Share {
+  threshold: number;
+  x: number;
+  setId: number;
+  y: Uint8Array;
+}
+
+// Log and antilog tables for GF(2^8) with the AES polynomial x^8 + x^4 + x^3 + x + 1 and generator 3
+const EXP = new Uint8Array(510);
+const LOG = new Uint8Array(256);
+for (let i = 0, v = 1; i < 255; i++) {
+  EXP[i] = EXP[i + 255] = v;
+  LOG[v] = i;
+  v ^= (v << 1) ^ (v & 0x80 ? 0x11b : 0);
+}
+
+function mul(a: number, b: number): number {
+  return a && b ? EXP[LOG[a] + LOG[b]] : 0;
+}
+
+function div(a: number, b: number): number {
+  return a ? EXP[LOG[a] + 255 - LOG[b]] : 0;
+}
+
+/** Splits the secret into `shares` parts of which any `threshold` rebuild it. */
+export function splitSecret(secret: Uint8Array, threshold: number, shares: number): Share[] {
+  if (!Number.isInteger(threshold) || !Number.isInteger(shares) || threshold < 2 || threshold > shares || shares > MAX_SHARES) {
+    throw new RangeError(`Cannot split into ${threshold} of ${shares} shares`);
+  }
+  const setId = window.crypto.getRandomValues(new Uint16Array(1))[0];
+  // coefficients[i] holds the random higher-degree coefficients for secret byte i
+  const coefficients = Array.from(secret, () => window.crypto.getRandomValues(new Uint8Array(threshold - 1)));
+  return Array.from({ length: shares }, (_, i) => {
+    const x = i + 1;
+    const y = Uint8Array.from(secret, (byte, b) => {
+      // Horner's scheme, highest degree first
+      let acc = 0;
+      for (let d = threshold - 2; d >= 0; d--) acc = mul(acc, x) ^ coefficients[b][d];
+      return mul(acc, x) ^ byte;
+    });
+    return { threshold, x, setId, y };
+  });
+}
+
+/** Rebuilds the secret from at least `threshold` distinct shares of one split. */
+export function combineShares(shares: Share[]): Uint8Array {
+  if (!shares.length) throw new RecoveryPhraseError("No shares entered");
+  const { threshold, setId } = shares[0];
+  if (shares.some(s => s.setId !== setId || s.threshold !== threshold)) throw new RecoveryPhraseError("These shares come from different splits");
+  const distinct = shares.filter((s, i) => shares.findIndex(o => o.x === s.x) === i);
+  if (distinct.length < threshold) throw new RecoveryPhraseError(`${threshold} different shares are needed, got ${distinct.length}`);
+
+  const used = distinct.slice(0, threshold);
+  const secret = new Uint8Array(SECRET_LENGTH);
+  for (const share of used) {
+    // Lagrange basis polynomial of this share evaluated at 0; subtraction is XOR in GF(2^8)
+    let basis = 1;
+    for (const other of used) {
+      if (other !== share) basis = mul(basis, div(other.x, other.x ^ share.x));
+    }
+    for (let b = 0; b < SECRET_LENGTH; b++) secret[b] ^= mul(share.y[b], basis);
+  }
+  return secret;
+}
+
+export function shareToPhrase(share: Share): string {
+  const bytes = new Uint8Array(HEADER_LENGTH + SECRET_LENGTH);
+  bytes.set([share.threshold, share.x, share.setId >> 8, share.setId & 0xff]);
+  bytes.set(share.y, HEADER_LENGTH);
+  return bytesToPhrase(bytes);
+}
+
+/** Throws RecoveryPhraseError for typos, a bad checksum or an implausible header. */
+export function phraseToShare(phrase: string): Share {
+  const bytes = phraseToBytes(phrase, SHARE_PHRASE_WORDS);
+  const [threshold, x, idHigh, idLow] = bytes;
+  if (threshold < 2 || threshold > MAX_SHARES || x < 1 || x > MAX_SHARES) throw new RecoveryPhraseError("Not a recovery share");
+  return { threshold, x, setId: (idHigh << 8) | idLow, y: bytes.slice(HEADER_LENGTH) };
+}
@@ -0,0 +1,56 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { parseEnvelope, ShareError, SHARE_FORMAT } from './ShareEnvelope';
+import { VaultService } from './VaultService';
+import { VaultItem, createItem } from './VaultItems';
+import { MemoryAdapter } from './storage';
+
+const envelope = (fields: object) => JSON.stringify({
+  format: SHARE_FORMAT, version: 1, createdAt: '2026-01-01T00:00:00.000Z',
+  sender: 's', recipient: 'r', ephemeral: 'e', data: 'd', signature: 'x', ...fields
+});
+
+describe('parseEnvelope', () => {
+  it('accepts a complete envelope', () => {
+    expect(parseEnvelope(envelope({}))).toMatchObject({ version: 1, sender: 's' });
+  });
+
+  it.each([['not JSON', '{'], ['JSON that is not an object', 'null'], ['another format', envelope({ format: 'other' })]])('rejects %s', (_, text) => {
+    expect(() => parseEnvelope(text)).toThrow(expect.objectContaining({ reason: 'malformed' }));
+  });
+
+  it.each([0, -1, 1.5, 2, '1'])('rejects version %s', version => {
+    expect(() => parseEnvelope(envelope({ version }))).toThrow(expect.objectContaining({ reason: 'unsupported-version' }));
+  });
+
+  it('rejects an envelope with a missing or non-text field', () => {
+    expect(() => parseEnvelope(envelope({ data: undefined }))).toThrow(ShareError);
+    expect(() => parseEnvelope(envelope({ signature: 42 }))).toThrow(ShareError);
+  });
+});
+
+describe('VaultService envelopes', () => {
+  let shareKey: string;
+
+  beforeEach(async () => {
+    await VaultService.initStorage(new MemoryAdapter());
+    await VaultService.initializeVault('Personal', 'correct horse battery staple');
+    shareKey = (await VaultService.getShareIdentity()).shareKey;
+  });
+
+  it('opens items sealed for this vault as new items', async () => {
+    const card = createItem({ kind: 'card', title: 'Visa', cardholder: 'A', number: '4111 1111 1111 1111', expiry: '01/30', cvv: '123', customFields: [], tags: ['bank'] });
+    const opened = await VaultService.openEnvelope(await VaultService.sealItems([card], shareKey));
+
+    expect(opened.items).toHaveLength(1);
+    expect(opened.items[0]).toMatchObject({ kind: 'card', title: 'Visa', number: '4111 1111 1111 1111', tags: ['bank'] });
+    expect(opened.items[0].id).not.toBe(card.id);
+  });
+
+  it('rejects signed items that lack required fields', async () => {
+    // As sealed by a buggy or hostile sender: a valid signature over a card without customFields
+    const { customFields, ...broken } = createItem({ kind: 'card', title: 'Visa', cardholder: 'A', number: '4111', expiry: '01/30', cvv: '123', customFields: [], tags: [] });
+    const text = await VaultService.sealItems([broken as VaultItem], shareKey);
+
+    await expect(VaultService.openEnvelope(text)).rejects.toMatchObject({ reason: 'corrupt' });
+  });
+});
@@ -0,0 +1,160 @@
+import { VaultItem, ItemDraft, toDraft } from './VaultItems';
+
+/**
+ * Item sharing between vaults. Every vault holds a share identity: an ECDH
+ * P-256 key pair to receive with and an ECDSA P-256 key pair to sign with,
+ * both private halves wrapped by the VMK. The two public halves together form
+ * the share key a user hands to whoever wants to send them items; its
+ * fingerprint is what both sides compare over another channel.
+ *
+ * Sealing derives a one-off AES-GCM key from a fresh ephemeral ECDH key and
+ * the recipient's key, so only the recipient can open the envelope, and signs
+ * the whole envelope with the sender's key, so the recipient knows who sent
+ * it and that nothing was changed on the way.
+ */
+
+export const SHARE_FORMAT = 'cyber-dt-vault-share';
+export const SHARE_VERSION = 1;
+
+const SHARE_KEY_PREFIX = 'cdv-share-key-v1:';
+const SHARE_AAD_PREFIX = 'ironvault-share-v1';
+// Uncompressed P-256 point: 0x04, x, y
+const PUBLIC_KEY_BYTES = 65;
+const FINGERPRINT_BYTES = 16;
+
+/** Raw public keys of a share identity. */
+export interface ShareKey {
+  encryption: Uint8Array;
+  signing: Uint8Array;
+}
+
+/**
+ * Sealed items as a file or pasted text. `signature` is ECDSA P-256 with
+ * SHA-256, by the sender's signing key, over every other field.
+ */
+export interface ShareEnvelope {
+  format: typeof SHARE_FORMAT;
+  version: number;
+  createdAt: string;
+  /** Share key of the sender, as text. */
+  sender: string;
+  /** Fingerprint of the recipient's share key. */
+  recipient: string;
+  /** Base64 raw public key of the ephemeral ECDH key. */
+  ephemeral: string;
+  /** Base64 IV and AES-GCM ciphertext of the SharePayload. */
+  data: string;
+  signature: string;
+}
+
+/**
+ * Plaintext of an envelope. Items travel as drafts: ids, timestamps and
+ * password history stay with the sender, and the recipient files them as new items.
+ */
+export interface SharePayload {
+  schemaVersion: number;
+  items: ItemDraft[];
+}
+
+export type ShareErrorReason = 'malformed' | 'unsupported-version' | 'bad-signature' | 'not-for-you' | 'corrupt';
+
+export class ShareError extends Error {
+  constructor(public reason: ShareErrorReason, message: string) {
+    super(message);
+    this.name = 'ShareError';
+  }
+}
+
+export function encodeShareKey(key: ShareKey): string {
+  const bytes = new Uint8Array(PUBLIC_KEY_BYTES * 2);
+  bytes.set(key.encryption);
+  bytes.set(key.signing, PUBLIC_KEY_BYTES);
+  return SHARE_KEY_PREFIX + toBase64Url(bytes);
+}
+
+export function parseShareKey(text: string): ShareKey {
+  const trimmed = text.trim();
+  if (!trimmed.startsWith(SHARE_KEY_PREFIX)) throw new ShareError('malformed', "This is not a share key");
+  let bytes: Uint8Array;
+  try {
+    bytes = fromBase64Url(trimmed.slice(SHARE_KEY_PREFIX.length));
+  } catch (e) {
+    throw new ShareError('malformed', "Share key is damaged");
+  }
+  if (bytes.length !== PUBLIC_KEY_BYTES * 2 || bytes[0] !== 4 || bytes[PUBLIC_KEY_BYTES] !== 4) throw new ShareError('malformed', "Share key is damaged");
+  return { encryption: bytes.slice(0, PUBLIC_KEY_BYTES), signing: bytes.slice(PUBLIC_KEY_BYTES) };
+}
+
+/** SHA-256 over both public keys, shortened and grouped for reading aloud, e.g. "3F2A 9C01 …". */
+export async function shareKeyFingerprint(key: ShareKey): Promise<string> {
+  const bytes = new Uint8Array(PUBLIC_KEY_BYTES * 2);
+  bytes.set(key.encryption);
+  bytes.set(key.signing, PUBLIC_KEY_BYTES);
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', bytes)).slice(0, FINGERPRINT_BYTES);
+  const hex = Array.from(digest, b => b.toString(16).padStart(2, '0')).join('').toUpperCase();
+  return hex.match(/.{4}/g)!.join(' ');
+}
+
+/** Fixed field order, so the signed bytes do not depend on how the JSON was parsed. */
+export function canonicalEnvelope(envelope: Omit<ShareEnvelope, 'signature'>): string {
+  return JSON.stringify({
+    format: envelope.format,
+    version: envelope.version,
+    createdAt: envelope.createdAt,
+    sender: envelope.sender,
+    recipient: envelope.recipient,
+    ephemeral: envelope.ephemeral,
+    data: envelope.data
+  });
+}
+
+/** Binds the ciphertext to its header, so it cannot be moved under another sender or recipient. */
+export function envelopeAad(envelope: Pick<ShareEnvelope, 'version' | 'sender' | 'recipient' | 'ephemeral'>): Uint8Array {
+  return new TextEncoder().encode(`${SHARE_AAD_PREFIX}\n${envelope.version}\n${envelope.sender}\n${envelope.recipient}\n${envelope.ephemeral}`);
+}
+
+/** Shape and version check only; the caller verifies the signature before trusting any field. */
+export function parseEnvelope(text: string): ShareEnvelope {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (e) {
+    throw new ShareError('malformed', "This is not a shared items envelope");
+  }
+  if (!isObject(parsed) || parsed.format !== SHARE_FORMAT) throw new ShareError('malformed', "This is not a shared items envelope");
+  const { version } = parsed;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1 || version > SHARE_VERSION) {
+    throw new ShareError('unsupported-version', `Envelope version ${version} is not supported by this app`);
+  }
+  if (!isEnvelope(parsed)) throw new ShareError('malformed', "Envelope is incomplete");
+  return parsed;
+}
+
+/** Shape of a decrypted payload; the items themselves are checked once migrated to the current schema. */
+export function isSharePayload(value: unknown): value is SharePayload {
+  return isObject(value) && typeof value.schemaVersion === 'number' && Number.isInteger(value.schemaVersion) && Array.isArray(value.items);
+}
+
+/** What a recipient gets of an item: the draft without favorite and folder, which are the sender's own organisation. */
+export function toSharedDraft(item: VaultItem): ItemDraft {
+  const { favorite, folder, ...draft } = toDraft(item);
+  return draft as ItemDraft;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+function isEnvelope(value: unknown): value is ShareEnvelope {
+  const fields = ['createdAt', 'sender', 'recipient', 'ephemeral', 'data', 'signature'];
+  return isObject(value) && fields.every(f => typeof value[f] === 'string');
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const b64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(b64 + '='.repeat((4 - b64.length % 4) % 4)), c => c.charCodeAt(0));
+}
@@ -0,0 +1,158 @@
+import { VaultItem } from './VaultItems';
+import { SyncSlot, SyncSlots } from './SyncProtocol';
+
+/**
+ * Item-level merge for sync. For every item the client remembers the server
+ * revision it last agreed on and what the item looked like then (the base).
+ * Comparing the local item and an incoming remote version against that base
+ * tells which side changed:
+ *
+ * - only the remote side: take the remote version
+ * - only the local side: keep it, and push it with the base revision
+ * - both, to different results: a conflict the user resolves
+ *
+ * An item missing locally while its base exists was purged here and is pushed
+ * as a tombstone; a remote tombstone removes the item where it is unchanged.
+ */
+
+export interface SyncBase {
+  rev: number;
+  /** Serialized item at that revision; null for a tombstone. */
+  json: string | null;
+}
+
+export interface RemoteChange {
+  id: string;
+  rev: number;
+  /** Null for a tombstone. */
+  item: VaultItem | null;
+}
+
+export interface SyncConflict {
+  id: string;
+  /** Null when the item was purged here. */
+  local: VaultItem | null;
+  /** Null when the item was deleted on another device. */
+  remote: VaultItem | null;
+  remoteRev: number;
+}
+
+export type ConflictChoice = 'local' | 'remote' | 'both';
+
+export interface SyncState {
+  base: Record<string, SyncBase>;
+  conflicts: SyncConflict[];
+}
+
+export interface PendingChange {
+  id: string;
+  baseRev: number;
+  item: VaultItem | null;
+}
+
+const serialize = (item: VaultItem | null | undefined) => item ? JSON.stringify(item) : null;
+
+/** Applies remote changes to the local items; returns the merged items and the new sync state. */
+export function mergeRemote(items: VaultItem[], state: SyncState, remote: RemoteChange[]): { items: VaultItem[] } & SyncState {
+  let merged = items;
+  const base = { ...state.base };
+  const conflicts = new Map(state.conflicts.map(c => [c.id, c]));
+  for (const change of remote) {
+    // Our own pushes come back on the next pull; their revision is already the base
+    if (change.rev <= (base[change.id]?.rev ?? 0)) continue;
+    const local = merged.find(i => i.id === change.id);
+    const localJson = serialize(local);
+    const remoteJson = serialize(change.item);
+    const localChanged = localJson !== (base[change.id]?.json ?? null);
+    let incoming = change.item;
+    if (localChanged && localJson !== remoteJson) {
+      if (!local || !change.item || !onlyUseDiffers(local, change.item)) {
+        conflicts.set(change.id, { id: change.id, local: local ?? null, remote: change.item, remoteRev: change.rev });
+        continue;
+      }
+      // Both sides merely used the item: take the remote version with the later use, which the next push uploads
+      incoming = { ...change.item, lastUsedAt: Math.max(local.lastUsedAt ?? 0, change.item.lastUsedAt ?? 0) || undefined };
+    }
+    merged = applyRemote(merged, change.id, incoming);
+    base[change.id] = { rev: change.rev, json: remoteJson };
+    conflicts.delete(change.id);
+  }
+  return { items: merged, base, conflicts: [...conflicts.values()] };
+}
+
+/** Local changes since the base, except items held back by an unresolved conflict. */
+export function pendingChanges(items: VaultItem[], state: SyncState): PendingChange[] {
+  const conflicted = new Set(state.conflicts.map(c => c.id));
+  const changes: PendingChange[] = [];
+  for (const item of items) {
+    const base = state.base[item.id];
+    if (conflicted.has(item.id) || serialize(item) === (base?.json ?? null)) continue;
+    changes.push({ id: item.id, baseRev: base?.rev ?? 0, item });
+  }
+  const present = new Set(items.map(i => i.id));
+  for (const [id, base] of Object.entries(state.base)) {
+    if (base.json !== null && !present.has(id) && !conflicted.has(id)) changes.push({ id, baseRev: base.rev, item: null });
+  }
+  return changes;
+}
+
+/** Records the revisions the server assigned to pushed changes. */
+export function acceptPushed(state: SyncState, pushed: PendingChange[], accepted: { id: string; rev: number }[]): SyncState {
+  const base = { ...state.base };
+  for (const { id, rev } of accepted) {
+    const change = pushed.find(c => c.id === id);
+    if (change) base[id] = { rev, json: serialize(change.item) };
+  }
+  return { ...state, base };
+}
+
+/**
+ * Settles a conflict. Either way the base moves to the remote revision: keeping
+ * the remote version makes the item unchanged, keeping the local one makes it a
+ * pending change on top of the remote revision, which the next push uploads.
+ * 'both' keeps the local version as a separate item under `copyId`.
+ */
+export function resolveConflict(items: VaultItem[], state: SyncState, id: string, choice: ConflictChoice, copyId: string): { items: VaultItem[] } & SyncState {
+  const conflict = state.conflicts.find(c => c.id === id);
+  if (!conflict) return { items, ...state };
+  // The item may have been edited further since the conflict was detected
+  const local = items.find(i => i.id === id);
+  let resolved = items;
+  if (choice !== 'local') {
+    resolved = applyRemote(resolved, id, conflict.remote);
+    if (choice === 'both' && local) resolved = [...resolved, { ...local, id: copyId, title: `${local.title} (this device)` }];
+  }
+  return {
+    items: resolved,
+    base: { ...state.base, [id]: { rev: conflict.remoteRev, json: serialize(conflict.remote) } },
+    conflicts: state.conflicts.filter(c => c.id !== id)
+  };
+}
+
+/** True when two versions of an item differ in lastUsedAt at most. */
+export function onlyUseDiffers(a: VaultItem, b: VaultItem): boolean {
+  const { lastUsedAt: _a, ...restA } = a;
+  const { lastUsedAt: _b, ...restB } = b;
+  return JSON.stringify(restA) === JSON.stringify(restB);
+}
+
+/**
+ * Merges the key slots the same way, slot by slot: one changed only here is
+ * kept, any other takes the server's version. A device still on an old master
+ * password that re-wrapped its slot thus adopts a new password set elsewhere
+ * instead of pushing the old one back over it.
+ */
+export function mergeSlots(base: SyncSlots, local: SyncSlots, remote: SyncSlots): SyncSlots {
+  const pick = (name: keyof SyncSlots) => !sameSlot(local[name], base[name]) && sameSlot(remote[name], base[name]) ? local[name] : remote[name];
+  return { master: pick('master'), recovery: pick('recovery') };
+}
+
+function sameSlot(a: SyncSlot, b: SyncSlot): boolean {
+  return a.salt === b.salt && (a.kdf || null) === (b.kdf || null) && a.vmk === b.vmk;
+}
+
+/** Replaces the item in place, appends it if new, or removes it for a tombstone. */
+function applyRemote(items: VaultItem[], id: string, item: VaultItem | null): VaultItem[] {
+  if (!item) return items.filter(i => i.id !== id);
+  return items.some(i => i.id === id) ? items.map(i => i.id === id ? item : i) : [...items, item];
+}
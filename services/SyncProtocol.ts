@@ -0,0 +1,98 @@
+/**
+ * Wire format between the sync client in VaultService and the reference
+ * server in server/syncServer.ts. The server only ever sees ciphertext:
+ * password-wrapped key slots, and item records encrypted under a key the
+ * server never learns. It orders changes and enforces revisions, nothing more.
+ *
+ * Every item change carries the revision it was based on; the server accepts
+ * it only if that is still the item's current revision and then assigns
+ * baseRev + 1. A deletion is an ordinary change whose plaintext is a
+ * tombstone, so the server cannot tell deletions from edits or forge them.
+ *
+ * The key slots are one more revisioned record: a push that replaces them
+ * names the slot revision it started from and is refused once another device
+ * got there first. Slots carry an HMAC under a VMK-derived key over sync id,
+ * revision and slots, so a device only adopts slots another device wrote.
+ */
+
+export const SYNC_API_PREFIX = '/v1/vaults';
+
+/** Sync ids are random UUIDs; the server rejects anything else before touching its disk. */
+export const SYNC_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+/** A password slot exactly as stored locally: salt, KDF header and wrapped VMK, all opaque to the server. */
+export interface SyncSlot {
+  salt: string;
+  kdf: string | null;
+  vmk: string;
+}
+
+export interface SyncSlots {
+  master: SyncSlot;
+  recovery: SyncSlot;
+}
+
+/** The slots with the revision the server assigned them. */
+export interface VersionedSlots {
+  rev: number;
+  slots: SyncSlots;
+  mac: string;
+}
+
+/** Current state of one item on the server. `seq` orders changes across all items of the vault. */
+export interface SyncRecord {
+  id: string;
+  rev: number;
+  seq: number;
+  data: string;
+}
+
+/** PUT {prefix}/{syncId}: registers a vault; the bearer token becomes its credential and the slots get revision 1. */
+export interface RegisterRequest {
+  slots: SyncSlots;
+  mac: string;
+}
+
+/** GET {prefix}/{syncId}/slots */
+export type SlotsResponse = VersionedSlots;
+
+/** GET {prefix}/{syncId}/changes?since={seq} */
+export interface PullResponse {
+  /** Highest seq of the vault; pass it as `since` on the next pull. */
+  seq: number;
+  records: SyncRecord[];
+  slots: VersionedSlots;
+}
+
+export interface PushChange {
+  id: string;
+  baseRev: number;
+  data: string;
+}
+
+/** Replacement slots; `mac` covers revision baseRev + 1, the one the server assigns. */
+export interface PushSlots {
+  baseRev: number;
+  slots: SyncSlots;
+  mac: string;
+}
+
+/** POST {prefix}/{syncId}/changes */
+export interface PushRequest {
+  changes: PushChange[];
+  /** Sent when the local slots changed, e.g. after a master password reset. */
+  slots?: PushSlots;
+}
+
+export interface PushResponse {
+  seq: number;
+  accepted: { id: string; rev: number }[];
+  /** Ids whose baseRev was stale; the next pull brings their current version. */
+  rejected: string[];
+  /** Whether the slots' baseRev was stale; the next pull brings the current ones. */
+  slotsRejected: boolean;
+}
+
+export function syncPath(syncId: string, resource: '' | '/slots' | '/changes' = ''): string {
+  return `${SYNC_API_PREFIX}/${syncId}${resource}`;
+}
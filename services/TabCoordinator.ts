@@ -0,0 +1,47 @@
+const CHANNEL_NAME = 'cyber-dt-vault-tabs';
+
+export type TabMessage =
+  | { type: 'lock' }
+  | { type: 'changed'; vaultId: string };
+
+/**
+ * Keeps the tabs of this origin in step over a BroadcastChannel. Locking in
+ * one tab locks all of them, and a tab that saved tells the others to reload
+ * the vault. A channel never delivers a message back to the tab that sent it,
+ * so handlers do not need to filter out their own announcements.
+ * Browsers without BroadcastChannel simply run every tab on its own.
+ */
+export class TabCoordinator {
+  private channel: BroadcastChannel | null = null;
+
+  constructor(private readonly onLock: () => void, private readonly onChanged: (vaultId: string) => void) {}
+
+  start() {
+    if (typeof BroadcastChannel === 'undefined') return;
+    this.channel = new BroadcastChannel(CHANNEL_NAME);
+    this.channel.onmessage = this.handleMessage;
+  }
+
+  stop() {
+    this.channel?.close();
+    this.channel = null;
+  }
+
+  announceLock() {
+    this.post({ type: 'lock' });
+  }
+
+  announceChange(vaultId: string) {
+    this.post({ type: 'changed', vaultId });
+  }
+
+  private post(message: TabMessage) {
+    this.channel?.postMessage(message);
+  }
+
+  private handleMessage = (event: MessageEvent<TabMessage>) => {
+    const message = event.data;
+    if (message?.type === 'lock') this.onLock();
+    else if (message?.type === 'changed' && typeof message.vaultId === 'string') this.onChanged(message.vaultId);
+  };
+}
@@ -0,0 +1,116 @@
+
+/**
+ * Failed-unlock bookkeeping shared by the master-password and recovery-key
+ * paths. The record is stored unencrypted next to the vault's slots because it
+ * has to be read before anything can be decrypted. That makes it a deterrent against guessing
+ * through the UI, not a defence against someone who copies the storage; the
+ * KDF work factor is what protects an offline copy.
+ */
+
+/** Failures allowed before any delay is imposed. */
+const FREE_ATTEMPTS = 3;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 15 * 60 * 1000;
+/** Failed attempts remembered for the post-unlock report. */
+const ATTEMPT_LOG_LIMIT = 50;
+
+export const WIPE_THRESHOLD_OPTIONS = [5, 10, 20];
+
+export type UnlockMethod = 'password' | 'recovery';
+
+export interface FailedAttempt {
+  at: number;
+  method: UnlockMethod;
+}
+
+export interface AttemptRecord {
+  /** Consecutive failures since the last successful unlock. */
+  failures: number;
+  lockedUntil: number;
+  log: FailedAttempt[];
+  /** Opt-in: erase the vault after this many consecutive failures. */
+  wipeAfter: number | null;
+  /** Time of the newest failure already copied into the encrypted audit log. */
+  auditedThrough: number;
+}
+
+export interface ThrottleStatus {
+  failures: number;
+  lockedUntil: number;
+  wipeAfter: number | null;
+}
+
+export class ThrottledError extends Error {
+  constructor(public readonly retryAt: number) {
+    super("Too many failed attempts");
+    this.name = 'ThrottledError';
+  }
+}
+
+export class VaultWipedError extends Error {
+  constructor(public readonly failures: number) {
+    super("Vault erased after repeated failed unlocks");
+    this.name = 'VaultWipedError';
+  }
+}
+
+/**
+ * Pure transitions over a vault's AttemptRecord. VaultService reads the record
+ * before each unlock and commits the updated one to the vault's storage.
+ */
+export class ThrottleService {
+  static parse(stored: string | null): AttemptRecord {
+    const empty: AttemptRecord = { failures: 0, lockedUntil: 0, log: [], wipeAfter: null, auditedThrough: 0 };
+    try {
+      const parsed = JSON.parse(stored ?? 'null');
+      return parsed ? { ...empty, ...parsed } : empty;
+    } catch (e) {
+      return empty;
+    }
+  }
+
+  static getStatus({ failures, lockedUntil, wipeAfter }: AttemptRecord): ThrottleStatus {
+    return { failures, lockedUntil, wipeAfter };
+  }
+
+  /** Throws ThrottledError while the backoff from the last failure is running. */
+  static assertCanAttempt({ lockedUntil }: AttemptRecord, now: number = Date.now()): void {
+    if (lockedUntil > now) throw new ThrottledError(lockedUntil);
+  }
+
+  /** Counts a failure, starts its backoff and logs it. */
+  static recordFailure(record: AttemptRecord, method: UnlockMethod, now: number = Date.now()): AttemptRecord {
+    const failures = record.failures + 1;
+    return {
+      ...record,
+      failures,
+      lockedUntil: now + this.delayFor(failures),
+      log: [{ at: now, method }, ...record.log].slice(0, ATTEMPT_LOG_LIMIT)
+    };
+  }
+
+  /** True once the opt-in wipe threshold has been reached; the caller performs the wipe. */
+  static shouldWipe({ failures, wipeAfter }: AttemptRecord): boolean {
+    return wipeAfter !== null && failures >= wipeAfter;
+  }
+
+  /** Resets the counter. The log is kept until the user has been shown it. */
+  static recordSuccess(record: AttemptRecord): AttemptRecord {
+    return { ...record, failures: 0, lockedUntil: 0 };
+  }
+
+  /** Logged failures not yet copied into the audit log, which can only be written once the vault is open. */
+  static unaudited(record: AttemptRecord): FailedAttempt[] {
+    return record.log.filter(attempt => attempt.at > record.auditedThrough);
+  }
+
+  static markAudited(record: AttemptRecord): AttemptRecord {
+    return { ...record, auditedThrough: Math.max(record.auditedThrough, ...record.log.map(attempt => attempt.at)) };
+  }
+
+  /** No delay for the first FREE_ATTEMPTS, then 1 s doubling per failure, capped. */
+  static delayFor(failures: number): number {
+    if (failures < FREE_ATTEMPTS) return 0;
+    return Math.min(BASE_DELAY_MS * 2 ** (failures - FREE_ATTEMPTS), MAX_DELAY_MS);
+  }
+}
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { TotpService, TotpAlgorithm, TotpConfig } from './TotpService';
+
+// RFC 6238 appendix B: the seed is ASCII "1234567890" repeated to the hash's output length
+const SEEDS: Record<TotpAlgorithm, string> = {
+  SHA1: '12345678901234567890',
+  SHA256: '12345678901234567890123456789012',
+  SHA512: '1234567890123456789012345678901234567890123456789012345678901234'
+};
+
+const VECTORS: [number, Record<TotpAlgorithm, string>][] = [
+  [59, { SHA1: '94287082', SHA256: '46119246', SHA512: '90693936' }],
+  [1111111109, { SHA1: '07081804', SHA256: '68084774', SHA512: '25091201' }],
+  [1111111111, { SHA1: '14050471', SHA256: '67062674', SHA512: '99943326' }],
+  [1234567890, { SHA1: '89005924', SHA256: '91819424', SHA512: '93441116' }],
+  [2000000000, { SHA1: '69279037', SHA256: '90698825', SHA512: '38618901' }],
+  [20000000000, { SHA1: '65353130', SHA256: '77737706', SHA512: '47863826' }]
+];
+
+const rfcConfig = (algorithm: TotpAlgorithm, digits: 6 | 8 = 8): TotpConfig =>
+  ({ secret: new TextEncoder().encode(SEEDS[algorithm]), algorithm, digits, period: 30 });
+
+describe('TotpService.generate', () => {
+  for (const algorithm of ['SHA1', 'SHA256', 'SHA512'] as const) {
+    it.each(VECTORS)(`matches the RFC 6238 ${algorithm} vector at %i s`, async (seconds, codes) => {
+      expect(await TotpService.generate(rfcConfig(algorithm), seconds * 1000)).toBe(codes[algorithm]);
+    });
+  }
+
+  it('keeps the last six digits for 6-digit codes', async () => {
+    expect(await TotpService.generate(rfcConfig('SHA1', 6), 59 * 1000)).toBe('287082');
+    expect(await TotpService.generate(rfcConfig('SHA1', 6), 1111111109 * 1000)).toBe('081804');
+  });
+
+  it('gives the same code within a period', async () => {
+    const config = rfcConfig('SHA1');
+    expect(await TotpService.generate(config, 1111111110 * 1000)).toBe(await TotpService.generate(config, 1111111111 * 1000));
+    expect(TotpService.secondsRemaining(30, 1111111111 * 1000)).toBe(29);
+  });
+});
+
+describe('TotpService.parse', () => {
+  it('reads the RFC seed from an otpauth URI', async () => {
+    const secret = TotpService.base32Encode(new TextEncoder().encode(SEEDS.SHA256));
+    const config = TotpService.parse(`otpauth://totp/Example:alice%40example.com?secret=${secret}&issuer=Example&algorithm=SHA256&digits=8`);
+
+    expect(config).toMatchObject({ algorithm: 'SHA256', digits: 8, period: 30, issuer: 'Example', account: 'alice@example.com' });
+    expect(await TotpService.generate(config, 59 * 1000)).toBe('46119246');
+    expect(TotpService.parse(TotpService.toUri(config))).toEqual(config);
+  });
+
+  it('rejects secrets that cannot produce codes', () => {
+    expect(() => TotpService.parse('not base32!')).toThrow("Secret is not valid base32");
+    expect(() => TotpService.parse('otpauth://hotp/x?secret=GEZDGNBV')).toThrow("Only time-based (totp) codes are supported");
+    expect(() => TotpService.parse('otpauth://totp/x?secret=GEZDGNBV&digits=7')).toThrow("TOTP codes must have 6 or 8 digits");
+  });
+});
@@ -0,0 +1,144 @@
+
+/**
+ * TotpService implements RFC 6238 time-based one-time passwords on top of
+ * WebCrypto HMAC. Secrets are accepted as raw base32 or as otpauth:// URIs.
+ */
+
+export type TotpAlgorithm = 'SHA1' | 'SHA256' | 'SHA512';
+
+export interface TotpConfig {
+  secret: Uint8Array;
+  algorithm: TotpAlgorithm;
+  digits: 6 | 8;
+  period: number;
+  issuer?: string;
+  account?: string;
+}
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const HASH_NAMES: Record<TotpAlgorithm, string> = { SHA1: 'SHA-1', SHA256: 'SHA-256', SHA512: 'SHA-512' };
+
+export class TotpService {
+  /**
+   * Parses a base32 secret or an otpauth://totp/ URI. Throws on anything that cannot produce codes.
+   */
+  static parse(input: string): TotpConfig {
+    const trimmed = input.trim();
+    if (!/^otpauth:/i.test(trimmed)) {
+      return { secret: this.requireSecret(trimmed), algorithm: 'SHA1', digits: 6, period: 30 };
+    }
+
+    let url: URL;
+    try {
+      url = new URL(trimmed);
+    } catch (e) {
+      throw new Error("Malformed otpauth URI");
+    }
+    if (url.host.toLowerCase() !== 'totp') throw new Error("Only time-based (totp) codes are supported");
+
+    const params = url.searchParams;
+    const algorithm = (params.get('algorithm') ?? 'SHA1').toUpperCase() as TotpAlgorithm;
+    if (!(algorithm in HASH_NAMES)) throw new Error(`Unsupported TOTP algorithm: ${algorithm}`);
+    const digits = Number(params.get('digits') ?? 6);
+    if (digits !== 6 && digits !== 8) throw new Error("TOTP codes must have 6 or 8 digits");
+    const period = Number(params.get('period') ?? 30);
+    if (!Number.isInteger(period) || period <= 0) throw new Error("TOTP period must be a positive number of seconds");
+
+    // Label is "Issuer:account" or just "account", percent-encoded
+    const label = decodeURIComponent(url.pathname.replace(/^\/+/, ''));
+    const [labelIssuer, account] = label.includes(':') ? label.split(/:(.*)/s, 2) : [undefined, label];
+
+    return {
+      secret: this.requireSecret(params.get('secret') ?? ''),
+      algorithm,
+      digits,
+      period,
+      issuer: params.get('issuer') ?? labelIssuer,
+      account: account || undefined
+    };
+  }
+
+  /**
+   * Inverse of parse: an otpauth://totp/ URI carrying the whole config, for secrets that arrive in another form.
+   */
+  static toUri(config: TotpConfig): string {
+    const label = [config.issuer, config.account].filter(Boolean).map(part => encodeURIComponent(part!)).join(':');
+    const params = new URLSearchParams({ secret: this.base32Encode(config.secret) });
+    if (config.issuer) params.set('issuer', config.issuer);
+    params.set('algorithm', config.algorithm);
+    params.set('digits', String(config.digits));
+    params.set('period', String(config.period));
+    return `otpauth://totp/${label}?${params}`;
+  }
+
+  static isValid(input: string): boolean {
+    try {
+      this.parse(input);
+      return true;
+    } catch (e) {
+      return false;
+    }
+  }
+
+  /**
+   * Computes the code for the time step containing `timestampMs` (RFC 4226 dynamic truncation).
+   */
+  static async generate(config: TotpConfig, timestampMs: number = Date.now()): Promise<string> {
+    const counter = Math.floor(timestampMs / 1000 / config.period);
+    const message = new Uint8Array(8);
+    // Split into two 32-bit halves; bitwise ops in JS are limited to 32 bits
+    new DataView(message.buffer).setUint32(0, Math.floor(counter / 0x100000000));
+    new DataView(message.buffer).setUint32(4, counter >>> 0);
+
+    const key = await window.crypto.subtle.importKey("raw", config.secret, { name: "HMAC", hash: HASH_NAMES[config.algorithm] }, false, ["sign"]);
+    const mac = new Uint8Array(await window.crypto.subtle.sign("HMAC", key, message));
+
+    const offset = mac[mac.length - 1] & 0x0f;
+    const binary = ((mac[offset] & 0x7f) << 24) | (mac[offset + 1] << 16) | (mac[offset + 2] << 8) | mac[offset + 3];
+    return (binary % 10 ** config.digits).toString().padStart(config.digits, '0');
+  }
+
+  static secondsRemaining(period: number, timestampMs: number = Date.now()): number {
+    return period - Math.floor(timestampMs / 1000) % period;
+  }
+
+  static base32Decode(input: string): Uint8Array {
+    const clean = input.replace(/[\s-]/g, '').replace(/=+$/, '').toUpperCase();
+    const bytes: number[] = [];
+    let bits = 0;
+    let value = 0;
+    for (const char of clean) {
+      const index = BASE32_ALPHABET.indexOf(char);
+      if (index === -1) throw new Error("Secret is not valid base32");
+      value = (value << 5) | index;
+      bits += 5;
+      if (bits >= 8) {
+        bytes.push((value >>> (bits - 8)) & 0xff);
+        bits -= 8;
+      }
+    }
+    return new Uint8Array(bytes);
+  }
+
+  static base32Encode(bytes: Uint8Array): string {
+    let output = '';
+    let bits = 0;
+    let value = 0;
+    for (const byte of bytes) {
+      value = (value << 8) | byte;
+      bits += 8;
+      while (bits >= 5) {
+        output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+        bits -= 5;
+      }
+    }
+    if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    return output;
+  }
+
+  private static requireSecret(base32: string): Uint8Array {
+    const secret = this.base32Decode(base32);
+    if (secret.length === 0) throw new Error("TOTP secret is empty");
+    return secret;
+  }
+}
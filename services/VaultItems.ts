@@ -0,0 +1,309 @@
+
+/**
+ * Item model stored in the vault's item records.
+ * Backups and the pre-record DATA_BLOB hold `{ schemaVersion, items }`;
+ * `migrateVaultData` upgrades any older shape (schema 1 was a bare array of
+ * flat login objects) on unlock.
+ */
+
+export const SCHEMA_VERSION = 4;
+
+/** Previous passwords kept per login. */
+export const PASSWORD_HISTORY_LIMIT = 10;
+
+/** Days a deleted item stays in the recycle bin before it is purged on unlock. */
+export const RECYCLE_BIN_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type CustomFieldType = 'text' | 'hidden' | 'url';
+
+export interface CustomField {
+  id: string;
+  label: string;
+  value: string;
+  type: CustomFieldType;
+}
+
+export interface PasswordHistoryEntry {
+  password: string;
+  /** When this password was replaced (epoch ms). */
+  changedAt: number;
+}
+
+interface BaseItem {
+  id: string;
+  title: string;
+  customFields: CustomField[];
+  /** Slash-separated path, e.g. "Work/Servers". Unset for items at the root. */
+  folder?: string;
+  tags: string[];
+  /** Favorites are pinned above every sort order. */
+  favorite?: boolean;
+  createdAt: number;
+  updatedAt: number;
+  /** Last time a secret was revealed; drives the "recently used" sort. */
+  lastUsedAt?: number;
+  /** Set while the item sits in the recycle bin. */
+  deletedAt?: number;
+}
+
+export interface LoginItem extends BaseItem {
+  kind: 'login';
+  username: string;
+  password: string;
+  url?: string;
+  /** Base32 secret or otpauth:// URI for the item's authenticator code. */
+  totp?: string;
+  notes?: string;
+  /** Newest first, capped at PASSWORD_HISTORY_LIMIT. */
+  passwordHistory?: PasswordHistoryEntry[];
+}
+
+export interface NoteItem extends BaseItem {
+  kind: 'note';
+  notes: string;
+}
+
+export interface CardItem extends BaseItem {
+  kind: 'card';
+  cardholder: string;
+  number: string;
+  /** MM/YY as printed on the card. */
+  expiry: string;
+  cvv: string;
+  notes?: string;
+}
+
+export interface IdentityItem extends BaseItem {
+  kind: 'identity';
+  fullName: string;
+  email: string;
+  phone: string;
+  address: string;
+  notes?: string;
+}
+
+export type VaultItem = LoginItem | NoteItem | CardItem | IdentityItem;
+export type VaultItemKind = VaultItem['kind'];
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+
+/** User-editable part of an item, as produced by the item form and the importers. */
+export type ItemDraft = DistributiveOmit<VaultItem, 'id' | 'createdAt' | 'updatedAt' | 'lastUsedAt' | 'deletedAt' | 'passwordHistory'>;
+
+export interface VaultData {
+  schemaVersion: number;
+  items: VaultItem[];
+}
+
+export const ITEM_KIND_LABELS: Record<VaultItemKind, string> = {
+  login: 'Login',
+  note: 'Secure Note',
+  card: 'Payment Card',
+  identity: 'Identity'
+};
+
+export function emptyDraft(kind: VaultItemKind): ItemDraft {
+  switch (kind) {
+    case 'login': return { kind, title: '', username: '', password: '', customFields: [], tags: [] };
+    case 'note': return { kind, title: '', notes: '', customFields: [], tags: [] };
+    case 'card': return { kind, title: '', cardholder: '', number: '', expiry: '', cvv: '', customFields: [], tags: [] };
+    case 'identity': return { kind, title: '', fullName: '', email: '', phone: '', address: '', customFields: [], tags: [] };
+  }
+}
+
+/** Minimum content for each kind before it can be saved. */
+export function isDraftComplete(draft: ItemDraft): boolean {
+  if (!draft.title.trim() || draft.customFields.some(f => !f.label.trim())) return false;
+  switch (draft.kind) {
+    case 'login': return !!draft.password;
+    case 'note': return !!draft.notes.trim();
+    case 'card': return !!draft.number.trim();
+    case 'identity': return !!draft.fullName.trim();
+  }
+}
+
+export function createItem(draft: ItemDraft, now: number = Date.now()): VaultItem {
+  return { ...draft, id: crypto.randomUUID(), createdAt: now, updatedAt: now } as VaultItem;
+}
+
+/**
+ * Applies an edit, keeping identity and creation time. A changed login
+ * password is pushed onto the item's history.
+ */
+export function updateItem(item: VaultItem, draft: ItemDraft, now: number = Date.now()): VaultItem {
+  const updated = { ...draft, id: item.id, createdAt: item.createdAt, updatedAt: now, lastUsedAt: item.lastUsedAt } as VaultItem;
+  if (item.kind === 'login' && updated.kind === 'login') {
+    const history = item.passwordHistory ?? [];
+    updated.passwordHistory = item.password && item.password !== updated.password
+      ? [{ password: item.password, changedAt: now }, ...history].slice(0, PASSWORD_HISTORY_LIMIT)
+      : history;
+  }
+  return updated;
+}
+
+export function toDraft(item: VaultItem): ItemDraft {
+  const { id, createdAt, updatedAt, lastUsedAt, deletedAt, ...draft } = item;
+  if (draft.kind === 'login') delete draft.passwordHistory;
+  return draft;
+}
+
+/** Records use without counting as a modification. */
+export function markUsed(item: VaultItem, now: number = Date.now()): VaultItem {
+  return { ...item, lastUsedAt: now };
+}
+
+export function toggleFavorite(item: VaultItem): VaultItem {
+  return { ...item, favorite: !item.favorite };
+}
+
+/** Trims each segment and drops empty ones, so " Work// Servers " becomes "Work/Servers". */
+export function normalizeFolder(path: string | undefined): string | undefined {
+  const normalized = (path ?? '').split('/').map(s => s.trim()).filter(Boolean).join('/');
+  return normalized || undefined;
+}
+
+export function normalizeTags(tags: string[]): string[] {
+  const seen = new Set<string>();
+  return tags.map(t => t.trim()).filter(t => {
+    const key = t.toLowerCase();
+    if (!t || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+export function moveToRecycleBin(item: VaultItem, now: number = Date.now()): VaultItem {
+  return { ...item, deletedAt: now };
+}
+
+export function restoreItem(item: VaultItem): VaultItem {
+  const { deletedAt, ...restored } = item;
+  return restored as VaultItem;
+}
+
+export function isActive(item: VaultItem): boolean {
+  return !item.deletedAt;
+}
+
+export function recycleBinExpiry(item: VaultItem): number {
+  return (item.deletedAt ?? 0) + RECYCLE_BIN_DAYS * DAY_MS;
+}
+
+/** Drops recycle-bin items whose retention period has passed. */
+export function purgeRecycleBin(items: VaultItem[], now: number = Date.now()): { items: VaultItem[]; purged: boolean } {
+  const kept = items.filter(item => isActive(item) || recycleBinExpiry(item) > now);
+  return { items: kept, purged: kept.length !== items.length };
+}
+
+/** Secondary line shown under the title on a card. */
+export function itemSubtitle(item: ItemDraft): string {
+  switch (item.kind) {
+    case 'login': return item.username || item.url || 'Vault Entry';
+    case 'note': return 'Secure Note';
+    case 'card': return item.number ? `•••• ${item.number.replace(/\s/g, '').slice(-4)}` : 'Payment Card';
+    case 'identity': return item.email || item.fullName;
+  }
+}
+
+/** Whether `value` has the shape of a current-schema item; for items that arrive from outside the vault. */
+export function isVaultItem(value: unknown): value is VaultItem {
+  if (!isRecord(value)) return false;
+  const base = hasFields(value, ['id', 'title'], 'string') && hasFields(value, ['createdAt', 'updatedAt'], 'number')
+    && Array.isArray(value.customFields) && value.customFields.every(isCustomField)
+    && Array.isArray(value.tags) && value.tags.every(tag => typeof tag === 'string')
+    && hasOptionalFields(value, ['folder'], 'string') && hasOptionalFields(value, ['favorite'], 'boolean')
+    && hasOptionalFields(value, ['lastUsedAt', 'deletedAt'], 'number');
+  if (!base) return false;
+  switch (value.kind) {
+    case 'login':
+      return hasFields(value, ['username', 'password'], 'string') && hasOptionalFields(value, ['url', 'totp', 'notes'], 'string')
+        && (value.passwordHistory === undefined || Array.isArray(value.passwordHistory) && value.passwordHistory.every(isHistoryEntry));
+    case 'note': return hasFields(value, ['notes'], 'string');
+    case 'card': return hasFields(value, ['cardholder', 'number', 'expiry', 'cvv'], 'string') && hasOptionalFields(value, ['notes'], 'string');
+    case 'identity': return hasFields(value, ['fullName', 'email', 'phone', 'address'], 'string') && hasOptionalFields(value, ['notes'], 'string');
+    default: return false;
+  }
+}
+
+export function serializeVaultData(items: VaultItem[]): string {
+  const data: VaultData = { schemaVersion: SCHEMA_VERSION, items };
+  return JSON.stringify(data);
+}
+
+/**
+ * Upgrades decrypted blob contents to the current schema. `migrated` tells the
+ * caller to write the result back so the upgrade only happens once.
+ */
+export function migrateVaultData(raw: unknown, now: number = Date.now()): { items: VaultItem[]; migrated: boolean } {
+  // Schema 1 had no envelope at all
+  const data: VaultData = Array.isArray(raw) ? { schemaVersion: 1, items: raw } : raw as VaultData;
+  if (!data || typeof data.schemaVersion !== 'number' || !Array.isArray(data.items)) {
+    throw new Error("Unrecognized vault data");
+  }
+  if (data.schemaVersion > SCHEMA_VERSION) {
+    throw new Error(`Vault data schema ${data.schemaVersion} is newer than this app supports`);
+  }
+
+  let items: unknown[] = data.items;
+  for (let version = data.schemaVersion; version < SCHEMA_VERSION; version++) {
+    items = MIGRATIONS[version](items, now);
+  }
+  return { items: items as VaultItem[], migrated: data.schemaVersion !== SCHEMA_VERSION };
+}
+
+/** Schema 1 item: a flat login. */
+interface ItemV1 {
+  id: string;
+  title?: string;
+  username?: string;
+  password?: string;
+  totp?: string;
+}
+
+/** Schema 3 items had no organisation metadata, and schema 2 items no timestamps either. */
+type ItemV3 = DistributiveOmit<VaultItem, 'tags' | 'folder' | 'favorite' | 'lastUsedAt' | 'deletedAt'>;
+type ItemV2 = DistributiveOmit<ItemV3, 'createdAt' | 'updatedAt'>;
+
+/** MIGRATIONS[n] upgrades items from schema n to n + 1. */
+const MIGRATIONS: Record<number, (items: unknown[], now: number) => unknown[]> = {
+  // 1 -> 2: flat { id, title, username, password, totp? } become typed logins
+  1: (items) => (items as ItemV1[]).map((legacy): ItemV2 => ({
+    kind: 'login',
+    id: legacy.id,
+    title: legacy.title ?? '',
+    username: legacy.username ?? '',
+    password: legacy.password ?? '',
+    ...(legacy.totp ? { totp: legacy.totp } : {}),
+    customFields: []
+  })),
+  // 2 -> 3: timestamps; the real creation time is unknown, so use the upgrade time
+  2: (items, now) => (items as ItemV2[]).map((item): ItemV3 => ({ ...item, createdAt: now, updatedAt: now })),
+  // 3 -> 4: organisation metadata; everything starts untagged at the root
+  3: (items) => (items as ItemV3[]).map((item): VaultItem => ({ ...item, tags: [] }))
+};
+
+type FieldType = 'string' | 'number' | 'boolean';
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function hasFields(value: Record<string, unknown>, keys: string[], type: FieldType): boolean {
+  return keys.every(key => typeof value[key] === type);
+}
+
+function hasOptionalFields(value: Record<string, unknown>, keys: string[], type: FieldType): boolean {
+  return keys.every(key => value[key] === undefined || typeof value[key] === type);
+}
+
+const CUSTOM_FIELD_TYPES: CustomFieldType[] = ['text', 'hidden', 'url'];
+
+function isCustomField(value: unknown): value is CustomField {
+  return isRecord(value) && hasFields(value, ['id', 'label', 'value'], 'string') && CUSTOM_FIELD_TYPES.some(type => type === value.type);
+}
+
+function isHistoryEntry(value: unknown): value is PasswordHistoryEntry {
+  return isRecord(value) && typeof value.password === 'string' && typeof value.changedAt === 'number';
+}
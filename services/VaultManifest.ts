@@ -0,0 +1,125 @@
+/**
+ * Per-record vault layout. Every item is its own AES-GCM record whose
+ * additional authenticated data binds the vault id, item id and revision, so
+ * a record only decrypts in the place and version it was written for. The
+ * manifest lists the records in order with their revisions and carries an
+ * HMAC under a VMK-derived key; together they catch a record being rolled
+ * back, deleted, swapped with another or moved to another vault.
+ *
+ * Rolling back the whole vault, manifest included, to an earlier consistent
+ * state is only caught while the app stays open, by comparing the counter
+ * with the highest one seen this session. Anything stored next to the vault
+ * can be rolled back together with it, so a rollback made while the app was
+ * closed goes unnoticed.
+ *
+ * The manifest counter grows with every save and doubles as the revision of
+ * the records written in that save.
+ */
+
+export const MANIFEST_VERSION = 1;
+
+const ITEM_AAD_PREFIX = 'ironvault-item-v1';
+
+export interface ManifestEntry {
+  id: string;
+  rev: number;
+}
+
+export interface VaultManifest {
+  version: number;
+  vaultId: string;
+  counter: number;
+  /** Item schema of the records, see SCHEMA_VERSION in VaultItems. */
+  schemaVersion: number;
+  items: ManifestEntry[];
+}
+
+export interface SignedManifest {
+  manifest: VaultManifest;
+  mac: string;
+}
+
+export class VaultIntegrityError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'VaultIntegrityError';
+  }
+}
+
+/** Records written by a save: changed items get the new counter as revision, removed ones are deleted. */
+export interface SavePlan {
+  manifest: VaultManifest;
+  changed: string[];
+  removed: string[];
+}
+
+export function emptyManifest(vaultId: string, schemaVersion: number): VaultManifest {
+  return { version: MANIFEST_VERSION, vaultId, counter: 0, schemaVersion, items: [] };
+}
+
+/** Fixed field order, so the MAC input does not depend on how the JSON was parsed. */
+export function canonicalManifest(manifest: VaultManifest): string {
+  return JSON.stringify({
+    version: manifest.version,
+    vaultId: manifest.vaultId,
+    counter: manifest.counter,
+    schemaVersion: manifest.schemaVersion,
+    items: manifest.items.map(({ id, rev }) => ({ id, rev }))
+  });
+}
+
+export function itemAad(vaultId: string, entry: ManifestEntry): Uint8Array {
+  return new TextEncoder().encode(`${ITEM_AAD_PREFIX}\n${vaultId}\n${entry.id}\n${entry.rev}`);
+}
+
+/** Shape check only; the caller verifies the MAC before trusting any field. */
+export function parseSignedManifest(stored: string): SignedManifest {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(stored);
+  } catch (e) {
+    throw new VaultIntegrityError("Vault manifest is unreadable");
+  }
+  if (!isObject(parsed) || typeof parsed.mac !== 'string' || !isManifest(parsed.manifest)) throw new VaultIntegrityError("Vault manifest is malformed");
+  const { manifest, mac } = parsed;
+  if (manifest.version > MANIFEST_VERSION) throw new VaultIntegrityError(`Vault manifest version ${manifest.version} is newer than this app supports`);
+  return { manifest, mac };
+}
+
+/**
+ * Compares the items about to be saved with the serialized records of the
+ * current manifest. Only new or modified items are rewritten; the manifest is
+ * rewritten on every save since its order and counter always change together.
+ */
+export function planSave(current: VaultManifest, stored: Map<string, string>, items: { id: string; json: string }[], schemaVersion: number): SavePlan {
+  const counter = current.counter + 1;
+  // A schema upgrade changes what every record means, so all of them are rewritten
+  const rewriteAll = schemaVersion !== current.schemaVersion;
+  const previous = new Map(current.items.map(e => [e.id, e.rev]));
+  const changed: string[] = [];
+  const entries = items.map(({ id, json }) => {
+    const rev = previous.get(id);
+    if (rev !== undefined && !rewriteAll && stored.get(id) === json) return { id, rev };
+    changed.push(id);
+    return { id, rev: counter };
+  });
+  const kept = new Set(items.map(i => i.id));
+  const removed = current.items.filter(e => !kept.has(e.id)).map(e => e.id);
+  return {
+    manifest: { version: MANIFEST_VERSION, vaultId: current.vaultId, counter, schemaVersion, items: entries },
+    changed,
+    removed
+  };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+function isManifest(value: unknown): value is VaultManifest {
+  return isObject(value)
+    && typeof value.vaultId === 'string'
+    && Number.isInteger(value.version) && Number.isInteger(value.counter) && Number.isInteger(value.schemaVersion)
+    && Array.isArray(value.items)
+    && value.items.every(e => isObject(e) && typeof e.id === 'string' && Number.isInteger(e.rev));
+}
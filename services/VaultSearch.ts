@@ -0,0 +1,169 @@
+
+import { VaultItem } from './VaultItems';
+
+/**
+ * Filtering, fuzzy search and ordering for the vault list. Everything here
+ * runs on decrypted items in memory; nothing is indexed at rest.
+ */
+
+export type SortOrder = 'name' | 'recently-used' | 'recently-modified';
+
+export const SORT_LABELS: Record<SortOrder, string> = {
+  'name': 'Name',
+  'recently-used': 'Recently Used',
+  'recently-modified': 'Recently Modified'
+};
+
+export interface VaultFilter {
+  query: string;
+  /** Folder path; matches the folder itself and everything nested below it. */
+  folder: string | null;
+  tag: string | null;
+  favoritesOnly: boolean;
+  sort: SortOrder;
+}
+
+export const EMPTY_FILTER: VaultFilter = { query: '', folder: null, tag: null, favoritesOnly: false, sort: 'name' };
+
+export interface SearchEntry {
+  item: VaultItem;
+  /** Lower-cased searchable fields, title first. */
+  fields: string[];
+}
+
+export interface FolderNode {
+  name: string;
+  path: string;
+  /** Items in this folder and all of its subfolders. */
+  count: number;
+  children: FolderNode[];
+}
+
+// Matches in the title count for more than matches in username, URL or tags
+const TITLE_WEIGHT = 2;
+
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+/** Built once per item list so each keystroke only runs the scoring. */
+export function buildSearchIndex(items: VaultItem[]): SearchEntry[] {
+  return items.map(item => {
+    const fields = [item.title];
+    if (item.kind === 'login') fields.push(item.username, item.url ?? '');
+    if (item.kind === 'identity') fields.push(item.email);
+    fields.push(...item.tags);
+    return { item, fields: fields.map(f => f.toLowerCase()) };
+  });
+}
+
+/**
+ * Scores `needle` against `haystack` (both lower-case). Substrings score
+ * highest, earlier and word-aligned ones more so; otherwise the characters
+ * must appear in order, with runs and word starts rewarded. -1 means no match.
+ */
+export function fuzzyScore(needle: string, haystack: string): number {
+  if (!needle) return 0;
+  const index = haystack.indexOf(needle);
+  if (index >= 0) return 100 + needle.length * 4 - Math.min(index, 20) + (isWordStart(haystack, index) ? 20 : 0);
+
+  let score = 0;
+  let previous = -2;
+  let position = 0;
+  for (const char of needle) {
+    const found = haystack.indexOf(char, position);
+    if (found < 0) return -1;
+    score += 1;
+    if (found === previous + 1) score += 5;
+    if (isWordStart(haystack, found)) score += 8;
+    previous = found;
+    position = found + 1;
+  }
+  return score;
+}
+
+function isWordStart(text: string, index: number): boolean {
+  return index === 0 || /[\s\-_.@/:]/.test(text[index - 1]);
+}
+
+/** Every whitespace-separated term must match some field; the scores add up. */
+function scoreEntry(entry: SearchEntry, terms: string[]): number {
+  let total = 0;
+  for (const term of terms) {
+    let best = -1;
+    entry.fields.forEach((field, i) => {
+      const score = fuzzyScore(term, field);
+      if (score > 0) best = Math.max(best, i === 0 ? score * TITLE_WEIGHT : score);
+    });
+    if (best < 0) return -1;
+    total += best;
+  }
+  return total;
+}
+
+export function isInFolder(item: VaultItem, folder: string): boolean {
+  return item.folder === folder || !!item.folder?.startsWith(folder + '/');
+}
+
+function compareBy(sort: SortOrder): (a: VaultItem, b: VaultItem) => number {
+  switch (sort) {
+    case 'name': return (a, b) => collator.compare(a.title, b.title);
+    case 'recently-used': return (a, b) => (b.lastUsedAt ?? 0) - (a.lastUsedAt ?? 0) || collator.compare(a.title, b.title);
+    case 'recently-modified': return (a, b) => b.updatedAt - a.updatedAt;
+  }
+}
+
+/**
+ * Applies the filter. Favorites are always pinned first; while searching,
+ * relevance decides the order within each group and `sort` only breaks ties.
+ */
+export function filterItems(index: SearchEntry[], filter: VaultFilter): VaultItem[] {
+  const terms = filter.query.toLowerCase().split(/\s+/).filter(Boolean);
+  const compare = compareBy(filter.sort);
+  const scored: { item: VaultItem; score: number }[] = [];
+
+  for (const entry of index) {
+    const { item } = entry;
+    if (filter.favoritesOnly && !item.favorite) continue;
+    if (filter.folder && !isInFolder(item, filter.folder)) continue;
+    if (filter.tag && !item.tags.includes(filter.tag)) continue;
+    const score = terms.length ? scoreEntry(entry, terms) : 0;
+    if (score >= 0) scored.push({ item, score });
+  }
+
+  return scored
+    .sort((a, b) => Number(!!b.item.favorite) - Number(!!a.item.favorite) || b.score - a.score || compare(a.item, b.item))
+    .map(s => s.item);
+}
+
+export function buildFolderTree(items: VaultItem[]): FolderNode[] {
+  const root: FolderNode = { name: '', path: '', count: 0, children: [] };
+  for (const item of items) {
+    if (!item.folder) continue;
+    let node = root;
+    for (const name of item.folder.split('/')) {
+      const path = node.path ? `${node.path}/${name}` : name;
+      let child = node.children.find(c => c.name === name);
+      if (!child) {
+        child = { name, path, count: 0, children: [] };
+        node.children.push(child);
+      }
+      child.count++;
+      node = child;
+    }
+  }
+  const sortTree = (nodes: FolderNode[]) => {
+    nodes.sort((a, b) => collator.compare(a.name, b.name));
+    nodes.forEach(n => sortTree(n.children));
+  };
+  sortTree(root.children);
+  return root.children;
+}
+
+export function collectFolders(items: VaultItem[]): string[] {
+  return [...new Set(items.map(i => i.folder).filter((f): f is string => !!f))].sort(collator.compare);
+}
+
+export function collectTags(items: VaultItem[]): { tag: string; count: number }[] {
+  const counts = new Map<string, number>();
+  for (const item of items) item.tags.forEach(tag => counts.set(tag, (counts.get(tag) ?? 0) + 1));
+  return [...counts].map(([tag, count]) => ({ tag, count })).sort((a, b) => collator.compare(a.tag, b.tag));
+}
@@ -0,0 +1,47 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { VaultService, VaultIntegrityError } from './VaultService';
+import { createItem } from './VaultItems';
+import { MemoryAdapter } from './storage';
+
+const note = (title: string) => createItem({ kind: 'note', title, notes: '', customFields: [], tags: [] });
+
+describe('VaultService audit log', () => {
+  let storage: MemoryAdapter;
+
+  /** Every audit record of the vault, head included, as stored right now. */
+  const auditRecords = async () => {
+    const keys = (await storage.keys('')).filter(key => /audit/.test(key));
+    return Object.fromEntries(await Promise.all(keys.map(async key => [key, await storage.get(key)] as const)));
+  };
+
+  beforeEach(async () => {
+    storage = new MemoryAdapter();
+    await VaultService.initStorage(storage);
+    await VaultService.initializeVault('Personal', 'correct horse battery staple');
+  });
+
+  it('lists entries oldest first', async () => {
+    await VaultService.updateItems(() => [note('Wi-Fi')]);
+    await VaultService.updateItems(items => items.map(i => ({ ...i, notes: 'hunter2' })));
+
+    expect((await VaultService.getAuditLog()).map(e => [e.seq, e.type, e.title])).toEqual([[0, 'item-created', 'Wi-Fi'], [1, 'item-updated', 'Wi-Fi']]);
+  });
+
+  it('reports an entry removed from the stored copy', async () => {
+    await VaultService.updateItems(() => [note('Wi-Fi')]);
+    const [first] = Object.keys(await auditRecords()).filter(key => key.endsWith('audit:0'));
+    await storage.commit({ [first]: null });
+
+    await expect(VaultService.getAuditLog()).rejects.toBeInstanceOf(VaultIntegrityError);
+  });
+
+  it('reports an older copy of the whole log restored while the app is open', async () => {
+    await VaultService.updateItems(() => [note('Wi-Fi')]);
+    const older = await auditRecords();
+    await VaultService.updateItems(items => [...items, note('Bank')]);
+
+    const current = await auditRecords();
+    await storage.commit({ ...Object.fromEntries(Object.keys(current).map(key => [key, null])), ...older });
+    await expect(VaultService.getAuditLog()).rejects.toThrow("Audit log was rolled back to an earlier version");
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { VaultService, DuressError } from './VaultService';
+import { createItem } from './VaultItems';
+import { KdfService } from './KdfService';
+import { MemoryAdapter } from './storage';
+
+const MASTER = 'correct horse battery staple';
+const DURESS = 'open sesame, said the burglar';
+
+describe('VaultService duress password', () => {
+  beforeEach(async () => {
+    await VaultService.initStorage(new MemoryAdapter());
+    await VaultService.initializeVault('Personal', MASTER);
+    await VaultService.updateItems(() => [createItem({ kind: 'note', title: 'Wi-Fi', notes: 'hunter2', customFields: [], tags: [] })]);
+    await VaultService.setDuressPassword(DURESS);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('opens the decoy, which looks like a vault without one', async () => {
+    expect(await VaultService.unlockVault(DURESS)).toEqual([]);
+    expect(await VaultService.hasDuressPassword()).toBe(false);
+
+    expect((await VaultService.unlockVault(MASTER)).map(i => i.title)).toEqual(['Wi-Fi']);
+    expect(await VaultService.hasDuressPassword()).toBe(true);
+  });
+
+  it('leaves failed unlocks for the vault to log and report', async () => {
+    await expect(VaultService.unlockVault('wrong')).rejects.toThrow("Invalid master password");
+
+    await VaultService.unlockVault(DURESS);
+    expect(await VaultService.takeFailedAttempts()).toHaveLength(1);
+    expect((await VaultService.getAuditLog()).map(e => e.type)).toEqual(['unlock']);
+
+    await VaultService.unlockVault(MASTER);
+    expect(await VaultService.takeFailedAttempts()).toHaveLength(1);
+    expect((await VaultService.getAuditLog()).map(e => e.type)).toEqual(['item-created', 'duress-set', 'unlock-failed', 'unlock']);
+    expect(await VaultService.takeFailedAttempts()).toHaveLength(0);
+  });
+
+  it('derives a key for both slots on every unlock, decoy or not', async () => {
+    const derive = vi.spyOn(KdfService, 'deriveKey');
+    const derivations = async (unlock: () => Promise<unknown>) => {
+      derive.mockClear();
+      await unlock().catch(() => undefined);
+      return derive.mock.calls.length;
+    };
+
+    expect(await derivations(() => VaultService.unlockVault(MASTER))).toBe(2);
+    expect(await derivations(() => VaultService.unlockVault(DURESS))).toBe(2);
+    expect(await derivations(() => VaultService.unlockVault('wrong'))).toBe(2);
+    await VaultService.unlockVault(MASTER);
+    await VaultService.removeDuressPassword();
+    expect(await derivations(() => VaultService.unlockVault(MASTER))).toBe(2);
+    expect(await derivations(() => VaultService.unlockVault('wrong'))).toBe(2);
+  });
+
+  it('keeps the master and the duress password apart', async () => {
+    await VaultService.unlockVault(MASTER);
+    await expect(VaultService.resetMasterPassword(DURESS)).rejects.toBeInstanceOf(DuressError);
+    await expect(VaultService.unlockVault(DURESS)).resolves.toEqual([]);
+  });
+
+  it('sets and removes a duress password inside the decoy as in a vault without one', async () => {
+    await VaultService.unlockVault(DURESS);
+    await VaultService.setDuressPassword('another one');
+    expect(await VaultService.hasDuressPassword()).toBe(true);
+    await expect(VaultService.setDuressPassword('yet another')).rejects.toBeInstanceOf(DuressError);
+    await VaultService.removeDuressPassword();
+    expect(await VaultService.hasDuressPassword()).toBe(false);
+    expect((await VaultService.getAuditLog()).map(e => e.type)).toEqual(['unlock', 'duress-set', 'duress-removed']);
+
+    // The vault and its decoy are untouched
+    expect((await VaultService.unlockVault(MASTER)).map(i => i.title)).toEqual(['Wi-Fi']);
+    expect(await VaultService.hasDuressPassword()).toBe(true);
+    expect(await VaultService.unlockVault(DURESS)).toEqual([]);
+  });
+});
@@ -0,0 +1,158 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { spawn, ChildProcess } from 'node:child_process';
+import { createServer } from 'node:net';
+import { mkdtemp, readFile, writeFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { Window as HappyDomWindow } from 'happy-dom';
+import { VaultService, SyncError, VaultIntegrityError } from './VaultService';
+import { VaultItem, createItem } from './VaultItems';
+import { LEGACY_KDF } from './KdfService';
+import { MemoryAdapter } from './storage';
+
+let server: ChildProcess;
+let serverUrl: string;
+let dataDir: string;
+
+function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const probe = createServer().listen(0, '127.0.0.1', () => {
+      const address = probe.address();
+      probe.close(() => typeof address === 'object' && address ? resolve(address.port) : reject(new Error("No port")));
+    });
+  });
+}
+
+// The server is the reference one from server/, run through vite-node so it works on any Node version vitest runs on
+beforeAll(async () => {
+  const port = await freePort();
+  dataDir = await mkdtemp(join(tmpdir(), 'sync-test-'));
+  serverUrl = `http://127.0.0.1:${port}`;
+  // happy-dom drops the Authorization header of cross-origin requests, which browsers send, so run the page on the server's origin
+  (window as unknown as HappyDomWindow).happyDOM.setURL(serverUrl);
+  server = spawn(join('node_modules', '.bin', 'vite-node'), [join('server', 'syncServer.ts')], {
+    env: { ...process.env, SYNC_PORT: String(port), SYNC_DATA_DIR: dataDir },
+    stdio: ['ignore', 'pipe', 'inherit']
+  });
+  await new Promise<void>((resolve, reject) => {
+    server.stdout!.on('data', (chunk: Buffer) => { if (chunk.toString().includes('listening')) resolve(); });
+    server.once('exit', code => reject(new Error(`Sync server exited with ${code}`)));
+  });
+}, 60000);
+
+afterAll(async () => {
+  server?.kill();
+  if (dataDir) await rm(dataDir, { recursive: true, force: true });
+});
+
+const login = (title: string) => createItem({ kind: 'login', title, username: 'me', password: 'secret', url: '', notes: '', customFields: [], tags: [] });
+const titles = (items: VaultItem[]) => items.map(i => i.title).sort();
+
+/** Makes `storage` the current device, as if the app had been opened there. */
+async function useDevice(storage: MemoryAdapter): Promise<void> {
+  VaultService.lock();
+  await VaultService.initStorage(storage);
+}
+
+describe('VaultService sync', () => {
+  let first: MemoryAdapter;
+  let second: MemoryAdapter;
+  let syncId: string;
+  let joined: VaultItem[];
+
+  beforeEach(async () => {
+    first = new MemoryAdapter();
+    second = new MemoryAdapter();
+    await useDevice(first);
+    await VaultService.initializeVault('Team', 'correct horse');
+    await VaultService.updateItems(() => [login('GitHub'), login('Mail')]);
+    syncId = (await VaultService.enableSync(serverUrl)).status.syncId;
+    await useDevice(second);
+    joined = (await VaultService.joinSyncedVault('Team', serverUrl, syncId, 'correct horse')).items;
+  });
+
+  it('brings the items to a joined device and changes back', async () => {
+    expect(titles(joined)).toEqual(['GitHub', 'Mail']);
+    await VaultService.updateItems(items => [...items, login('Bank')]);
+    await VaultService.syncVault();
+
+    await useDevice(first);
+    await VaultService.unlockVault('correct horse');
+    const result = await VaultService.syncVault();
+    expect(result.changed).toBe(true);
+    expect(titles(result.items)).toEqual(['Bank', 'GitHub', 'Mail']);
+  });
+
+  it('refuses to join with the wrong master password', async () => {
+    await useDevice(new MemoryAdapter());
+    await expect(VaultService.joinSyncedVault('Team', serverUrl, syncId, 'wrong')).rejects.toMatchObject({ reason: 'wrong-password' });
+    await expect(VaultService.joinSyncedVault('Team', serverUrl, syncId, 'wrong')).rejects.toBeInstanceOf(SyncError);
+  });
+
+  it('turns an item edited on both devices into a conflict', async () => {
+    await VaultService.updateItems(items => items.map(i => i.title === 'GitHub' ? { ...i, username: 'second' } : i));
+    await VaultService.syncVault();
+
+    await useDevice(first);
+    await VaultService.unlockVault('correct horse');
+    await VaultService.updateItems(items => items.map(i => i.title === 'GitHub' ? { ...i, username: 'first' } : i));
+    const result = await VaultService.syncVault();
+    expect(result.status.conflicts).toHaveLength(1);
+    expect(result.status.conflicts[0]).toMatchObject({ local: { username: 'first' }, remote: { username: 'second' } });
+  });
+
+  it('takes a master password changed on another device', async () => {
+    await VaultService.resetMasterPassword('battery staple');
+    await VaultService.syncVault();
+
+    await useDevice(first);
+    await VaultService.unlockVault('correct horse');
+    await VaultService.syncVault();
+    VaultService.lock();
+    await expect(VaultService.unlockVault('correct horse')).rejects.toThrow();
+    expect(titles(await VaultService.unlockVault('battery staple'))).toEqual(['GitHub', 'Mail']);
+  });
+
+  it('does not push a slot re-wrapped under the old password over a new one', async () => {
+    await VaultService.resetMasterPassword('battery staple');
+    await VaultService.syncVault();
+
+    // The first device still has the old password and migrates its slot to another KDF on unlock
+    await useDevice(first);
+    await VaultService.unlockVault('correct horse');
+    await VaultService.setTargetKdf(LEGACY_KDF);
+    VaultService.lock();
+    await VaultService.unlockVault('correct horse');
+    await VaultService.syncVault();
+
+    await useDevice(new MemoryAdapter());
+    const joined = await VaultService.joinSyncedVault('Team', serverUrl, syncId, 'battery staple');
+    expect(titles(joined.items)).toEqual(['GitHub', 'Mail']);
+  });
+
+  it('keeps slot changes made on different devices to different slots', async () => {
+    const recoveryKey = await VaultService.rotateRecoveryKey();
+    await VaultService.syncVault();
+
+    await useDevice(first);
+    await VaultService.unlockVault('correct horse');
+    await VaultService.resetMasterPassword('battery staple');
+    await VaultService.syncVault();
+
+    await useDevice(second);
+    await VaultService.unlockVault('correct horse');
+    await VaultService.syncVault();
+    VaultService.lock();
+    expect(titles(await VaultService.unlockVault('battery staple'))).toEqual(['GitHub', 'Mail']);
+    VaultService.lock();
+    expect(titles(await VaultService.recoverVault(recoveryKey))).toEqual(['GitHub', 'Mail']);
+  });
+
+  it('rejects key slots the server made up', async () => {
+    const file = join(dataDir, `${syncId}.json`);
+    const stored = JSON.parse(await readFile(file, 'utf8'));
+    await writeFile(file, JSON.stringify({ ...stored, slots: { ...stored.slots, master: stored.slots.recovery }, slotsRev: stored.slotsRev + 1 }));
+
+    await expect(VaultService.syncVault()).rejects.toBeInstanceOf(VaultIntegrityError);
+  });
+});
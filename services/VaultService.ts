@@ -0,0 +1,1597 @@
+
+/**
+ * VaultService simulates the Android IronVault security engine.
+ * Each named vault on the device implements a "Vault Master Key" (VMK) pattern:
+ * 1. A random VMK is generated.
+ * 2. VMK is encrypted by the Master Password (stored in ENC_VMK_MASTER).
+ * 3. VMK is encrypted by the Recovery Key (stored in ENC_VMK_RECOVERY).
+ * 4. Optionally, VMK is encrypted by a WebAuthn PRF output (stored in ENC_VMK_BIOMETRIC).
+ * 5. Each item is its own record under a VMK-derived key, listed in a signed
+ *    MANIFEST (see VaultManifest); older vaults kept one DATA_BLOB, which is
+ *    split into records on their first unlock.
+ * Password slots carry a KDF header (KDF_MASTER / KDF_RECOVERY) and are
+ * re-wrapped with the target KDF on the next successful unlock.
+ * Records go through a StorageAdapter under the selected vault's key prefix,
+ * and every operation that touches several records commits them together.
+ * Optionally the vault syncs with a server that only stores ciphertext (see SyncProtocol).
+ * Items are shared with other vaults in signed public-key envelopes (see ShareEnvelope).
+ * An optional duress password opens a decoy instead: a second VMK with its own
+ * slots, items and settings, stored under DECOY_SCOPE within the same vault.
+ * Each of the two keeps an encrypted, append-only audit log (see AuditLog).
+ */
+
+import { BiometricService, BiometricCredential, BiometricUnavailableError } from './BiometricService';
+import { KdfService, KdfParams, DEFAULT_KDF } from './KdfService';
+import { VaultItem, SCHEMA_VERSION, serializeVaultData, migrateVaultData, purgeRecycleBin, createItem, isVaultItem } from './VaultItems';
+import { VaultManifest, VaultIntegrityError, emptyManifest, canonicalManifest, itemAad, parseSignedManifest, planSave } from './VaultManifest';
+import { SessionPolicy, DEFAULT_SESSION_POLICY, normalizePolicy } from './SessionPolicy';
+import { BreachRanges } from './BreachList';
+import { normalizeRecoveryKey } from './RecoveryPhrase';
+import { ThrottleService, AttemptRecord, ThrottleStatus, FailedAttempt, UnlockMethod, VaultWipedError } from './ThrottleService';
+import { SyncSlots, VersionedSlots, SlotsResponse, PullResponse, PushResponse, SyncRecord, syncPath } from './SyncProtocol';
+import { SyncState, SyncConflict, ConflictChoice, RemoteChange, PendingChange, mergeRemote, mergeSlots, pendingChanges, acceptPushed, resolveConflict } from './SyncMerge';
+import {
+  ShareEnvelope, SharePayload, ShareError, SHARE_FORMAT, SHARE_VERSION,
+  encodeShareKey, parseShareKey, shareKeyFingerprint, canonicalEnvelope, envelopeAad, parseEnvelope, isSharePayload, toSharedDraft
+} from './ShareEnvelope';
+import { AuditEvent, AuditEntry, AuditOrigin, parseAuditHead, auditChainStart, auditAad, itemEvents, failedUnlockEvents } from './AuditLog';
+import {
+  StorageAdapter, StorageChanges, MemoryAdapter, VaultInfo, VaultRegistry,
+  StorageConflictError, createDefaultStorage, migrateLegacyStorage, readRegistry, registryChanges, vaultPrefix
+} from './storage';
+
+export type { VaultItem } from './VaultItems';
+export type { VaultInfo, VaultRegistry } from './storage';
+export { VaultIntegrityError } from './VaultManifest';
+export type { SyncConflict, ConflictChoice } from './SyncMerge';
+export { ShareError } from './ShareEnvelope';
+
+// Record names within a vault; stored under the vault's key prefix
+const SALT_MASTER = 'salt_master';
+const SALT_RECOVERY = 'salt_recovery';
+const ENC_VMK_MASTER = 'vmk_master';
+const ENC_VMK_RECOVERY = 'vmk_recovery';
+const KDF_MASTER = 'kdf_master';
+const KDF_RECOVERY = 'kdf_recovery';
+const KDF_TARGET = 'kdf_target';
+const ENC_VMK_BIOMETRIC = 'vmk_biometric';
+const BIOMETRIC_CREDENTIAL = 'biometric_credential';
+const DATA_BLOB = 'data_blob';
+const MANIFEST = 'manifest';
+const ITEM_RECORD_PREFIX = 'item:';
+const ENC_SESSION_POLICY = 'session_policy';
+const ENC_BREACH_RANGES = 'breach_ranges';
+const ENC_SYNC_STATE = 'sync_state';
+const ENC_SHARE_IDENTITY = 'share_identity';
+const UNLOCK_ATTEMPTS = 'unlock_attempts';
+const AUDIT_HEAD = 'audit_head';
+const AUDIT_RECORD_PREFIX = 'audit:';
+// Prefix of every record of the decoy, its slots included; only UNLOCK_ATTEMPTS is shared
+const DECOY_SCOPE = 'decoy:';
+const BIOMETRIC_HKDF_INFO = 'ironvault-biometric-slot-v1';
+const BACKUP_HKDF_INFO = 'ironvault-backup-mac-v1';
+const ITEM_HKDF_INFO = 'ironvault-item-key-v1';
+const MANIFEST_HKDF_INFO = 'ironvault-manifest-mac-v1';
+const SYNC_ITEM_HKDF_INFO = 'ironvault-sync-item-v1';
+const SYNC_AUTH_HKDF_INFO = 'ironvault-sync-auth-v1';
+const SYNC_SLOTS_HKDF_INFO = 'ironvault-sync-slots-v1';
+const SYNC_AAD_PREFIX = 'ironvault-sync-v1';
+const SHARE_HKDF_INFO = 'ironvault-share-key-v1';
+const AUDIT_HKDF_INFO = 'ironvault-audit-key-v1';
+const AUDIT_MAC_HKDF_INFO = 'ironvault-audit-mac-v1';
+const BACKUP_FORMAT = 'cyber-dt-vault-backup';
+const BACKUP_VERSION = 1;
+
+/** Storage keys of a password-protected VMK slot. */
+interface PasswordSlot {
+  salt: string;
+  kdf: string;
+  vmk: string;
+}
+
+const MASTER_SLOT: PasswordSlot = { salt: SALT_MASTER, kdf: KDF_MASTER, vmk: ENC_VMK_MASTER };
+const RECOVERY_SLOT: PasswordSlot = { salt: SALT_RECOVERY, kdf: KDF_RECOVERY, vmk: ENC_VMK_RECOVERY };
+
+/** Stored values of a password slot, as found in storage or a backup file. */
+interface SlotRecord {
+  salt: string;
+  kdf: string | null;
+  vmk: string;
+}
+
+/** An enrolled passkey slot with the scope it opens, relative to the vault itself. */
+interface BiometricSlot {
+  scope: string;
+  credential: BiometricCredential;
+  vmk: string;
+}
+
+/** Verified manifest and the decrypted records it lists, kept while unlocked so saves can skip unchanged items. */
+interface LoadedRecords {
+  manifest: VaultManifest;
+  /** Serialized item per id, in manifest order. */
+  records: Map<string, string>;
+  /** Manifest exactly as stored; a save only commits while storage still holds it. Absent before the first save. */
+  stored?: string;
+}
+
+/**
+ * Self-describing backup file. Items travel as one blob encrypted under the
+ * VMK, since records are bound to the id of the vault they were written in.
+ * `mac` is HMAC-SHA256 (key derived from the VMK) over every other field, so
+ * a backup only restores if nothing was altered.
+ * The biometric slot is device-bound and deliberately left out.
+ */
+interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: string;
+  slots: { master: SlotRecord; recovery: SlotRecord };
+  data: string;
+  mac: string;
+}
+
+export type BackupErrorReason = 'wrong-password' | 'corrupt' | 'unsupported-version';
+
+export class BackupError extends Error {
+  constructor(public reason: BackupErrorReason, message: string) {
+    super(message);
+    this.name = 'BackupError';
+  }
+}
+
+/** Sync configuration and merge state of a vault, stored encrypted under the VMK. */
+interface StoredSync extends SyncState {
+  server: string;
+  syncId: string;
+  /** Server seq up to which changes have been pulled. */
+  cursor: number;
+  /** Slots at server revision `slotsRev`, so local changes can be told from changes made elsewhere. */
+  slotsJson: string;
+  slotsRev: number;
+  lastSyncAt: number | null;
+}
+
+/** Plaintext of a synced record; the schema travels along so older and newer clients can share a vault. */
+interface SyncPayload {
+  schemaVersion: number;
+  item: VaultItem | null;
+}
+
+export interface SyncStatus {
+  server: string;
+  /** Entered on another device, together with the server and master password, to join this vault. */
+  syncId: string;
+  lastSyncAt: number | null;
+  conflicts: SyncConflict[];
+}
+
+export interface SyncResult {
+  items: VaultItem[];
+  /** False when nothing came in from other devices. */
+  changed: boolean;
+  status: SyncStatus;
+}
+
+export type SyncErrorReason = 'network' | 'unauthorized' | 'not-found' | 'exists' | 'wrong-password' | 'server';
+
+export class SyncError extends Error {
+  constructor(public reason: SyncErrorReason, message: string) {
+    super(message);
+    this.name = 'SyncError';
+  }
+}
+
+/** Key pairs for item sharing, stored encrypted under the VMK so the public halves cannot be swapped either. */
+interface StoredShareIdentity {
+  /** Base64 raw public key and PKCS#8 private key. */
+  encryption: { publicKey: string; privateKey: string };
+  signing: { publicKey: string; privateKey: string };
+}
+
+export interface ShareIdentity {
+  /** Handed to people who want to send items to this vault. */
+  shareKey: string;
+  fingerprint: string;
+}
+
+export interface OpenedShare {
+  /** Compared with the fingerprint the sender reads out before importing. */
+  senderFingerprint: string;
+  createdAt: string;
+  /** New items with fresh ids, ready to be added. */
+  items: VaultItem[];
+}
+
+/** Another tab, or an edit elsewhere, changed the data a save was based on; nothing was written. */
+export class VaultConflictError extends Error {
+  constructor(message: string = "The vault was changed in another tab") {
+    super(message);
+    this.name = 'VaultConflictError';
+  }
+}
+
+/** A duress password that cannot be set as asked; the message says why, for display. */
+export class DuressError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DuressError';
+  }
+}
+
+export interface KdfStatus {
+  master: KdfParams;
+  recovery: KdfParams;
+  target: KdfParams;
+}
+
+export class VaultService {
+  private static currentVMK: CryptoKey | null = null;
+  // Replaced by initStorage on startup
+  private static storage: StorageAdapter = new MemoryAdapter();
+  private static vaultId: string | null = null;
+  // Record name prefix of the open dataset: '' for the vault itself, DECOY_SCOPE while its decoy is open
+  private static scope = '';
+  private static loaded: LoadedRecords | null = null;
+  // Highest manifest counter seen per vault and dataset this session; a lower one means storage was rolled back
+  // while the app was open. Held in memory only, see VaultManifest for what that leaves uncovered.
+  private static highestCounter = new Map<string, number>();
+  // Likewise for the audit log: the highest entry count seen per vault and dataset this session
+  private static highestAuditCount = new Map<string, number>();
+  // Saves and sync commits run one at a time, since each builds on the manifest the previous one wrote
+  private static commits: Promise<unknown> = Promise.resolve();
+  private static syncing: Promise<SyncResult> | null = null;
+  /** Called after every committed save, e.g. to tell other tabs to reload. */
+  static onCommit: ((vaultId: string) => void) | null = null;
+
+  /**
+   * Opens the storage backend, moves a pre-adapter localStorage vault into it
+   * and selects the last used vault. Returns the registry for the vault picker.
+   */
+  static async initStorage(storage?: StorageAdapter): Promise<VaultRegistry> {
+    this.storage = storage ?? await createDefaultStorage();
+    await migrateLegacyStorage(this.storage);
+    const registry = await readRegistry(this.storage);
+    this.vaultId = registry.vaults.find(v => v.id === registry.lastUsed)?.id ?? registry.vaults[0]?.id ?? null;
+    return registry;
+  }
+
+  static async listVaults(): Promise<VaultInfo[]> {
+    return (await readRegistry(this.storage)).vaults;
+  }
+
+  static getActiveVaultId(): string | null {
+    return this.vaultId;
+  }
+
+  /**
+   * Switches to another vault on this device. Locks the current one first.
+   */
+  static async selectVault(id: string): Promise<void> {
+    const registry = await readRegistry(this.storage);
+    if (!registry.vaults.some(v => v.id === id)) throw new Error("Unknown vault");
+    this.lock();
+    this.vaultId = id;
+    if (registry.lastUsed !== id) await this.storage.commit(registryChanges({ ...registry, lastUsed: id }));
+  }
+
+  static isUnlocked(): boolean {
+    return !!this.currentVMK;
+  }
+
+  static async hasExistingVault(): Promise<boolean> {
+    return !!this.vaultId && !!await this.read(ENC_VMK_MASTER);
+  }
+
+  /**
+   * Creates a new named vault with a random VMK protected by password and recovery key,
+   * and selects it. Slots, data and the registry entry are written in one commit.
+   */
+  static async initializeVault(name: string, password: string): Promise<string> {
+    // 1. Generate random VMK (AES-256)
+    const vmk = await window.crypto.subtle.generateKey(
+      { name: "AES-GCM", length: 256 },
+      true, // extractable is necessary to re-wrap it during password resets
+      ["encrypt", "decrypt"]
+    );
+    const vmkRaw = new Uint8Array(await window.crypto.subtle.exportKey("raw", vmk));
+
+    // 2. Protect VMK with Password (fresh salt + default KDF; a new vault inherits no settings)
+    const master = await this.wrapSlot(vmkRaw, password, MASTER_SLOT, DEFAULT_KDF);
+
+    // 3. Protect VMK with Recovery Key
+    const recoveryKey = this.generateRecoveryHex();
+    const recovery = await this.wrapSlot(vmkRaw, recoveryKey, RECOVERY_SLOT, DEFAULT_KDF);
+
+    // 4. Empty signed manifest, then everything at once
+    const id = crypto.randomUUID();
+    const { changes, state } = await this.recordChanges(id, vmk, { manifest: emptyManifest(id, SCHEMA_VERSION), records: new Map() }, []);
+    await this.createVault(id, name, { ...master, ...recovery, ...changes });
+    this.currentVMK = vmk;
+    this.setLoaded(id, state);
+
+    return recoveryKey;
+  }
+
+  /**
+   * Unlocks the vault using the master password.
+   * Throws ThrottledError during backoff and VaultWipedError if this failure triggered the opt-in wipe.
+   */
+  static async unlockVault(password: string): Promise<VaultItem[]> {
+    return this.openPasswordSlot(MASTER_SLOT, password, 'password', "Invalid master password");
+  }
+
+  /**
+   * Recovers the vault using the recovery key as hex or as its 18-word phrase.
+   * Shares the failure counter with unlockVault; a malformed phrase throws
+   * RecoveryPhraseError before any attempt is counted.
+   */
+  static async recoverVault(recoveryKey: string): Promise<VaultItem[]> {
+    return this.openPasswordSlot(RECOVERY_SLOT, normalizeRecoveryKey(recoveryKey), 'recovery', "Invalid recovery key");
+  }
+
+  /**
+   * Erases the selected vault: key slots, data, settings and its registry entry.
+   * Other vaults on the device are untouched.
+   */
+  static async wipeVault(): Promise<void> {
+    const id = this.vaultId;
+    this.lock();
+    this.vaultId = null;
+    if (!id) return;
+    const changes: StorageChanges = {};
+    for (const key of await this.storage.keys(vaultPrefix(id))) changes[key] = null;
+    const registry = await readRegistry(this.storage);
+    const vaults = registry.vaults.filter(v => v.id !== id);
+    const lastUsed = registry.lastUsed === id ? vaults[0]?.id ?? null : registry.lastUsed;
+    await this.storage.commit({ ...changes, ...registryChanges({ vaults, lastUsed }) });
+  }
+
+  /**
+   * Backoff state of the selected vault, readable while it is locked.
+   */
+  static async getThrottleStatus(): Promise<ThrottleStatus> {
+    return ThrottleService.getStatus(await this.readAttempts());
+  }
+
+  /**
+   * Opt-in wipe after this many consecutive failed unlocks; null disables it.
+   */
+  static async setWipeAfter(threshold: number | null): Promise<void> {
+    await this.writeAttempts({ ...await this.readAttempts(), wipeAfter: threshold });
+  }
+
+  /**
+   * Returns and clears the failed attempts logged since they were last reported.
+   * The decoy reports them too but leaves them for the vault's own report and audit log.
+   */
+  static async takeFailedAttempts(): Promise<FailedAttempt[]> {
+    const record = await this.readAttempts();
+    if (record.log.length && this.scope !== DECOY_SCOPE) await this.writeAttempts({ ...record, log: [] });
+    return record.log;
+  }
+
+  /**
+   * Re-prompt check for sensitive actions (e.g. plaintext export). Does not touch the session.
+   */
+  static async verifyMasterPassword(password: string): Promise<boolean> {
+    try {
+      await this.openSlot(MASTER_SLOT, password);
+      return true;
+    } catch (e) {
+      return false;
+    }
+  }
+
+  /**
+   * Unlocks the vault using the enrolled platform passkey (WebAuthn PRF).
+   * The vault and its decoy each enroll their own passkey; the prompt offers
+   * both and the one the user picks decides which opens.
+   * Throws BiometricUnavailableError when the caller should fall back to the master password.
+   */
+  static async unlockWithBiometric(): Promise<VaultItem[]> {
+    this.lock();
+    const slots = await this.biometricSlots();
+    if (!slots.length) throw new BiometricUnavailableError("Biometric unlock is not enrolled");
+
+    const { credential, prfOutput } = await BiometricService.evaluate(slots.map(s => s.credential));
+    const slot = slots.find(s => s.credential === credential)!;
+    let vmkRaw: Uint8Array;
+    try {
+      const wrappingKey = await this.derivePrfKey(prfOutput);
+      vmkRaw = await this.decryptWithKey(this.base64ToBuf(slot.vmk), wrappingKey);
+    } catch (e) {
+      throw new Error("Biometric key rejected");
+    }
+    // Holding the enrolled passkey proves ownership just like the password does
+    await this.writeAttempts(ThrottleService.recordSuccess(await this.readAttempts()));
+    this.scope = slot.scope;
+    const items = await this.openVault(vmkRaw);
+    await this.auditUnlock('biometric');
+    return items;
+  }
+
+  /**
+   * Whether the open dataset has a passkey enrolled. While locked, whether the
+   * vault or its decoy has one, which the unlock screen cannot tell apart.
+   */
+  static async hasBiometricSlot(): Promise<boolean> {
+    if (this.currentVMK) return !!await this.readBiometricSlot('');
+    return (await this.biometricSlots()).length > 0;
+  }
+
+  /**
+   * Registers a platform passkey and stores the VMK wrapped by its PRF output as a third key slot.
+   */
+  static async enrollBiometric(): Promise<void> {
+    if (!this.currentVMK) throw new Error("Vault not unlocked");
+    const { credential, prfOutput } = await BiometricService.register();
+    const vmkRaw = await window.crypto.subtle.exportKey("raw", this.currentVMK);
+    const wrappingKey = await this.derivePrfKey(prfOutput);
+    const encrypted = await this.encryptWithKey(new Uint8Array(vmkRaw), wrappingKey);
+    await this.write({
+      [ENC_VMK_BIOMETRIC]: this.bufToBase64(encrypted),
+      [BIOMETRIC_CREDENTIAL]: JSON.stringify({
+        id: this.bufToBase64(credential.credentialId),
+        salt: this.bufToBase64(credential.prfSalt)
+      })
+    });
+  }
+
+  /**
+   * Removes the biometric key slot. The passkey itself stays in the OS keychain but can no longer unwrap the VMK.
+   */
+  static async revokeBiometric(): Promise<void> {
+    await this.write({ [ENC_VMK_BIOMETRIC]: null, [BIOMETRIC_CREDENTIAL]: null });
+  }
+
+  /**
+   * Sets a new master password without losing data.
+   */
+  static async resetMasterPassword(newPassword: string): Promise<void> {
+    if (!this.currentVMK) throw new Error("Vault not unlocked");
+    // The vault's slot wins when both fit, so the decoy would stop opening
+    if (await this.opensDecoy(newPassword)) throw new DuressError("The master password must differ from the duress password");
+    // This requires currentVMK to be extractable: true
+    const vmkRaw = await window.crypto.subtle.exportKey("raw", this.currentVMK);
+    await this.write(await this.wrapSlot(new Uint8Array(vmkRaw), newPassword, MASTER_SLOT, await this.getTargetKdf()));
+    await this.appendAudit([{ type: 'password-reset', at: Date.now() }]);
+  }
+
+  /**
+   * Replaces the recovery key with a fresh one and returns it as hex; the old key stops working.
+   */
+  static async rotateRecoveryKey(): Promise<string> {
+    if (!this.currentVMK) throw new Error("Vault not unlocked");
+    const vmkRaw = await window.crypto.subtle.exportKey("raw", this.currentVMK);
+    const recoveryKey = this.generateRecoveryHex();
+    await this.write(await this.wrapSlot(new Uint8Array(vmkRaw), recoveryKey, RECOVERY_SLOT, await this.getTargetKdf()));
+    await this.appendAudit([{ type: 'recovery-key-rotated', at: Date.now() }]);
+    return recoveryKey;
+  }
+
+  /**
+   * Whether a duress password opens a decoy of the open vault. Inside a decoy
+   * this asks about a decoy of the decoy, so the answer looks the same as in a
+   * vault that never had one set.
+   */
+  static async hasDuressPassword(): Promise<boolean> {
+    if (!this.currentVMK) throw new Error("Vault not unlocked");
+    return !!await this.read(DECOY_SCOPE + ENC_VMK_MASTER);
+  }
+
+  /**
+   * Creates the decoy: a fresh VMK wrapped by the duress password, with an
+   * empty item list and a recovery slot whose key is discarded. Unlocking with
+   * the duress password later opens the decoy; whatever is saved there is
+   * what a coerced user can safely reveal. To change the duress password,
+   * unlock with it and change the master password there.
+   * Inside a decoy this stores a decoy of the decoy exactly the same way, so
+   * the settings behave as in a vault without one; unlocking only looks one
+   * level down, so that password never opens anything.
+   */
+  static async setDuressPassword(password: string): Promise<void> {
+    if (!this.currentVMK || !this.vaultId) throw new Error("Vault not unlocked");
+    if (await this.hasDuressPassword()) throw new DuressError("A duress password is already set");
+    // The vault's slot wins when both fit, so an equal password would never reach the decoy
+    if (await this.verifyMasterPassword(password)) throw new DuressError("The duress password must differ from the master password");
+
+    const vmk = await window.crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, true, ["encrypt", "decrypt"]);
+    const vmkRaw = new Uint8Array(await window.crypto.subtle.exportKey("raw", vmk));
+    const kdf = await this.getTargetKdf();
+    const master = await this.wrapSlot(vmkRaw, password, MASTER_SLOT, kdf);
+    // A decoy without a recovery slot would stand out in its settings and backups
+    const recovery = await this.wrapSlot(vmkRaw, this.generateRecoveryHex(), RECOVERY_SLOT, kdf);
+    const { changes } = await this.recordChanges(this.vaultId, vmk, { manifest: emptyManifest(this.vaultId, SCHEMA_VERSION), records: new Map() }, []);
+    const decoy = { ...master, ...recovery, ...changes, [KDF_TARGET]: JSON.stringify(kdf) };
+    await this.write(Object.fromEntries(Object.entries(decoy).map(([name, value]) => [DECOY_SCOPE + name, value])));
+    await this.appendAudit([{ type: 'duress-set', at: Date.now() }]);
+  }
+
+  /**
+   * Erases the decoy with everything saved in it. The duress password stops working.
+   */
+  static async removeDuressPassword(): Promise<void> {
+    if (!this.currentVMK || !this.vaultId) throw new Error("Vault not unlocked");
+    const changes: StorageChanges = {};
+    for (const key of await this.storage.keys(this.storageKey(DECOY_SCOPE))) changes[key] = null;
+    await this.storage.commit(changes);
+    await this.appendAudit([{ type: 'duress-removed', at: Date.now() }]);
+  }
+
+  /**
+   * Reports the KDF each password slot is wrapped with and the one new wraps will use.
+   */
+  static async getKdfStatus(): Promise<KdfStatus> {
+    return {
+      master: KdfService.parse(await this.read(KDF_MASTER)),
+      recovery: KdfService.parse(await this.read(KDF_RECOVERY)),
+      target: await this.getTargetKdf()
+    };
+  }
+
+  /**
+   * Selects the KDF for future wraps. Existing slots migrate on their next successful unlock.
+   */
+  static async setTargetKdf(params: KdfParams): Promise<void> {
+    await this.write({ [KDF_TARGET]: JSON.stringify(params) });
+  }
+
+  /**
+   * Serializes key slots, KDF headers and the items into an authenticated backup file.
+   */
+  static async exportBackup(): Promise<string> {
+    if (!this.currentVMK) throw new Error("Vault not unlocked");
+    const items = this.loadedItems();
+    const body: Omit<BackupFile, 'mac'> = {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      createdAt: new Date().toISOString(),
+      slots: { master: await this.readSlot(MASTER_SLOT), recovery: await this.readSlot(RECOVERY_SLOT) },
+      data: await this.encryptItems(items, this.currentVMK)
+    };
+    const mac = await this.computeBackupMac(body, this.currentVMK);
+    return JSON.stringify({ ...body, mac }, null, 2);
+  }
+
+  /**
+   * Verifies a backup file against the master password it was created with and
+   * restores it as a new named vault, which becomes the selected one.
+   * Throws BackupError with a reason code.
+   */
+  static async importBackup(name: string, fileContents: string, password: string): Promise<VaultItem[]> {
+    let backup: BackupFile;
+    try {
+      backup = JSON.parse(fileContents);
+    } catch (e) {
+      throw new BackupError('corrupt', "Backup file is not valid JSON");
+    }
+    if (!backup || backup.format !== BACKUP_FORMAT || typeof backup.version !== 'number') {
+      throw new BackupError('corrupt', "Not a CYBER DT VAULT backup");
+    }
+    if (backup.version > BACKUP_VERSION) {
+      throw new BackupError('unsupported-version', `Backup version ${backup.version} is newer than this app supports`);
+    }
+    if (!Number.isInteger(backup.version) || backup.version < 1) {
+      throw new BackupError('unsupported-version', `Backup version ${backup.version} is not a known version`);
+    }
+    const { master, recovery } = backup.slots ?? {};
+    if (!master?.salt || !master?.vmk || !recovery?.salt || !recovery?.vmk || typeof backup.data !== 'string' || typeof backup.mac !== 'string') {
+      throw new BackupError('corrupt', "Backup file is missing required fields");
+    }
+
+    let vmk: CryptoKey;
+    try {
+      const vmkRaw = await this.unwrapSlot(master, password);
+      vmk = await window.crypto.subtle.importKey("raw", vmkRaw, "AES-GCM", true, ["encrypt", "decrypt"]);
+    } catch (e) {
+      throw new BackupError('wrong-password', "Master password does not match this backup");
+    }
+
+    const { mac, ...body } = backup;
+    let authentic = false;
+    try {
+      const expected = await this.computeBackupMac(body, vmk);
+      authentic = this.constantTimeEquals(this.base64ToBuf(expected), this.base64ToBuf(mac));
+    } catch (e) {
+      // Malformed base64 in the file lands here
+    }
+    if (!authentic) throw new BackupError('corrupt', "Backup integrity check failed");
+
+    let items: VaultItem[];
+    try {
+      items = backup.data ? migrateVaultData(JSON.parse(new TextDecoder().decode(await this.decryptWithKey(this.base64ToBuf(backup.data), vmk)))).items : [];
+    } catch (e) {
+      throw new BackupError('corrupt', "Backup data could not be decrypted");
+    }
+
+    const id = crypto.randomUUID();
+    const { changes, state } = await this.recordChanges(id, vmk, { manifest: emptyManifest(id, SCHEMA_VERSION), records: new Map() }, items);
+    await this.createVault(id, name, { ...this.slotChanges(MASTER_SLOT, master), ...this.slotChanges(RECOVERY_SLOT, recovery), ...changes });
+    this.currentVMK = vmk;
+    this.setLoaded(id, state);
+    return items;
+  }
+
+  /**
+   * Applies `update` to the items as last committed and saves the result.
+   * Only new and modified items are re-encrypted; removed ones are deleted, and
+   * the re-signed manifest commits with them. Running the update inside the
+   * commit queue means a save never drops changes a sync merged in meanwhile.
+   */
+  static async updateItems(update: (items: VaultItem[]) => VaultItem[]): Promise<VaultItem[]> {
+    return this.exclusive(async () => {
+      const items = update(this.loadedItems());
+      await this.commitItems(items);
+      return items;
+    });
+  }
+
+  /**
+   * Sync settings of the unlocked vault, or null if it is not synced.
+   */
+  static async getSyncStatus(): Promise<SyncStatus | null> {
+    const sync = await this.readSyncState();
+    return sync && this.syncStatus(sync);
+  }
+
+  /**
+   * Registers the vault on a sync server under a fresh sync id and uploads every item.
+   */
+  static async enableSync(server: string): Promise<SyncResult> {
+    if (!this.currentVMK) throw new Error("Vault not unlocked");
+    if (await this.readSyncState()) throw new Error("Sync is already set up");
+    const syncId = crypto.randomUUID();
+    const slots = await this.readSyncSlots();
+    const mac = await this.signSyncSlots({ rev: 1, slots }, syncId, this.currentVMK);
+    await this.syncRequest(server, 'PUT', syncPath(syncId), await this.syncToken(this.currentVMK, syncId), { slots, mac });
+    await this.writeSyncState({ server, syncId, cursor: 0, base: {}, conflicts: [], slotsJson: this.canonicalSlots(slots), slotsRev: 1, lastSyncAt: null }, this.currentVMK);
+    return this.syncVault();
+  }
+
+  /**
+   * Creates a local copy of a synced vault: fetches its password slots, opens
+   * them with the master password and pulls every item. The new vault is
+   * selected; if the first sync fails it is removed again and the previous one selected.
+   */
+  static async joinSyncedVault(name: string, server: string, syncId: string, password: string): Promise<SyncResult> {
+    const versioned = await this.syncRequest<SlotsResponse>(server, 'GET', syncPath(syncId.trim().toLowerCase(), '/slots'));
+    const { slots } = versioned;
+    let vmk: CryptoKey;
+    try {
+      const vmkRaw = await this.unwrapSlot(slots.master, password);
+      vmk = await window.crypto.subtle.importKey("raw", vmkRaw, "AES-GCM", true, ["encrypt", "decrypt"]);
+    } catch (e) {
+      throw new SyncError('wrong-password', "Master password does not match the synced vault");
+    }
+    await this.verifySyncSlots(versioned, syncId.trim().toLowerCase(), vmk);
+    const previous = this.vaultId;
+    const id = crypto.randomUUID();
+    const { changes, state } = await this.recordChanges(id, vmk, { manifest: emptyManifest(id, SCHEMA_VERSION), records: new Map() }, []);
+    const sync: StoredSync = { server, syncId: syncId.trim().toLowerCase(), cursor: 0, base: {}, conflicts: [], slotsJson: this.canonicalSlots(slots), slotsRev: versioned.rev, lastSyncAt: null };
+    await this.createVault(id, name, {
+      ...this.slotChanges(MASTER_SLOT, slots.master),
+      ...this.slotChanges(RECOVERY_SLOT, slots.recovery),
+      ...changes,
+      [ENC_SYNC_STATE]: await this.encryptJson(sync, vmk)
+    });
+    this.currentVMK = vmk;
+    this.setLoaded(id, state);
+    try {
+      return await this.syncVault();
+    } catch (e) {
+      await this.wipeVault();
+      if (previous) await this.selectVault(previous);
+      throw e;
+    }
+  }
+
+  /**
+   * Pulls changes from other devices, merges them item by item and pushes
+   * local changes. Items changed on both sides become conflicts and stay as
+   * they are here until resolved. Concurrent calls share one run.
+   */
+  static syncVault(): Promise<SyncResult> {
+    // Tabs with the same vault open take turns, so none pushes items another has already replaced
+    if (!this.syncing) this.syncing = this.acrossTabs(`sync:${this.vaultId}`, () => this.runSync()).finally(() => { this.syncing = null; });
+    return this.syncing;
+  }
+
+  /**
+   * Re-reads the items if another tab saved since this tab loaded them.
+   */
+  static async reloadVault(): Promise<{ items: VaultItem[]; changed: boolean }> {
+    return this.exclusive(async () => {
+      const changed = await this.reloadIfChanged();
+      return { items: this.loadedItems(), changed };
+    });
+  }
+
+  /**
+   * Settles a conflict locally; the next sync uploads the outcome.
+   */
+  static async resolveSyncConflict(id: string, choice: ConflictChoice): Promise<SyncResult> {
+    return this.exclusive(async () => {
+      const sync = await this.readSyncState();
+      if (!sync) throw new Error("Sync is not set up");
+      const resolved = resolveConflict(this.loadedItems(), sync, id, choice, crypto.randomUUID());
+      const next = { ...sync, base: resolved.base, conflicts: resolved.conflicts };
+      await this.commitItems(resolved.items, { [ENC_SYNC_STATE]: await this.encryptJson(next, this.currentVMK!) });
+      return { items: resolved.items, changed: true, status: this.syncStatus(next) };
+    });
+  }
+
+  /**
+   * Stops syncing on this device. The server copy and other devices are unaffected.
+   */
+  static async disableSync(): Promise<void> {
+    await this.write({ [ENC_SYNC_STATE]: null });
+  }
+
+  /**
+   * Forgets the VMK. Every operation needs a fresh unlock afterwards.
+   */
+  static lock(): void {
+    this.currentVMK = null;
+    this.scope = '';
+    this.loaded = null;
+  }
+
+  /**
+   * Reads the session policy. Falls back to the defaults when none was saved yet.
+   */
+  static async getSessionPolicy(): Promise<SessionPolicy> {
+    if (!this.currentVMK) throw new Error("Vault not unlocked");
+    const stored = await this.read(ENC_SESSION_POLICY);
+    if (!stored) return { ...DEFAULT_SESSION_POLICY };
+    const decrypted = await this.decryptWithKey(this.base64ToBuf(stored), this.currentVMK);
+    return normalizePolicy(JSON.parse(new TextDecoder().decode(decrypted)));
+  }
+
+  static async saveSessionPolicy(policy: SessionPolicy): Promise<void> {
+    if (!this.currentVMK) throw new Error("Vault not unlocked");
+    const encrypted = await this.encryptWithKey(new TextEncoder().encode(JSON.stringify(policy)), this.currentVMK);
+    await this.write({ [ENC_SESSION_POLICY]: this.bufToBase64(encrypted) });
+  }
+
+  /**
+   * Imported breach ranges. Encrypted like the vault data: the set of prefixes
+   * someone chose to download can hint at the hashes of their own passwords.
+   */
+  static async getBreachRanges(): Promise<BreachRanges> {
+    if (!this.currentVMK) throw new Error("Vault not unlocked");
+    const stored = await this.read(ENC_BREACH_RANGES);
+    if (!stored) return {};
+    const decrypted = await this.decryptWithKey(this.base64ToBuf(stored), this.currentVMK);
+    return JSON.parse(new TextDecoder().decode(decrypted));
+  }
+
+  static async saveBreachRanges(ranges: BreachRanges): Promise<void> {
+    if (!this.currentVMK) throw new Error("Vault not unlocked");
+    if (!Object.keys(ranges).length) return this.write({ [ENC_BREACH_RANGES]: null });
+    const encrypted = await this.encryptWithKey(new TextEncoder().encode(JSON.stringify(ranges)), this.currentVMK);
+    await this.write({ [ENC_BREACH_RANGES]: this.bufToBase64(encrypted) });
+  }
+
+  /**
+   * Share key and fingerprint of this vault. The key pairs are generated on
+   * first use. They belong to this copy of the vault and are neither backed up
+   * nor synced, so a restored or joined copy gets a share key of its own.
+   */
+  static async getShareIdentity(): Promise<ShareIdentity> {
+    const identity = await this.readShareIdentity();
+    const key = { encryption: this.base64ToBuf(identity.encryption.publicKey), signing: this.base64ToBuf(identity.signing.publicKey) };
+    return { shareKey: encodeShareKey(key), fingerprint: await shareKeyFingerprint(key) };
+  }
+
+  /**
+   * Seals items for the owner of `recipientShareKey` and signs the envelope
+   * with this vault's key. Returns the envelope as text.
+   */
+  static async sealItems(items: VaultItem[], recipientShareKey: string): Promise<string> {
+    const recipient = parseShareKey(recipientShareKey);
+    const identity = await this.readShareIdentity();
+    const subtle = window.crypto.subtle;
+    const signingKey = await subtle.importKey("pkcs8", this.base64ToBuf(identity.signing.privateKey), { name: "ECDSA", namedCurve: "P-256" }, false, ["sign"]);
+    const ephemeral = await subtle.generateKey({ name: "ECDH", namedCurve: "P-256" }, false, ["deriveBits"]);
+    const recipientKey = await subtle.importKey("raw", recipient.encryption, { name: "ECDH", namedCurve: "P-256" }, false, []);
+    const header: Omit<ShareEnvelope, 'data' | 'signature'> = {
+      format: SHARE_FORMAT,
+      version: SHARE_VERSION,
+      createdAt: new Date().toISOString(),
+      sender: (await this.getShareIdentity()).shareKey,
+      recipient: await shareKeyFingerprint(recipient),
+      ephemeral: this.bufToBase64(new Uint8Array(await subtle.exportKey("raw", ephemeral.publicKey)))
+    };
+    const payload: SharePayload = { schemaVersion: SCHEMA_VERSION, items: items.map(toSharedDraft) };
+    const key = await this.deriveShareKey(ephemeral.privateKey, recipientKey);
+    const encrypted = await this.encryptWithKey(new TextEncoder().encode(JSON.stringify(payload)), key, envelopeAad(header));
+    const unsigned = { ...header, data: this.bufToBase64(encrypted) };
+    const signature = await subtle.sign({ name: "ECDSA", hash: "SHA-256" }, signingKey, new TextEncoder().encode(canonicalEnvelope(unsigned)));
+    const envelope: ShareEnvelope = { ...unsigned, signature: this.bufToBase64(new Uint8Array(signature)) };
+    return JSON.stringify(envelope, null, 2);
+  }
+
+  /**
+   * Verifies and decrypts an envelope sealed for this vault. A valid signature
+   * only proves who holds the sender key; the user still compares its
+   * fingerprint with the sender before importing.
+   */
+  static async openEnvelope(text: string): Promise<OpenedShare> {
+    const envelope = parseEnvelope(text.trim());
+    const sender = parseShareKey(envelope.sender);
+    const subtle = window.crypto.subtle;
+    let valid = false;
+    try {
+      const verifyKey = await subtle.importKey("raw", sender.signing, { name: "ECDSA", namedCurve: "P-256" }, false, ["verify"]);
+      valid = await subtle.verify({ name: "ECDSA", hash: "SHA-256" }, verifyKey, this.base64ToBuf(envelope.signature), new TextEncoder().encode(canonicalEnvelope(envelope)));
+    } catch (e) {
+      // An unparsable key or signature is as bad as a wrong one
+    }
+    if (!valid) throw new ShareError('bad-signature', "Envelope signature is invalid; it was changed after sealing");
+    if (envelope.recipient !== (await this.getShareIdentity()).fingerprint) throw new ShareError('not-for-you', "This envelope was sealed for another vault");
+
+    const identity = await this.readShareIdentity();
+    let payload: unknown;
+    try {
+      const privateKey = await subtle.importKey("pkcs8", this.base64ToBuf(identity.encryption.privateKey), { name: "ECDH", namedCurve: "P-256" }, false, ["deriveBits"]);
+      const ephemeralKey = await subtle.importKey("raw", this.base64ToBuf(envelope.ephemeral), { name: "ECDH", namedCurve: "P-256" }, false, []);
+      const key = await this.deriveShareKey(privateKey, ephemeralKey);
+      const decrypted = await this.decryptWithKey(this.base64ToBuf(envelope.data), key, envelopeAad(envelope));
+      payload = JSON.parse(new TextDecoder().decode(decrypted));
+    } catch (e) {
+      throw new ShareError('corrupt', "Envelope could not be decrypted");
+    }
+    if (!isSharePayload(payload)) throw new ShareError('corrupt', "Envelope contents are malformed");
+    if (payload.schemaVersion > SCHEMA_VERSION) throw new ShareError('unsupported-version', "These items were shared from a newer version of the app");
+    const { schemaVersion } = payload;
+    let items: VaultItem[] = [];
+    try {
+      items = migrateVaultData({ schemaVersion, items: payload.items.map(draft => createItem(draft)) }).items;
+    } catch (e) {
+      // Drafts an older schema cannot have produced land here
+    }
+    // The signature proves who sent the items, not that their app built them right; a card without customFields would break the vault view
+    if (items.length !== payload.items.length || !items.every(isVaultItem)) throw new ShareError('corrupt', "Envelope contents are malformed");
+    return { senderFingerprint: await shareKeyFingerprint(sender), createdAt: envelope.createdAt, items };
+  }
+
+  /**
+   * Decrypts the audit log of the open vault, oldest entry first. Throws
+   * VaultIntegrityError if an entry is missing or the HMAC chain does not end
+   * where the log head says it does.
+   */
+  static async getAuditLog(): Promise<AuditEntry[]> {
+    if (!this.currentVMK || !this.vaultId) throw new Error("Vault not unlocked");
+    const head = parseAuditHead(await this.read(AUDIT_HEAD));
+    if (head.count < (this.highestAuditCount.get(this.vaultId + this.scope) ?? 0)) throw new VaultIntegrityError("Audit log was rolled back to an earlier version");
+    const { key, macKey } = await this.deriveAuditKeys(this.currentVMK);
+    const entries: AuditEntry[] = [];
+    let chain = auditChainStart();
+    for (let seq = 0; seq < head.count; seq++) {
+      const record = await this.read(AUDIT_RECORD_PREFIX + seq);
+      if (!record) throw new VaultIntegrityError(`Audit log entry ${seq} is missing`);
+      chain = await this.chainAudit(chain, record, macKey);
+      try {
+        const decrypted = await this.decryptWithKey(this.base64ToBuf(record), key, auditAad(this.vaultId, seq));
+        entries.push({ ...JSON.parse(new TextDecoder().decode(decrypted)), seq });
+      } catch (e) {
+        throw new VaultIntegrityError(`Audit log entry ${seq} failed authentication`);
+      }
+    }
+    if (head.count && !this.constantTimeEquals(chain, this.base64ToBuf(head.chain))) throw new VaultIntegrityError("Audit log was altered");
+    this.noteAuditCount(this.vaultId, head.count);
+    return entries;
+  }
+
+  private static async runSync(retry: boolean = true): Promise<SyncResult> {
+    const vmk = this.currentVMK;
+    const vaultId = this.vaultId;
+    const initial = await this.readSyncState();
+    if (!vmk || !vaultId || !initial) throw new Error("Sync is not set up");
+    const { server, syncId } = initial;
+    // Start from what another tab may have saved, or its items would look like local changes to push
+    const reloaded = await this.exclusive(() => this.reloadIfChanged());
+    const token = await this.syncToken(vmk, syncId);
+    const itemKey = await this.deriveVmkSubkey(vmk, SYNC_ITEM_HKDF_INFO, { name: "AES-GCM", length: 256 }, ["encrypt", "decrypt"]);
+
+    const pulled = await this.syncRequest<PullResponse>(server, 'GET', `${syncPath(syncId, '/changes')}?since=${initial.cursor}`, token);
+    const remote = await Promise.all(pulled.records.map(record => this.openSyncRecord(record, syncId, itemKey)));
+
+    const merged = mergeRemote(this.loadedItems(), initial, remote);
+    const pending = pendingChanges(merged.items, merged);
+    const localSlots = await this.readSyncSlots();
+    const slots = await this.mergeSyncSlots(initial, localSlots, pulled.slots, syncId, vmk);
+    const slotsJson = this.canonicalSlots(slots);
+    const pushSlots = slotsJson !== this.canonicalSlots(pulled.slots.slots);
+    let accepted: PushResponse['accepted'] = [];
+    let rejected = 0;
+    let slotsRejected = false;
+    if (pending.length || pushSlots) {
+      const changes = await Promise.all(pending.map(async change => ({ id: change.id, baseRev: change.baseRev, data: await this.sealSyncRecord(change, syncId, itemKey) })));
+      const slotsRev = pulled.slots.rev + 1;
+      const pushed = await this.syncRequest<PushResponse>(server, 'POST', syncPath(syncId, '/changes'), token, {
+        changes,
+        ...(pushSlots && { slots: { baseRev: pulled.slots.rev, slots, mac: await this.signSyncSlots({ rev: slotsRev, slots }, syncId, vmk) } })
+      });
+      accepted = pushed.accepted;
+      rejected = pushed.rejected.length;
+      slotsRejected = pushSlots && pushed.slotsRejected;
+    }
+    // After a refused slot push the slots stay as they were, and the retry merges them with the newer ones
+    const agreed = slotsRejected
+      ? { slotsJson: initial.slotsJson, slotsRev: initial.slotsRev }
+      : { slotsJson, slotsRev: pushSlots ? pulled.slots.rev + 1 : pulled.slots.rev };
+
+    const result = await this.exclusive(async () => {
+      if (this.currentVMK !== vmk || this.vaultId !== vaultId) throw new Error("Vault was locked during sync");
+      // Merge again onto the current items: the user may have saved while the requests were in flight
+      const latest = mergeRemote(this.loadedItems(), initial, remote);
+      const next: StoredSync = { ...acceptPushed(latest, pending, accepted), server, syncId, cursor: pulled.seq, ...agreed, lastSyncAt: Date.now() };
+      const changed = reloaded || (remote.length > 0 && JSON.stringify(latest.items) !== JSON.stringify(this.loadedItems()));
+      // Slots from another device replace the local ones, unless a reset here got in between; the next sync pushes that
+      const adopted = !slotsRejected && slotsJson !== this.canonicalSlots(localSlots)
+        && this.canonicalSlots(await this.readSyncSlots()) === this.canonicalSlots(localSlots);
+      await this.commitItems(latest.items, {
+        [ENC_SYNC_STATE]: await this.encryptJson(next, vmk),
+        ...(adopted && { ...this.slotChanges(MASTER_SLOT, slots.master), ...this.slotChanges(RECOVERY_SLOT, slots.recovery) })
+      }, 'sync');
+      return { items: latest.items, changed, status: this.syncStatus(next) };
+    });
+    // Stale pushes were rejected; pulling again brings their current version, which surfaces the conflict
+    if ((!rejected && !slotsRejected) || !retry) return result;
+    const again = await this.runSync(false);
+    return { ...again, changed: again.changed || result.changed };
+  }
+
+  /**
+   * Encrypts a pending change for the server. The AAD binds sync id, item id
+   * and the revision the server will assign, so records cannot be swapped or replayed.
+   */
+  private static async sealSyncRecord(change: PendingChange, syncId: string, key: CryptoKey): Promise<string> {
+    const payload: SyncPayload = { schemaVersion: SCHEMA_VERSION, item: change.item };
+    const aad = this.syncAad(syncId, change.id, change.baseRev + 1);
+    return this.bufToBase64(await this.encryptWithKey(new TextEncoder().encode(JSON.stringify(payload)), key, aad));
+  }
+
+  private static async openSyncRecord(record: SyncRecord, syncId: string, key: CryptoKey): Promise<RemoteChange> {
+    let payload: SyncPayload;
+    try {
+      const decrypted = await this.decryptWithKey(this.base64ToBuf(record.data), key, this.syncAad(syncId, record.id, record.rev));
+      payload = JSON.parse(new TextDecoder().decode(decrypted));
+    } catch (e) {
+      throw new VaultIntegrityError(`Synced record ${record.id} failed authentication`);
+    }
+    const item = payload.item && migrateVaultData({ schemaVersion: payload.schemaVersion, items: [payload.item] }).items[0];
+    return { id: record.id, rev: record.rev, item };
+  }
+
+  private static syncAad(syncId: string, itemId: string, rev: number): Uint8Array {
+    return new TextEncoder().encode(`${SYNC_AAD_PREFIX}\n${syncId}\n${itemId}\n${rev}`);
+  }
+
+  /**
+   * Bearer token for the sync server: an HMAC of the sync id under a VMK-derived
+   * key, so every device holding the VMK computes the same token and the server learns nothing else.
+   */
+  private static async syncToken(vmk: CryptoKey, syncId: string): Promise<string> {
+    const authKey = await this.deriveVmkSubkey(vmk, SYNC_AUTH_HKDF_INFO, { name: "HMAC", hash: "SHA-256", length: 256 }, ["sign"]);
+    const signature = await window.crypto.subtle.sign("HMAC", authKey, new TextEncoder().encode(syncId));
+    return this.bufToBase64(new Uint8Array(signature)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+  }
+
+  private static async syncRequest<T>(server: string, method: string, path: string, token?: string, body?: object): Promise<T> {
+    let response: Response;
+    try {
+      response = await fetch(server.replace(/\/+$/, '') + path, {
+        method,
+        headers: { ...(token && { Authorization: `Bearer ${token}` }), ...(body && { 'Content-Type': 'application/json' }) },
+        body: body && JSON.stringify(body)
+      });
+    } catch (e) {
+      throw new SyncError('network', `Cannot reach the sync server at ${server}`);
+    }
+    if (!response.ok) {
+      const message = (await response.json().catch(() => null))?.error ?? `HTTP ${response.status}`;
+      const reason: SyncErrorReason = response.status === 401 || response.status === 403 ? 'unauthorized'
+        : response.status === 404 ? 'not-found'
+        : response.status === 409 ? 'exists'
+        : 'server';
+      throw new SyncError(reason, `Sync server: ${message}`);
+    }
+    return response.json();
+  }
+
+  private static async readSyncSlots(): Promise<SyncSlots> {
+    return { master: await this.readSlot(MASTER_SLOT), recovery: await this.readSlot(RECOVERY_SLOT) };
+  }
+
+  /**
+   * The slots this device should hold after the sync: the local ones merged
+   * with the server's if those are newer. Newer server slots must carry a MAC
+   * from a device with the VMK, so the server cannot swap in slots of its own.
+   */
+  private static async mergeSyncSlots(sync: StoredSync, local: SyncSlots, remote: VersionedSlots, syncId: string, vmk: CryptoKey): Promise<SyncSlots> {
+    if (remote.rev < sync.slotsRev) throw new VaultIntegrityError("Sync server returned older key slots");
+    if (remote.rev === sync.slotsRev) return local;
+    await this.verifySyncSlots(remote, syncId, vmk);
+    return mergeSlots(JSON.parse(sync.slotsJson), local, remote.slots);
+  }
+
+  private static async signSyncSlots({ rev, slots }: Omit<VersionedSlots, 'mac'>, syncId: string, vmk: CryptoKey): Promise<string> {
+    const macKey = await this.deriveVmkSubkey(vmk, SYNC_SLOTS_HKDF_INFO, { name: "HMAC", hash: "SHA-256", length: 256 }, ["sign"]);
+    const signature = await window.crypto.subtle.sign("HMAC", macKey, new TextEncoder().encode(`${syncId}\n${rev}\n${this.canonicalSlots(slots)}`));
+    return this.bufToBase64(new Uint8Array(signature));
+  }
+
+  private static async verifySyncSlots(versioned: VersionedSlots, syncId: string, vmk: CryptoKey): Promise<void> {
+    let authentic = false;
+    try {
+      authentic = this.constantTimeEquals(this.base64ToBuf(await this.signSyncSlots(versioned, syncId, vmk)), this.base64ToBuf(versioned.mac));
+    } catch (e) {
+      // A malformed MAC lands here
+    }
+    if (!authentic) throw new VaultIntegrityError("Synced key slots failed authentication");
+  }
+
+  private static canonicalSlots(slots: SyncSlots): string {
+    const slot = ({ salt, kdf, vmk }: SlotRecord) => ({ salt, kdf: kdf || null, vmk });
+    return JSON.stringify({ master: slot(slots.master), recovery: slot(slots.recovery) });
+  }
+
+  private static async readSyncState(): Promise<StoredSync | null> {
+    if (!this.currentVMK) throw new Error("Vault not unlocked");
+    const stored = await this.read(ENC_SYNC_STATE);
+    if (!stored) return null;
+    return JSON.parse(new TextDecoder().decode(await this.decryptWithKey(this.base64ToBuf(stored), this.currentVMK)));
+  }
+
+  private static async writeSyncState(sync: StoredSync, vmk: CryptoKey): Promise<void> {
+    await this.write({ [ENC_SYNC_STATE]: await this.encryptJson(sync, vmk) });
+  }
+
+  /** Reads the share identity, generating it on first use. */
+  private static async readShareIdentity(): Promise<StoredShareIdentity> {
+    const vmk = this.currentVMK;
+    if (!vmk) throw new Error("Vault not unlocked");
+    const decode = async (stored: string): Promise<StoredShareIdentity> => JSON.parse(new TextDecoder().decode(await this.decryptWithKey(this.base64ToBuf(stored), vmk)));
+    const stored = await this.read(ENC_SHARE_IDENTITY);
+    if (stored) return decode(stored);
+    // Two first uses at once must not each generate and hand out a different key
+    return this.exclusive(async () => {
+      const written = await this.read(ENC_SHARE_IDENTITY);
+      if (written) return decode(written);
+      const identity: StoredShareIdentity = {
+        encryption: await this.generateShareKeyPair({ name: "ECDH", namedCurve: "P-256" }, ["deriveBits"]),
+        signing: await this.generateShareKeyPair({ name: "ECDSA", namedCurve: "P-256" }, ["sign", "verify"])
+      };
+      await this.write({ [ENC_SHARE_IDENTITY]: await this.encryptJson(identity, vmk) });
+      return identity;
+    });
+  }
+
+  private static async generateShareKeyPair(algorithm: EcKeyGenParams, usages: KeyUsage[]): Promise<{ publicKey: string; privateKey: string }> {
+    const pair = await window.crypto.subtle.generateKey(algorithm, true, usages) as CryptoKeyPair;
+    return {
+      publicKey: this.bufToBase64(new Uint8Array(await window.crypto.subtle.exportKey("raw", pair.publicKey))),
+      privateKey: this.bufToBase64(new Uint8Array(await window.crypto.subtle.exportKey("pkcs8", pair.privateKey)))
+    };
+  }
+
+  /** ECDH secret of the two keys, through HKDF, as the envelope's AES-GCM key. */
+  private static async deriveShareKey(privateKey: CryptoKey, publicKey: CryptoKey): Promise<CryptoKey> {
+    const secret = await window.crypto.subtle.deriveBits({ name: "ECDH", public: publicKey }, privateKey, 256);
+    const baseKey = await window.crypto.subtle.importKey("raw", secret, "HKDF", false, ["deriveKey"]);
+    return window.crypto.subtle.deriveKey(
+      { name: "HKDF", hash: "SHA-256", salt: new Uint8Array(32), info: new TextEncoder().encode(SHARE_HKDF_INFO) },
+      baseKey, { name: "AES-GCM", length: 256 }, false, ["encrypt", "decrypt"]
+    );
+  }
+
+  private static syncStatus(sync: StoredSync): SyncStatus {
+    return { server: sync.server, syncId: sync.syncId, lastSyncAt: sync.lastSyncAt, conflicts: sync.conflicts };
+  }
+
+  private static async encryptJson(value: unknown, vmk: CryptoKey): Promise<string> {
+    return this.bufToBase64(await this.encryptWithKey(new TextEncoder().encode(JSON.stringify(value)), vmk));
+  }
+
+  /**
+   * Adds entries to the open dataset's audit log. Appends commit on their own,
+   * conditional on the log head, and start over from the new head if another
+   * tab appended first. The log records what happened; failing to write it
+   * never undoes or blocks the action itself.
+   */
+  private static async appendAudit(events: AuditEvent[]): Promise<void> {
+    const vmk = this.currentVMK;
+    const vaultId = this.vaultId;
+    if (!events.length || !vmk || !vaultId) return;
+    try {
+      const { key, macKey } = await this.deriveAuditKeys(vmk);
+      for (let attempt = 0; attempt < 3; attempt++) {
+        const stored = await this.read(AUDIT_HEAD);
+        const head = parseAuditHead(stored);
+        let chain = head.count ? this.base64ToBuf(head.chain) : auditChainStart();
+        const changes: StorageChanges = {};
+        for (const [i, event] of events.entries()) {
+          const seq = head.count + i;
+          const record = this.bufToBase64(await this.encryptWithKey(new TextEncoder().encode(JSON.stringify(event)), key, auditAad(vaultId, seq)));
+          chain = await this.chainAudit(chain, record, macKey);
+          changes[AUDIT_RECORD_PREFIX + seq] = record;
+        }
+        changes[AUDIT_HEAD] = JSON.stringify({ count: head.count + events.length, chain: this.bufToBase64(chain) });
+        try {
+          await this.write(changes, { [AUDIT_HEAD]: stored });
+          this.noteAuditCount(vaultId, head.count + events.length);
+          return;
+        } catch (e) {
+          if (!(e instanceof StorageConflictError)) throw e;
+        }
+      }
+    } catch (e) {
+      // Left out of the log, see above
+    }
+  }
+
+  /**
+   * Logs an unlock, preceded by the failed attempts since the last one that was logged.
+   * Failed attempts are the vault's: the decoy logs its unlock alone and leaves them pending.
+   */
+  private static async auditUnlock(method: UnlockMethod | 'biometric'): Promise<void> {
+    const unlock: AuditEvent = { type: 'unlock', at: Date.now(), method };
+    if (this.scope === DECOY_SCOPE) return this.appendAudit([unlock]);
+    const attempts = await this.readAttempts();
+    const failed = ThrottleService.unaudited(attempts);
+    await this.appendAudit([...failedUnlockEvents(failed), unlock]);
+    if (failed.length) await this.writeAttempts(ThrottleService.markAudited(attempts));
+  }
+
+  private static noteAuditCount(vaultId: string, count: number): void {
+    const key = vaultId + this.scope;
+    this.highestAuditCount.set(key, Math.max(count, this.highestAuditCount.get(key) ?? 0));
+  }
+
+  private static async deriveAuditKeys(vmk: CryptoKey): Promise<{ key: CryptoKey; macKey: CryptoKey }> {
+    return {
+      key: await this.deriveVmkSubkey(vmk, AUDIT_HKDF_INFO, { name: "AES-GCM", length: 256 }, ["encrypt", "decrypt"]),
+      macKey: await this.deriveVmkSubkey(vmk, AUDIT_MAC_HKDF_INFO, { name: "HMAC", hash: "SHA-256", length: 256 }, ["sign"])
+    };
+  }
+
+  /** Next HMAC chain value: the previous one followed by the stored record. */
+  private static async chainAudit(previous: Uint8Array, record: string, macKey: CryptoKey): Promise<Uint8Array> {
+    const encoded = new TextEncoder().encode(record);
+    const input = new Uint8Array(previous.length + encoded.length);
+    input.set(previous);
+    input.set(encoded, previous.length);
+    return new Uint8Array(await window.crypto.subtle.sign("HMAC", macKey, input));
+  }
+
+  /** Runs `task` under a lock shared by every tab of this origin, where the browser has the Web Locks API. */
+  private static acrossTabs<T>(name: string, task: () => Promise<T>): Promise<T> {
+    if (typeof navigator === 'undefined' || !navigator.locks) return task();
+    return navigator.locks.request(`cyber-dt-vault:${name}`, task);
+  }
+
+  private static exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.commits.then(task, task);
+    this.commits = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Writes the items on top of the loaded manifest, plus any extra records in the same commit,
+   * and logs each item change with `origin`. Callers hold `exclusive`.
+   */
+  private static async commitItems(items: VaultItem[], extra: StorageChanges = {}, origin: AuditOrigin = 'local'): Promise<void> {
+    if (!this.currentVMK || !this.loaded || !this.vaultId) throw new Error("Vault not unlocked");
+    const { changes, state } = await this.recordChanges(this.vaultId, this.currentVMK, this.loaded, items);
+    const events = itemEvents(this.loaded.records, items, origin);
+    try {
+      await this.write({ ...changes, ...extra }, { [MANIFEST]: this.loaded.stored ?? null });
+    } catch (e) {
+      throw e instanceof StorageConflictError ? new VaultConflictError() : e;
+    }
+    this.setLoaded(this.vaultId, state);
+    await this.appendAudit(events);
+    this.onCommit?.(this.vaultId);
+  }
+
+  /** Loads the stored records if they differ from the loaded ones. Callers hold `exclusive`. */
+  private static async reloadIfChanged(): Promise<boolean> {
+    if (!this.currentVMK || !this.loaded || !this.vaultId) throw new Error("Vault not unlocked");
+    const stored = await this.read(MANIFEST);
+    if (!stored || stored === this.loaded.stored) return false;
+    this.setLoaded(this.vaultId, await this.readRecords(this.vaultId, this.currentVMK, stored));
+    return true;
+  }
+
+  private static loadedItems(): VaultItem[] {
+    if (!this.loaded) throw new Error("Vault not unlocked");
+    return Array.from(this.loaded.records.values(), json => JSON.parse(json));
+  }
+
+  /**
+   * Installs the VMK and loads the items. A load failure locks again, so a
+   * vault that fails its integrity check is never left half open.
+   */
+  private static async openVault(vmkRaw: Uint8Array): Promise<VaultItem[]> {
+    // CRITICAL: extractable must be true so resetMasterPassword can export it
+    this.currentVMK = await window.crypto.subtle.importKey("raw", vmkRaw, "AES-GCM", true, ["encrypt", "decrypt"]);
+    try {
+      return await this.loadData();
+    } catch (e) {
+      this.lock();
+      throw e;
+    }
+  }
+
+  private static async loadData(): Promise<VaultItem[]> {
+    const vaultId = this.vaultId!;
+    const stored = await this.read(MANIFEST);
+    if (!stored) return this.splitDataBlob(vaultId, this.currentVMK!);
+    const state = await this.readRecords(vaultId, this.currentVMK!, stored);
+    this.setLoaded(vaultId, state);
+    const raw = { schemaVersion: state.manifest.schemaVersion, items: Array.from(state.records.values(), json => JSON.parse(json)) };
+    const { items: current, migrated } = migrateVaultData(raw);
+    const { items, purged } = purgeRecycleBin(current);
+    if (migrated || purged) await this.exclusive(() => this.commitItems(items, {}, 'automatic'));
+    return items;
+  }
+
+  /**
+   * Vaults from before per-record encryption keep every item in DATA_BLOB.
+   * The first unlock writes the records and manifest and drops the blob in one commit.
+   */
+  private static async splitDataBlob(vaultId: string, vmk: CryptoKey): Promise<VaultItem[]> {
+    const data = await this.read(DATA_BLOB);
+    if (!data) throw new VaultIntegrityError("Vault manifest is missing");
+    let decrypted: Uint8Array;
+    try {
+      decrypted = await this.decryptWithKey(this.base64ToBuf(data), vmk);
+    } catch (e) {
+      throw new VaultIntegrityError("Vault data failed authentication");
+    }
+    const { items: current } = migrateVaultData(JSON.parse(new TextDecoder().decode(decrypted)));
+    const { items } = purgeRecycleBin(current);
+    const { changes, state } = await this.recordChanges(vaultId, vmk, { manifest: emptyManifest(vaultId, SCHEMA_VERSION), records: new Map() }, items);
+    await this.write({ ...changes, [DATA_BLOB]: null });
+    this.setLoaded(vaultId, state);
+    return items;
+  }
+
+  /**
+   * Verifies the manifest, then decrypts every record it lists with the
+   * vault id and revision as AAD. Records the manifest does not list are ignored.
+   */
+  private static async readRecords(vaultId: string, vmk: CryptoKey, stored: string): Promise<LoadedRecords> {
+    const { manifest, mac } = parseSignedManifest(stored);
+    if (!await this.verifyManifest(manifest, mac, vmk)) throw new VaultIntegrityError("Vault manifest signature is invalid");
+    if (manifest.vaultId !== vaultId) throw new VaultIntegrityError("Vault manifest belongs to another vault");
+    if (manifest.counter < (this.highestCounter.get(vaultId + this.scope) ?? 0)) throw new VaultIntegrityError("Vault data was rolled back to an earlier version");
+
+    const itemKey = await this.deriveItemKey(vmk);
+    const records = new Map<string, string>();
+    for (const entry of manifest.items) {
+      const record = await this.read(ITEM_RECORD_PREFIX + entry.id);
+      if (!record) throw new VaultIntegrityError(`Vault record ${entry.id} is missing`);
+      try {
+        const decrypted = await this.decryptWithKey(this.base64ToBuf(record), itemKey, itemAad(vaultId, entry));
+        records.set(entry.id, new TextDecoder().decode(decrypted));
+      } catch (e) {
+        throw new VaultIntegrityError(`Vault record ${entry.id} failed authentication`);
+      }
+    }
+    return { manifest, records, stored };
+  }
+
+  /**
+   * Encrypts the items that differ from `current` and signs the new manifest.
+   * Returns the record changes for the caller to commit and the state they produce.
+   */
+  private static async recordChanges(vaultId: string, vmk: CryptoKey, current: LoadedRecords, items: VaultItem[]): Promise<{ changes: StorageChanges; state: LoadedRecords }> {
+    const serialized = items.map(item => ({ id: item.id, json: JSON.stringify(item) }));
+    const plan = planSave(current.manifest, current.records, serialized, SCHEMA_VERSION);
+    const records = new Map(serialized.map(({ id, json }) => [id, json]));
+    const changed = new Set(plan.changed);
+    const itemKey = await this.deriveItemKey(vmk);
+    const changes: StorageChanges = {};
+    for (const entry of plan.manifest.items) {
+      if (!changed.has(entry.id)) continue;
+      const encrypted = await this.encryptWithKey(new TextEncoder().encode(records.get(entry.id)), itemKey, itemAad(vaultId, entry));
+      changes[ITEM_RECORD_PREFIX + entry.id] = this.bufToBase64(encrypted);
+    }
+    for (const id of plan.removed) changes[ITEM_RECORD_PREFIX + id] = null;
+    const mac = await this.signManifest(plan.manifest, vmk);
+    const stored = JSON.stringify({ manifest: plan.manifest, mac });
+    changes[MANIFEST] = stored;
+    return { changes, state: { manifest: plan.manifest, records, stored } };
+  }
+
+  private static setLoaded(vaultId: string, state: LoadedRecords): void {
+    this.loaded = state;
+    this.highestCounter.set(vaultId + this.scope, Math.max(state.manifest.counter, this.highestCounter.get(vaultId + this.scope) ?? 0));
+  }
+
+  /**
+   * Shared unlock path for the password slots: backoff check, unwrap, load,
+   * failure accounting and the KDF upgrade once the secret proved correct.
+   * A secret that fits the decoy's slot instead opens the decoy, which from
+   * here on is handled exactly like the vault itself.
+   */
+  private static async openPasswordSlot(slot: PasswordSlot, secret: string, method: UnlockMethod, failureMessage: string): Promise<VaultItem[]> {
+    // Slots are looked up relative to the open dataset; an unlock always starts from the vault itself
+    this.lock();
+    const attempts = await this.readAttempts();
+    ThrottleService.assertCanAttempt(attempts);
+    const { vault, decoy } = await this.openSlotPair(slot, secret);
+    const vmkRaw = vault ?? decoy;
+    if (!vmkRaw) {
+      this.lock();
+      const failed = ThrottleService.recordFailure(attempts, method);
+      if (ThrottleService.shouldWipe(failed)) {
+        await this.wipeVault();
+        throw new VaultWipedError(failed.failures);
+      }
+      await this.writeAttempts(failed);
+      throw new Error(failureMessage);
+    }
+    await this.writeAttempts(ThrottleService.recordSuccess(attempts));
+    this.scope = vault ? '' : DECOY_SCOPE;
+    await this.upgradeSlot(slot, vmkRaw, secret);
+    // The secret was right; from here on a failure is about the data, not the attempt
+    const items = await this.openVault(vmkRaw);
+    await this.auditUnlock(method);
+    return items;
+  }
+
+  /**
+   * Unwraps the vault's and the decoy's copy of a slot, null where the secret
+   * does not fit. Both derivations always run, in this order; without a decoy
+   * the second uses the vault's KDF and a throwaway salt. That way the time an
+   * unlock takes tells neither whether there is a decoy nor which one opened.
+   */
+  private static async openSlotPair(slot: PasswordSlot, secret: string): Promise<{ vault: Uint8Array | null; decoy: Uint8Array | null }> {
+    const record = await this.readSlot(slot);
+    const decoySlot = this.decoySlot(slot);
+    const decoyRecord = await this.read(decoySlot.vmk) ? await this.readSlot(decoySlot) : null;
+    const vault = await this.tryUnwrapSlot(record, secret);
+    if (!decoyRecord) {
+      await KdfService.deriveKey(secret, window.crypto.getRandomValues(new Uint8Array(16)), KdfService.parse(record.kdf));
+      return { vault, decoy: null };
+    }
+    return { vault, decoy: await this.tryUnwrapSlot(decoyRecord, secret) };
+  }
+
+  /** Whether `secret` opens the decoy's master slot, seen from the open dataset. */
+  private static async opensDecoy(secret: string): Promise<boolean> {
+    const decoy = this.decoySlot(MASTER_SLOT);
+    if (!await this.read(decoy.vmk)) return false;
+    return !!await this.tryUnwrapSlot(await this.readSlot(decoy), secret);
+  }
+
+  /** The decoy's copy of a slot, named relative to the open dataset. */
+  private static decoySlot(slot: PasswordSlot): PasswordSlot {
+    return { salt: DECOY_SCOPE + slot.salt, kdf: DECOY_SCOPE + slot.kdf, vmk: DECOY_SCOPE + slot.vmk };
+  }
+
+  /**
+   * Registers a vault under a fresh id and commits its initial records with the registry entry.
+   * The id is chosen by the caller, since the initial records are already bound to it.
+   */
+  private static async createVault(id: string, name: string, records: StorageChanges): Promise<void> {
+    const registry = await readRegistry(this.storage);
+    const vaults = [...registry.vaults, { id, name: name.trim() || "Vault", createdAt: new Date().toISOString() }];
+    const changes: StorageChanges = {};
+    for (const [key, value] of Object.entries(records)) changes[vaultPrefix(id) + key] = value;
+    await this.storage.commit({ ...changes, ...registryChanges({ vaults, lastUsed: id }) });
+    this.lock();
+    this.vaultId = id;
+  }
+
+  /**
+   * Wraps the VMK under a fresh salt. Returns salt, KDF header and ciphertext
+   * of the slot for the caller to commit.
+   */
+  private static async wrapSlot(vmkRaw: Uint8Array, secret: string, slot: PasswordSlot, kdf: KdfParams): Promise<StorageChanges> {
+    const salt = window.crypto.getRandomValues(new Uint8Array(16));
+    const derivedKey = await KdfService.deriveKey(secret, salt, kdf);
+    const combined = await this.encryptWithKey(vmkRaw, derivedKey);
+    return this.slotChanges(slot, { salt: this.bufToBase64(salt), kdf: JSON.stringify(kdf), vmk: this.bufToBase64(combined) });
+  }
+
+  private static async openSlot(slot: PasswordSlot, secret: string): Promise<Uint8Array> {
+    return this.unwrapSlot(await this.readSlot(slot), secret);
+  }
+
+  private static async tryUnwrapSlot(record: SlotRecord, secret: string): Promise<Uint8Array | null> {
+    try {
+      return await this.unwrapSlot(record, secret);
+    } catch (e) {
+      return null;
+    }
+  }
+
+  private static async unwrapSlot(record: SlotRecord, secret: string): Promise<Uint8Array> {
+    const kdf = KdfService.parse(record.kdf);
+    const derivedKey = await KdfService.deriveKey(secret, this.base64ToBuf(record.salt), kdf);
+    return this.decryptWithKey(this.base64ToBuf(record.vmk), derivedKey);
+  }
+
+  private static async readSlot(slot: PasswordSlot): Promise<SlotRecord> {
+    return {
+      salt: (await this.read(slot.salt))!,
+      kdf: await this.read(slot.kdf),
+      vmk: (await this.read(slot.vmk))!
+    };
+  }
+
+  private static slotChanges(slot: PasswordSlot, record: SlotRecord): StorageChanges {
+    return { [slot.salt]: record.salt, [slot.kdf]: record.kdf || null, [slot.vmk]: record.vmk };
+  }
+
+  /**
+   * Re-wraps a slot whose KDF differs from the target. Only possible right after
+   * an unlock, while the plaintext secret is still at hand.
+   */
+  private static async upgradeSlot(slot: PasswordSlot, vmkRaw: Uint8Array, secret: string): Promise<void> {
+    const target = await this.getTargetKdf();
+    if (KdfService.equals(KdfService.parse(await this.read(slot.kdf)), target)) return;
+    try {
+      await this.write(await this.wrapSlot(vmkRaw, secret, slot, target));
+    } catch (e) {
+      // The slot's records are replaced in one commit, so a failure leaves the old slot usable
+    }
+  }
+
+  private static async getTargetKdf(): Promise<KdfParams> {
+    const stored = await this.read(KDF_TARGET);
+    return stored ? KdfService.parse(stored) : DEFAULT_KDF;
+  }
+
+  private static async readAttempts(): Promise<AttemptRecord> {
+    return ThrottleService.parse(this.vaultId ? await this.read(UNLOCK_ATTEMPTS) : null);
+  }
+
+  private static async writeAttempts(record: AttemptRecord): Promise<void> {
+    await this.write({ [UNLOCK_ATTEMPTS]: JSON.stringify(record) });
+  }
+
+  /** Reads a record of the selected vault's open dataset. */
+  private static async read(name: string): Promise<string | null> {
+    if (!this.vaultId) throw new Error("No vault selected");
+    return this.storage.get(this.storageKey(name));
+  }
+
+  /** Commits records of the selected vault's open dataset atomically; null deletes. `expected` is the commit's precondition. */
+  private static async write(records: StorageChanges, expected: StorageChanges = {}): Promise<void> {
+    if (!this.vaultId) throw new Error("No vault selected");
+    const prefixed = (values: StorageChanges) => Object.fromEntries(Object.entries(values).map(([name, value]) => [this.storageKey(name), value]));
+    await this.storage.commit(prefixed(records), prefixed(expected));
+  }
+
+  // The failure counter guards the unlock screen, which is the same whichever password then opens
+  private static storageKey(name: string): string {
+    return vaultPrefix(this.vaultId!) + (name === UNLOCK_ATTEMPTS ? name : this.scope + name);
+  }
+
+  private static async encryptItems(items: VaultItem[], vmk: CryptoKey): Promise<string> {
+    const plaintext = new TextEncoder().encode(serializeVaultData(items));
+    return this.bufToBase64(await this.encryptWithKey(plaintext, vmk));
+  }
+
+  /**
+   * AES-GCM with a random 96-bit IV prepended to the ciphertext.
+   */
+  private static async encryptWithKey(plaintext: Uint8Array, key: CryptoKey, additionalData?: Uint8Array): Promise<Uint8Array> {
+    const iv = window.crypto.getRandomValues(new Uint8Array(12));
+    const encrypted = await window.crypto.subtle.encrypt({ name: "AES-GCM", iv, ...(additionalData && { additionalData }) }, key, plaintext);
+    const combined = new Uint8Array(iv.length + encrypted.byteLength);
+    combined.set(iv);
+    combined.set(new Uint8Array(encrypted), iv.length);
+    return combined;
+  }
+
+  private static async decryptWithKey(combined: Uint8Array, key: CryptoKey, additionalData?: Uint8Array): Promise<Uint8Array> {
+    const iv = combined.slice(0, 12);
+    const ciphertext = combined.slice(12);
+    const decrypted = await window.crypto.subtle.decrypt({ name: "AES-GCM", iv, ...(additionalData && { additionalData }) }, key, ciphertext);
+    return new Uint8Array(decrypted);
+  }
+
+  /**
+   * The PRF output is already uniformly random; HKDF only domain-separates it for the VMK slot.
+   */
+  private static async derivePrfKey(prfOutput: Uint8Array): Promise<CryptoKey> {
+    const baseKey = await window.crypto.subtle.importKey("raw", prfOutput, "HKDF", false, ["deriveKey"]);
+    return window.crypto.subtle.deriveKey(
+      { name: "HKDF", hash: "SHA-256", salt: new Uint8Array(32), info: new TextEncoder().encode(BIOMETRIC_HKDF_INFO) },
+      baseKey, { name: "AES-GCM", length: 256 }, false, ["encrypt", "decrypt"]
+    );
+  }
+
+  private static async computeBackupMac(body: Omit<BackupFile, 'mac'>, vmk: CryptoKey): Promise<string> {
+    // Rebuild the object so the MAC input has a fixed field order regardless of how the file was parsed
+    const canonical = JSON.stringify({
+      format: body.format,
+      version: body.version,
+      createdAt: body.createdAt,
+      slots: {
+        master: { salt: body.slots.master.salt, kdf: body.slots.master.kdf ?? null, vmk: body.slots.master.vmk },
+        recovery: { salt: body.slots.recovery.salt, kdf: body.slots.recovery.kdf ?? null, vmk: body.slots.recovery.vmk }
+      },
+      data: body.data
+    });
+    const macKey = await this.deriveVmkSubkey(vmk, BACKUP_HKDF_INFO, { name: "HMAC", hash: "SHA-256", length: 256 }, ["sign"]);
+    const signature = await window.crypto.subtle.sign("HMAC", macKey, new TextEncoder().encode(canonical));
+    return this.bufToBase64(new Uint8Array(signature));
+  }
+
+  private static async signManifest(manifest: VaultManifest, vmk: CryptoKey): Promise<string> {
+    const macKey = await this.deriveVmkSubkey(vmk, MANIFEST_HKDF_INFO, { name: "HMAC", hash: "SHA-256", length: 256 }, ["sign"]);
+    const signature = await window.crypto.subtle.sign("HMAC", macKey, new TextEncoder().encode(canonicalManifest(manifest)));
+    return this.bufToBase64(new Uint8Array(signature));
+  }
+
+  private static async verifyManifest(manifest: VaultManifest, mac: string, vmk: CryptoKey): Promise<boolean> {
+    const macKey = await this.deriveVmkSubkey(vmk, MANIFEST_HKDF_INFO, { name: "HMAC", hash: "SHA-256", length: 256 }, ["verify"]);
+    try {
+      return await window.crypto.subtle.verify("HMAC", macKey, this.base64ToBuf(mac), new TextEncoder().encode(canonicalManifest(manifest)));
+    } catch (e) {
+      // Malformed base64 lands here
+      return false;
+    }
+  }
+
+  private static deriveItemKey(vmk: CryptoKey): Promise<CryptoKey> {
+    return this.deriveVmkSubkey(vmk, ITEM_HKDF_INFO, { name: "AES-GCM", length: 256 }, ["encrypt", "decrypt"]);
+  }
+
+  /**
+   * HKDF from the VMK, so each purpose (item records, manifest, backups) has its own key.
+   */
+  private static async deriveVmkSubkey(vmk: CryptoKey, info: string, algorithm: AesKeyGenParams | HmacKeyGenParams, usages: KeyUsage[]): Promise<CryptoKey> {
+    const vmkRaw = await window.crypto.subtle.exportKey("raw", vmk);
+    const baseKey = await window.crypto.subtle.importKey("raw", vmkRaw, "HKDF", false, ["deriveKey"]);
+    return window.crypto.subtle.deriveKey(
+      { name: "HKDF", hash: "SHA-256", salt: new Uint8Array(32), info: new TextEncoder().encode(info) },
+      baseKey, algorithm, false, usages
+    );
+  }
+
+  private static constantTimeEquals(a: Uint8Array, b: Uint8Array): boolean {
+    if (a.length !== b.length) return false;
+    let diff = 0;
+    for (let i = 0; i < a.length; i++) diff |= a[i] ^ b[i];
+    return diff === 0;
+  }
+
+  /** The passkey slot under `scope`, relative to the open dataset; null if none is enrolled there. */
+  private static async readBiometricSlot(scope: string): Promise<BiometricSlot | null> {
+    const stored = await this.read(scope + BIOMETRIC_CREDENTIAL);
+    const vmk = await this.read(scope + ENC_VMK_BIOMETRIC);
+    if (!stored || !vmk) return null;
+    const { id, salt } = JSON.parse(stored);
+    return { scope, vmk, credential: { credentialId: this.base64ToBuf(id), prfSalt: this.base64ToBuf(salt) } };
+  }
+
+  /** Passkey slots the unlock screen offers: the vault's and its decoy's. Call while locked. */
+  private static async biometricSlots(): Promise<BiometricSlot[]> {
+    const slots = [await this.readBiometricSlot(''), await this.readBiometricSlot(DECOY_SCOPE)];
+    return slots.filter(slot => slot !== null);
+  }
+
+  private static generateRecoveryHex(): string {
+    const array = new Uint8Array(24);
+    window.crypto.getRandomValues(array);
+    return Array.from(array, dec => dec.toString(16).padStart(2, '0')).join('').toUpperCase();
+  }
+
+  // Chunked: spreading a multi-megabyte vault blob into one call overflows the stack
+  private static bufToBase64(buf: Uint8Array): string {
+    let binary = '';
+    for (let i = 0; i < buf.length; i += 0x8000) binary += String.fromCharCode(...buf.subarray(i, i + 0x8000));
+    return btoa(binary);
+  }
+  private static base64ToBuf(b64: string): Uint8Array { return new Uint8Array(atob(b64).split("").map(c => c.charCodeAt(0))); }
+}
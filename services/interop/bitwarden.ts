@@ -0,0 +1,108 @@
+import { ImportParser, ImportedItem, ImportFormatError } from './types';
+import { CustomField, normalizeFolder } from '../VaultItems';
+
+// Bitwarden item types: 1 = login, 2 = secure note, 3 = card, 4 = identity
+const BITWARDEN_LOGIN = 1;
+const BITWARDEN_NOTE = 2;
+const BITWARDEN_CARD = 3;
+const BITWARDEN_IDENTITY = 4;
+// Bitwarden custom field types: 0 = text, 1 = hidden, 2 = boolean
+const BITWARDEN_FIELD_HIDDEN = 1;
+
+type Nullable<T> = { [K in keyof T]?: T[K] | null };
+
+interface BitwardenItem {
+  type: number;
+  name?: string;
+  folderId?: string | null;
+  favorite?: boolean;
+  notes?: string | null;
+  fields?: { name?: string | null; value?: string | null; type: number }[] | null;
+  login?: Nullable<{ username: string; password: string; totp: string; uris: { uri?: string | null }[] }> | null;
+  card?: Nullable<{ cardholderName: string; number: string; expMonth: string; expYear: string; code: string }> | null;
+  identity?: Nullable<{ firstName: string; lastName: string; email: string; phone: string; address1: string; city: string; postalCode: string; country: string }> | null;
+}
+
+interface BitwardenExport {
+  encrypted?: boolean;
+  folders?: { id: string; name: string }[];
+  items?: BitwardenItem[];
+}
+
+function toCustomFields(item: BitwardenItem): CustomField[] {
+  return (item.fields ?? []).map(f => ({
+    id: crypto.randomUUID(),
+    label: f.name ?? '',
+    value: f.value ?? '',
+    type: f.type === BITWARDEN_FIELD_HIDDEN ? 'hidden' : 'text'
+  }));
+}
+
+// Bitwarden already names nested folders with "/" separators
+function toItem(item: BitwardenItem, folders: Map<string, string>): ImportedItem | null {
+  const imported = toKindFields(item);
+  if (!imported) return null;
+  return {
+    ...imported,
+    folder: normalizeFolder(item.folderId ? folders.get(item.folderId) : undefined),
+    ...(item.favorite ? { favorite: true } : {})
+  };
+}
+
+function toKindFields(item: BitwardenItem): ImportedItem | null {
+  const title = item.name || 'Untitled';
+  const customFields = toCustomFields(item);
+  const notes = item.notes ?? undefined;
+  const tags: string[] = [];
+
+  switch (item.type) {
+    case BITWARDEN_LOGIN: {
+      const login = item.login ?? {};
+      if (!login.password) return null;
+      return {
+        kind: 'login', title, customFields, tags, notes,
+        username: login.username ?? '',
+        password: login.password,
+        url: login.uris?.[0]?.uri ?? undefined,
+        totp: login.totp ?? undefined
+      };
+    }
+    case BITWARDEN_NOTE:
+      return notes ? { kind: 'note', title, customFields, tags, notes } : null;
+    case BITWARDEN_CARD: {
+      const card = item.card ?? {};
+      if (!card.number) return null;
+      const expiry = card.expMonth && card.expYear ? `${card.expMonth.padStart(2, '0')}/${card.expYear.slice(-2)}` : '';
+      return { kind: 'card', title, customFields, tags, notes, cardholder: card.cardholderName ?? '', number: card.number, expiry, cvv: card.code ?? '' };
+    }
+    case BITWARDEN_IDENTITY: {
+      const id = item.identity ?? {};
+      const fullName = [id.firstName, id.lastName].filter(Boolean).join(' ');
+      if (!fullName) return null;
+      const address = [id.address1, id.city, id.postalCode, id.country].filter(Boolean).join(', ');
+      return { kind: 'identity', title, customFields, tags, notes, fullName, email: id.email ?? '', phone: id.phone ?? '', address };
+    }
+    default:
+      return null;
+  }
+}
+
+export const BitwardenParser: ImportParser = {
+  id: 'bitwarden-json',
+  label: 'Bitwarden (JSON)',
+  accept: '.json,application/json',
+  detect: (contents) => contents.trimStart().startsWith('{') && contents.includes('"items"'),
+  parse: (contents) => {
+    let data: BitwardenExport;
+    try {
+      data = JSON.parse(contents);
+    } catch (e) {
+      throw new ImportFormatError("File is not valid JSON");
+    }
+    if (data.encrypted) throw new ImportFormatError("Encrypted Bitwarden exports are not supported. Export as unencrypted JSON.");
+    if (!Array.isArray(data.items)) throw new ImportFormatError("No items array found in Bitwarden export");
+
+    const folders = new Map((data.folders ?? []).map(f => [f.id, f.name]));
+    return data.items.map(item => toItem(item, folders)).filter((item): item is ImportedItem => item !== null);
+  }
+};
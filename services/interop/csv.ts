@@ -0,0 +1,60 @@
+/**
+ * Minimal RFC 4180 reader/writer: quoted fields, doubled quotes and line breaks inside quotes.
+ */
+
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  // Excel and 1Password prepend a BOM
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const c = input[i];
+    if (quoted) {
+      if (c === '"' && input[i + 1] === '"') { field += '"'; i++; }
+      else if (c === '"') quoted = false;
+      else field += c;
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ',') {
+      row.push(field);
+      field = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += c;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+}
+
+export function toCsv(rows: string[][]): string {
+  return rows.map(r => r.map(cell => /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell).join(',')).join('\r\n');
+}
+
+/**
+ * Maps each header row cell to lower case so parsers can look columns up by any of several names.
+ */
+export function readCsvRecords(text: string): Record<string, string>[] {
+  const [header, ...body] = parseCsv(text);
+  if (!header) return [];
+  const keys = header.map(h => h.trim().toLowerCase());
+  return body.map(cells => Object.fromEntries(keys.map((k, i) => [k, cells[i] ?? ''])));
+}
+
+export function pick(record: Record<string, string>, ...names: string[]): string {
+  for (const name of names) {
+    if (record[name]) return record[name];
+  }
+  return '';
+}
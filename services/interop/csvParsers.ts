@@ -0,0 +1,42 @@
+import { ImportParser, ImportedItem, ImportFormatError } from './types';
+import { readCsvRecords, pick } from './csv';
+
+function fromRecords(contents: string, required: string[]): ImportedItem[] {
+  const records = readCsvRecords(contents);
+  if (records.length && !required.every(col => col in records[0])) {
+    throw new ImportFormatError(`CSV is missing columns: ${required.filter(col => !(col in records[0])).join(', ')}`);
+  }
+  return records
+    .map((r): ImportedItem => ({
+      kind: 'login',
+      title: pick(r, 'title', 'name') || pick(r, 'url', 'website', 'login_uri') || 'Untitled',
+      username: pick(r, 'username', 'login', 'login_username', 'email'),
+      password: pick(r, 'password', 'login_password'),
+      url: pick(r, 'url', 'website', 'login_uri') || undefined,
+      notes: pick(r, 'notes', 'note') || undefined,
+      totp: pick(r, 'otpauth', 'totp', 'login_totp') || undefined,
+      customFields: [],
+      tags: []
+    }))
+    .filter(item => item.kind === 'login' && item.password);
+}
+
+function headerOf(contents: string): string {
+  return contents.replace(/^\uFEFF/, '').split(/\r?\n/, 1)[0].toLowerCase();
+}
+
+export const OnePasswordCsvParser: ImportParser = {
+  id: '1password-csv',
+  label: '1Password (CSV)',
+  accept: '.csv,text/csv',
+  detect: (contents) => /^"?title"?,/.test(headerOf(contents)),
+  parse: (contents) => fromRecords(contents, ['title', 'password'])
+};
+
+export const ChromeCsvParser: ImportParser = {
+  id: 'chrome-csv',
+  label: 'Chrome / Edge (CSV)',
+  accept: '.csv,text/csv',
+  detect: (contents) => /^"?name"?,"?url"?,/.test(headerOf(contents)),
+  parse: (contents) => fromRecords(contents, ['name', 'password'])
+};
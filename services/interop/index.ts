@@ -0,0 +1,85 @@
+import { VaultItem, ItemDraft, createItem, updateItem, toDraft, isActive, normalizeTags } from '../VaultItems';
+import { ImportParser, ImportedItem } from './types';
+import { BitwardenParser } from './bitwarden';
+import { KeePassParser } from './keepass';
+import { OnePasswordCsvParser, ChromeCsvParser } from './csvParsers';
+import { toCsv } from './csv';
+
+export { ImportFormatError } from './types';
+export type { ImportParser, ImportedItem } from './types';
+
+/** Register new source formats here; the import wizard lists them in this order. */
+export const IMPORT_PARSERS: ImportParser[] = [BitwardenParser, KeePassParser, OnePasswordCsvParser, ChromeCsvParser];
+
+export function detectParser(contents: string): ImportParser | null {
+  return IMPORT_PARSERS.find(p => p.detect(contents)) ?? null;
+}
+
+export type DuplicateStrategy = 'merge' | 'skip';
+
+export interface ImportPreviewRow {
+  item: ImportedItem;
+  /** Existing item of the same kind with the same title and username, if any. */
+  duplicateOf: VaultItem | null;
+}
+
+function identity(item: ItemDraft): string {
+  const username = item.kind === 'login' ? item.username : '';
+  return `${item.kind}\u0000${item.title.trim().toLowerCase()}\u0000${username.trim().toLowerCase()}`;
+}
+
+export function previewImport(existing: VaultItem[], imported: ImportedItem[]): ImportPreviewRow[] {
+  const byIdentity = new Map(existing.filter(isActive).map(item => [identity(item), item]));
+  return imported.map(item => ({ item, duplicateOf: byIdentity.get(identity(item)) ?? null }));
+}
+
+function mergeDraft(item: VaultItem, imported: ImportedItem): ItemDraft {
+  // The user's own organisation wins; imported tags are only added
+  return {
+    ...toDraft(item),
+    ...imported,
+    folder: item.folder ?? imported.folder,
+    tags: normalizeTags([...item.tags, ...imported.tags]),
+    favorite: item.favorite || imported.favorite
+  } as ItemDraft;
+}
+
+/**
+ * Produces the full item list to persist. "merge" overwrites the duplicate's
+ * password in place, "skip" keeps the existing item untouched.
+ */
+export function applyImport(existing: VaultItem[], rows: ImportPreviewRow[], strategy: DuplicateStrategy): VaultItem[] {
+  const updates = new Map<string, ImportedItem>();
+  const now = Date.now();
+  const added: VaultItem[] = [];
+  const seen = new Set<string>();
+
+  for (const { item, duplicateOf } of rows) {
+    // The same credential can appear twice in one export; keep the first
+    if (seen.has(identity(item))) continue;
+    seen.add(identity(item));
+    if (!duplicateOf) added.push(createItem(item, now));
+    else if (strategy === 'merge') updates.set(duplicateOf.id, item);
+  }
+
+  return [
+    // identity() includes the kind, so an update never changes an item's shape
+    ...existing.map(item => updates.has(item.id) ? updateItem(item, mergeDraft(item, updates.get(item.id)!), now) : item),
+    ...added
+  ];
+}
+
+export type PlaintextFormat = 'csv' | 'json';
+
+/**
+ * JSON keeps every item kind. CSV uses Chrome's column layout, which every
+ * major password manager can import, and therefore only carries logins.
+ */
+export function exportPlaintext(items: VaultItem[], format: PlaintextFormat): string {
+  const active = items.filter(isActive);
+  if (format === 'json') {
+    return JSON.stringify(active.map(({ id, deletedAt, ...item }) => item), null, 2);
+  }
+  const logins = active.filter(i => i.kind === 'login');
+  return toCsv([['name', 'url', 'username', 'password', 'totp', 'note'], ...logins.map(i => [i.title, i.url ?? '', i.username, i.password, i.totp ?? '', i.notes ?? ''])]);
+}
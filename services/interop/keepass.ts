@@ -0,0 +1,64 @@
+import { ImportParser, ImportedItem, ImportFormatError } from './types';
+import { CustomField, normalizeFolder, normalizeTags } from '../VaultItems';
+
+const STANDARD_FIELDS = ['Title', 'UserName', 'Password', 'URL', 'Notes', 'otp'];
+
+/** Group names from below the database root down to the entry, as a folder path. */
+function groupPath(entry: Element): string | undefined {
+  const names: string[] = [];
+  for (let group = entry.parentElement; group?.tagName === 'Group'; group = group.parentElement) {
+    // The outermost group is the database itself, not a folder
+    if (group.parentElement?.tagName !== 'Group') break;
+    names.unshift((group.querySelector(':scope > Name')?.textContent ?? '').replace(/\//g, '-'));
+  }
+  return normalizeFolder(names.join('/'));
+}
+
+/**
+ * KeePass 2.x "KeePass XML (2.x)" export. Entry history and the recycle bin are skipped.
+ */
+export const KeePassParser: ImportParser = {
+  id: 'keepass-xml',
+  label: 'KeePass (XML)',
+  accept: '.xml,text/xml,application/xml',
+  detect: (contents) => contents.includes('<KeePassFile'),
+  parse: (contents) => {
+    const doc = new DOMParser().parseFromString(contents, 'application/xml');
+    if (doc.getElementsByTagName('parsererror').length || !doc.querySelector('KeePassFile')) {
+      throw new ImportFormatError("File is not a KeePass XML export");
+    }
+    const recycleBinUuid = doc.querySelector('Meta > RecycleBinUUID')?.textContent?.trim();
+
+    return Array.from(doc.getElementsByTagName('Entry'))
+      .filter(entry => entry.parentElement?.tagName !== 'History')
+      .filter(entry => !recycleBinUuid || entry.parentElement?.querySelector(':scope > UUID')?.textContent?.trim() !== recycleBinUuid)
+      .map((entry): ImportedItem => {
+        const fields: Record<string, string> = {};
+        const customFields: CustomField[] = [];
+        for (const str of Array.from(entry.children).filter(c => c.tagName === 'String')) {
+          const key = str.querySelector(':scope > Key')?.textContent ?? '';
+          const valueNode = str.querySelector(':scope > Value');
+          const value = valueNode?.textContent ?? '';
+          fields[key] = value;
+          if (!STANDARD_FIELDS.includes(key) && value) {
+            const isProtected = valueNode?.getAttribute('ProtectInMemory') === 'True';
+            customFields.push({ id: crypto.randomUUID(), label: key, value, type: isProtected ? 'hidden' : 'text' });
+          }
+        }
+        return {
+          kind: 'login',
+          title: fields.Title || fields.URL || 'Untitled',
+          username: fields.UserName ?? '',
+          password: fields.Password ?? '',
+          url: fields.URL || undefined,
+          notes: fields.Notes || undefined,
+          // KeePassXC stores the otpauth URI in an "otp" string field
+          totp: fields.otp || undefined,
+          customFields,
+          folder: groupPath(entry),
+          tags: normalizeTags((entry.querySelector(':scope > Tags')?.textContent ?? '').split(/[;,]/))
+        };
+      })
+      .filter(item => item.kind === 'login' && item.password);
+  }
+};
@@ -0,0 +1,21 @@
+import { ItemDraft } from '../VaultItems';
+
+/** A record read from another password manager, before it gets an id. */
+export type ImportedItem = ItemDraft;
+
+export interface ImportParser {
+  id: string;
+  label: string;
+  /** Value for the file input's accept attribute. */
+  accept: string;
+  /** Cheap sniff used to pre-select a parser for a dropped file. */
+  detect: (contents: string) => boolean;
+  parse: (contents: string) => ImportedItem[];
+}
+
+export class ImportFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportFormatError';
+  }
+}
@@ -0,0 +1,95 @@
+import { StorageAdapter, StorageChanges, StorageConflictError } from './StorageAdapter';
+
+const DB_VERSION = 1;
+const STORE = 'records';
+
+/**
+ * IndexedDB backend. A commit is a single readwrite transaction, which the
+ * browser applies atomically: an abort or crash midway discards all of it.
+ * Readwrite transactions on the store run one at a time across tabs, so the
+ * precondition check and the writes cannot interleave with another tab's commit.
+ */
+export class IndexedDbAdapter implements StorageAdapter {
+  readonly persistent = true;
+  private readonly db: Promise<IDBDatabase>;
+
+  constructor(name: string = 'cyber-dt-vault') {
+    this.db = new Promise((resolve, reject) => {
+      const request = indexedDB.open(name, DB_VERSION);
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => reject(new Error("Vault database is blocked by another tab"));
+    });
+  }
+
+  static isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  /**
+   * Opens the database and resolves once it is usable. Rejects where the
+   * browser defines IndexedDB but refuses to open it, as some private-browsing modes do.
+   */
+  static async open(name?: string): Promise<IndexedDbAdapter> {
+    const adapter = new IndexedDbAdapter(name);
+    await adapter.db;
+    return adapter;
+  }
+
+  async get(key: string): Promise<string | null> {
+    const store = (await this.db).transaction(STORE, 'readonly').objectStore(STORE);
+    const value = await this.request<string | undefined>(store.get(key));
+    return value ?? null;
+  }
+
+  async keys(prefix: string): Promise<string[]> {
+    const store = (await this.db).transaction(STORE, 'readonly').objectStore(STORE);
+    // \uffff sorts after every character a key can contain
+    const keys = await this.request(store.getAllKeys(IDBKeyRange.bound(prefix, prefix + '\uffff')));
+    return keys.map(String);
+  }
+
+  async commit(changes: StorageChanges, expected: StorageChanges = {}): Promise<void> {
+    const tx = (await this.db).transaction(STORE, 'readwrite');
+    const store = tx.objectStore(STORE);
+    const done = new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error ?? new Error("Storage transaction aborted"));
+    });
+    const apply = () => {
+      for (const [key, value] of Object.entries(changes)) {
+        if (value === null) store.delete(key);
+        else store.put(value, key);
+      }
+    };
+
+    // Callbacks rather than awaits: the transaction must not go idle between the reads and the writes
+    const checks = Object.entries(expected);
+    let pending = checks.length;
+    let conflict = false;
+    if (!pending) apply();
+    for (const [key, value] of checks) {
+      const request = store.get(key);
+      request.onsuccess = () => {
+        if ((request.result ?? null) !== value) conflict = true;
+        if (--pending) return;
+        if (conflict) tx.abort();
+        else apply();
+      };
+    }
+    try {
+      await done;
+    } catch (e) {
+      throw conflict ? new StorageConflictError() : e;
+    }
+  }
+
+  private request<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
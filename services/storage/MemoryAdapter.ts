@@ -0,0 +1,29 @@
+import { StorageAdapter, StorageChanges, StorageConflictError } from './StorageAdapter';
+
+/**
+ * Non-persistent backend for tests and for browsers that block IndexedDB
+ * (some private-browsing modes). Everything is gone on reload.
+ */
+export class MemoryAdapter implements StorageAdapter {
+  readonly persistent = false;
+  private readonly store = new Map<string, string>();
+
+  async get(key: string): Promise<string | null> {
+    return this.store.get(key) ?? null;
+  }
+
+  async keys(prefix: string): Promise<string[]> {
+    return [...this.store.keys()].filter(key => key.startsWith(prefix));
+  }
+
+  // Nothing awaits between the check and the writes, so no reader can observe half a commit
+  async commit(changes: StorageChanges, expected: StorageChanges = {}): Promise<void> {
+    for (const [key, value] of Object.entries(expected)) {
+      if ((this.store.get(key) ?? null) !== value) throw new StorageConflictError();
+    }
+    for (const [key, value] of Object.entries(changes)) {
+      if (value === null) this.store.delete(key);
+      else this.store.set(key, value);
+    }
+  }
+}
@@ -0,0 +1,31 @@
+
+/**
+ * Key-value persistence behind VaultService. Values are opaque strings; the
+ * service encrypts anything sensitive before it gets here.
+ */
+
+/** A string writes the key, null deletes it. */
+export type StorageChanges = Record<string, string | null>;
+
+/** A commit's precondition failed: another writer, e.g. another tab, changed an expected key first. */
+export class StorageConflictError extends Error {
+  constructor() {
+    super("Storage was changed by another writer");
+    this.name = 'StorageConflictError';
+  }
+}
+
+export interface StorageAdapter {
+  /** False when data does not survive a reload. */
+  readonly persistent: boolean;
+  get(key: string): Promise<string | null>;
+  /** Every stored key that starts with `prefix`. */
+  keys(prefix: string): Promise<string[]>;
+  /**
+   * Applies all changes in one transaction: after a crash either every key
+   * has its new value or none has. If `expected` is given, the commit only
+   * applies while each of its keys still holds that value (null: absent) and
+   * otherwise rejects with StorageConflictError, writing nothing.
+   */
+  commit(changes: StorageChanges, expected?: StorageChanges): Promise<void>;
+}
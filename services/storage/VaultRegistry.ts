@@ -0,0 +1,36 @@
+import { StorageAdapter, StorageChanges } from './StorageAdapter';
+
+/**
+ * Index of the named vaults in one storage backend. Each vault's records live
+ * under their own key prefix, so vaults never see each other's slots or data.
+ */
+
+export interface VaultInfo {
+  id: string;
+  name: string;
+  createdAt: string;
+  /** Set on the vault carried over from the old localStorage layout. */
+  legacy?: boolean;
+}
+
+export interface VaultRegistry {
+  vaults: VaultInfo[];
+  /** Preselected on the lock screen. */
+  lastUsed: string | null;
+}
+
+const REGISTRY_KEY = 'registry';
+
+export function vaultPrefix(id: string): string {
+  return `vault:${id}:`;
+}
+
+export async function readRegistry(storage: StorageAdapter): Promise<VaultRegistry> {
+  const stored = await storage.get(REGISTRY_KEY);
+  return stored ? JSON.parse(stored) : { vaults: [], lastUsed: null };
+}
+
+/** Registry writes ride along in the same commit as the vault records they describe. */
+export function registryChanges(registry: VaultRegistry): StorageChanges {
+  return { [REGISTRY_KEY]: JSON.stringify(registry) };
+}
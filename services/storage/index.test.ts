@@ -0,0 +1,35 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { createDefaultStorage, MemoryAdapter } from '.';
+import { VaultService } from '../VaultService';
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('createDefaultStorage', () => {
+  it('falls back to memory without IndexedDB', async () => {
+    vi.stubGlobal('indexedDB', undefined);
+    expect(await createDefaultStorage()).toBeInstanceOf(MemoryAdapter);
+  });
+
+  it('falls back to memory when IndexedDB refuses to open', async () => {
+    // As in private-browsing modes that define indexedDB but fail every open()
+    vi.stubGlobal('indexedDB', {
+      open: () => {
+        const request: Partial<IDBOpenDBRequest> = { error: new DOMException("The operation is insecure.", 'SecurityError') };
+        setTimeout(() => request.onerror?.call(request as IDBOpenDBRequest, new Event('error')));
+        return request;
+      }
+    });
+    expect(await createDefaultStorage()).toBeInstanceOf(MemoryAdapter);
+  });
+});
+
+describe('VaultService.initStorage', () => {
+  it('opens the fallback storage when none is given', async () => {
+    vi.stubGlobal('indexedDB', undefined);
+    expect(await VaultService.initStorage()).toEqual({ vaults: [], lastUsed: null });
+    await VaultService.initializeVault('Personal', 'correct horse battery staple');
+    expect(await VaultService.listVaults()).toHaveLength(1);
+  });
+});
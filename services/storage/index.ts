@@ -0,0 +1,21 @@
+import { StorageAdapter } from './StorageAdapter';
+import { IndexedDbAdapter } from './IndexedDbAdapter';
+import { MemoryAdapter } from './MemoryAdapter';
+
+export type { StorageAdapter, StorageChanges } from './StorageAdapter';
+export { StorageConflictError } from './StorageAdapter';
+export type { VaultInfo, VaultRegistry } from './VaultRegistry';
+export { IndexedDbAdapter } from './IndexedDbAdapter';
+export { MemoryAdapter } from './MemoryAdapter';
+export { readRegistry, registryChanges, vaultPrefix } from './VaultRegistry';
+export { migrateLegacyStorage } from './legacy';
+
+/** IndexedDB where the page may open it, otherwise storage that lasts until reload. */
+export async function createDefaultStorage(): Promise<StorageAdapter> {
+  if (!IndexedDbAdapter.isSupported()) return new MemoryAdapter();
+  try {
+    return await IndexedDbAdapter.open();
+  } catch (e) {
+    return new MemoryAdapter();
+  }
+}
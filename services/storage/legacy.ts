@@ -0,0 +1,30 @@
+import { StorageAdapter, StorageChanges } from './StorageAdapter';
+import { readRegistry, registryChanges, vaultPrefix } from './VaultRegistry';
+
+const LEGACY_PREFIX = 'ironvault_';
+const LEGACY_VAULT_MARKER = 'ironvault_vmk_master';
+const LEGACY_VAULT_NAME = 'Personal';
+
+/**
+ * One-time move of the pre-adapter `ironvault_*` localStorage keys into a
+ * vault named "Personal". The copy is a single commit; the old keys are only
+ * removed after it succeeded, and a repeated run after a crash in between
+ * sees the `legacy` vault and just finishes the cleanup.
+ */
+export async function migrateLegacyStorage(storage: StorageAdapter, legacy: Storage = localStorage): Promise<void> {
+  const keys = Array.from({ length: legacy.length }, (_, i) => legacy.key(i)!).filter(key => key.startsWith(LEGACY_PREFIX));
+  if (!keys.length) return;
+
+  const registry = await readRegistry(storage);
+  if (keys.includes(LEGACY_VAULT_MARKER) && !registry.vaults.some(v => v.legacy)) {
+    const id = crypto.randomUUID();
+    const changes: StorageChanges = {};
+    for (const key of keys) changes[vaultPrefix(id) + key.slice(LEGACY_PREFIX.length)] = legacy.getItem(key);
+    registry.vaults.push({ id, name: LEGACY_VAULT_NAME, createdAt: new Date().toISOString(), legacy: true });
+    registry.lastUsed = registry.lastUsed ?? id;
+    await storage.commit({ ...changes, ...registryChanges(registry) });
+  }
+
+  // Without a persistent backend the old keys are the only durable copy
+  if (storage.persistent) keys.forEach(key => legacy.removeItem(key));
+}
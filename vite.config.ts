@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
@@ -18,6 +19,12 @@ export default defineConfig(({ mode }) => {
         alias: {
           '@': path.resolve(__dirname, '.'),
         }
+      },
+      test: {
+        // Services use window, localStorage and navigator like they do in the browser
+        environment: 'happy-dom',
+        // Unlocks run the real Argon2id, which takes a moment per attempt
+        testTimeout: 30000
       }
     };
 });